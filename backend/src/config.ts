@@ -0,0 +1,7 @@
+import path from 'path';
+
+// Directory for everything the backend persists (templates, graphs, ...). Resolved lazily
+// so values from .env are picked up.
+export function getDataDir(): string {
+    return path.resolve(process.env.DIANOIA_DATA_DIR || path.join(process.cwd(), 'data'));
+}
@@ -0,0 +1,106 @@
+import express from 'express';
+import axios from 'axios';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { handleGenerate, handleGenerateStream } from './argumentController';
+import { debug } from '../../../shared/debug';
+
+// End-to-end runs of the generate endpoints against recorded LLM responses. The fixtures in
+// backend/fixtures/llm/mock were recorded from the offline mock provider, so they cover the
+// endpoints and the replay path, not the output of a real model. Re-record them with
+// LLM_FIXTURES=record and LLM_PROVIDER=mock.
+
+const FIXTURES_DIR = path.join(__dirname, '..', '..', 'fixtures', 'llm', 'mock');
+const RECORDED_FIXTURE = path.join(FIXTURES_DIR, '6c38afe5837fb570381999359c8fc84a.json');
+const ENV_KEYS = ['LLM_FIXTURES', 'LLM_FIXTURES_DIR', 'LLM_PROVIDER', 'LLM_MODEL', 'LLM_API_KEY', 'OPENAI_API_KEY', 'DIANOIA_DATA_DIR'];
+
+function sourceNode(label: string) {
+    return { id: 'thesis', type: 'argumentNode', position: { x: 0, y: 0 }, data: { label, author: 'user' } };
+}
+
+describe('generate endpoints replaying recorded LLM responses', () => {
+    const savedEnv: Record<string, string | undefined> = {};
+    let server: Server;
+    let baseUrl: string;
+    let dataDir: string;
+    let recordedClaim: string;
+
+    beforeAll(async () => {
+        ENV_KEYS.forEach(key => {
+            savedEnv[key] = process.env[key];
+            delete process.env[key];
+        });
+        dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'dianoia-test-'));
+        Object.assign(process.env, {
+            LLM_FIXTURES: 'replay',
+            LLM_FIXTURES_DIR: FIXTURES_DIR,
+            LLM_PROVIDER: 'mock',
+            DIANOIA_DATA_DIR: dataDir
+        });
+        debug.updateConfig({ enabled: false });
+
+        recordedClaim = JSON.parse(JSON.parse(await fs.readFile(RECORDED_FIXTURE, 'utf8')).response).claim;
+
+        const app = express();
+        app.use(express.json());
+        app.post('/api/generate', handleGenerate);
+        app.post('/api/generate/stream', handleGenerateStream);
+        server = app.listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+        await fs.rm(dataDir, { recursive: true, force: true });
+        ENV_KEYS.forEach(key => {
+            if (savedEnv[key] === undefined) delete process.env[key];
+            else process.env[key] = savedEnv[key];
+        });
+    });
+
+    it('answers /api/generate from the recorded response', async () => {
+        const response = await axios.post(`${baseUrl}/api/generate`, {
+            sourceNode: sourceNode('Cities should ban cars from their centres.'),
+            action: 'supports'
+        });
+
+        expect(response.status).toBe(200);
+        expect(response.data.newNode.data).toMatchObject({ label: recordedClaim, author: 'llm' });
+        expect(response.data.newEdge).toMatchObject({ source: 'thesis', target: response.data.newNode.id, data: { relation: 'supports' } });
+        expect(response.data.candidates).toHaveLength(1);
+    });
+
+    it('streams the recorded response word by word', async () => {
+        const response = await axios.post(`${baseUrl}/api/generate/stream`, {
+            sourceNode: sourceNode('Cities should ban cars from their centres.'),
+            action: 'supports'
+        }, { responseType: 'text' });
+
+        const events = (response.data as string).trim().split('\n\n').map(block => {
+            const [event, data] = block.split('\n');
+            return { event: event.replace('event: ', ''), data: JSON.parse(data.replace('data: ', '')) };
+        });
+        const tokens = events.filter(e => e.event === 'token').map(e => e.data.token);
+
+        expect(events[0].event).toBe('start');
+        expect(tokens.length).toBeGreaterThan(1);
+        expect(tokens.join('')).toBe(recordedClaim);
+        expect(events[events.length - 1]).toMatchObject({ event: 'done', data: { newNode: { data: { label: recordedClaim } } } });
+    });
+
+    // The mock provider would have answered, so this shows replies come from the fixtures
+    it('fails with fixture_missing for a prompt that was never recorded', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const response = await axios.post(`${baseUrl}/api/generate`, {
+            sourceNode: sourceNode('A claim nobody recorded.'),
+            action: 'supports'
+        }, { validateStatus: () => true });
+
+        expect(response.status).toBe(404);
+        expect(response.data.code).toBe('fixture_missing');
+    });
+});
@@ -1,30 +1,42 @@
 import { Request, Response } from 'express';
 import { nanoid } from 'nanoid';
-import { generateArgument, setSessionKey, getSessionKey } from '../services/llmService';
-import { ArgumentNode, ArgumentEdge, Action } from '../types';
+import { generateCandidates, generateArgumentStream } from '../services/llmService';
+import { createSession, getSession, setSessionConfig } from '../services/sessionStore';
+import { readSessionId, setSessionCookie } from '../sessionCookie';
+import { getProvider, listProviders, isAllowedBaseUrl } from '../services/providers';
+import { sanitizeGraphContext } from '../services/graphContext';
+import { GeneratedClaim } from '../services/structuredOutput';
+import { ArgumentNode, ArgumentEdge, Action, RELATION_IDS, isRelationId } from '../types';
 import { debug } from '../../../shared/debug';
+import { sendError, errorBody } from './sendError';
 
 interface GenerateRequest {
     sourceNode: ArgumentNode;
     action: Action;
-    sessionId?: string;
+    context?: unknown; // Untrusted GraphContext, see sanitizeGraphContext
+    count?: number; // Number of alternative candidates, /api/generate only
+    templateSetId?: string; // Prompt template set pinned to the graph
 }
 
+const MAX_CANDIDATES = 5;
+
 interface SetupAPIKeyRequest {
-    sessionId: string;
-    provider: 'openai' | 'openrouter';
-    apiKey: string;
+    provider: string;
+    apiKey?: string;
     model?: string;
+    baseUrl?: string;
 }
 
-function calculateNewNodePosition(sourceNode: ArgumentNode): { x: number; y: number } {
+function calculateNewNodePosition(sourceNode: ArgumentNode, index: number = 0): { x: number; y: number } {
     debug.trace('controller', 'calculate_position', 'Calculating new node position', {
-        sourcePosition: sourceNode.position
+        sourcePosition: sourceNode.position,
+        index
     });
 
-    // Position the new node below the source node
+    // Provisional position below the source node, fanning alternatives out sideways. The
+    // frontend places new claims with its own layout, so this only matters for other clients.
     const newPosition = {
-        x: sourceNode.position.x,
+        x: sourceNode.position.x + index * 250,
         y: sourceNode.position.y + 150
     };
 
@@ -36,39 +48,103 @@ function calculateNewNodePosition(sourceNode: ArgumentNode): { x: number; y: num
     return newPosition;
 }
 
+// Returns an error message for the client, or null when the request is valid
+function validateGenerateRequest(body: Partial<GenerateRequest>): string | null {
+    const { sourceNode, action } = body;
+
+    if (!sourceNode || !action) {
+        debug.warn('controller', 'validation_failed', 'Missing required fields', {
+            hasSourceNode: !!sourceNode,
+            hasAction: !!action,
+            receivedFields: Object.keys(body || {})
+        });
+
+        return 'Missing required fields: sourceNode and action';
+    }
+
+    const node = sourceNode as Partial<ArgumentNode>;
+    if (
+        typeof node.id !== 'string' ||
+        typeof node.data?.label !== 'string' ||
+        typeof node.position?.x !== 'number' ||
+        typeof node.position?.y !== 'number'
+    ) {
+        debug.warn('controller', 'validation_failed', 'Malformed source node', {
+            hasId: typeof node.id === 'string',
+            hasLabel: typeof node.data?.label === 'string',
+            hasPosition: typeof node.position?.x === 'number' && typeof node.position?.y === 'number'
+        });
+
+        return 'Invalid sourceNode. It needs an id, data.label and a numeric position';
+    }
+
+    if (!isRelationId(action)) {
+        debug.warn('controller', 'validation_failed', 'Invalid action provided', {
+            action,
+            validActions: RELATION_IDS
+        });
+
+        return `Invalid action. Must be one of: ${RELATION_IDS.join(', ')}`;
+    }
+
+    if (body.count !== undefined && (!Number.isInteger(body.count) || body.count < 1 || body.count > MAX_CANDIDATES)) {
+        debug.warn('controller', 'validation_failed', 'Invalid candidate count', { count: body.count });
+
+        return `Invalid count. Must be an integer between 1 and ${MAX_CANDIDATES}`;
+    }
+
+    return null;
+}
+
+function createGeneratedElements(
+    sourceNode: ArgumentNode,
+    action: Action,
+    generated?: GeneratedClaim, // Omitted for the placeholder sent before a stream starts
+    index: number = 0
+): { newNode: ArgumentNode; newEdge: ArgumentEdge } {
+    const newNode: ArgumentNode = {
+        id: nanoid(),
+        type: 'argumentNode',
+        position: calculateNewNodePosition(sourceNode, index),
+        data: {
+            label: generated?.claim || '',
+            author: 'llm',
+            rationale: generated?.rationale
+        }
+    };
+
+    const newEdge: ArgumentEdge = {
+        id: nanoid(),
+        source: sourceNode.id,
+        target: newNode.id,
+        type: 'argumentEdge',
+        data: {
+            relation: action
+        },
+        animated: true
+    };
+
+    return { newNode, newEdge };
+}
+
 export async function handleGenerate(req: Request, res: Response): Promise<void> {
     const timerId = debug.startTimer('handleGenerate', {
         action: req.body?.action,
-        sessionId: req.body?.sessionId
+        sessionId: readSessionId(req)
     });
 
     try {
         debug.info('controller', 'generate_request', 'Received generate request', {
-            body: req.body,
-            headers: req.headers
+            body: req.body
         });
 
-        const { sourceNode, action, sessionId }: GenerateRequest = req.body;
-
-        // Validate request body
-        if (!sourceNode || !action) {
-            debug.warn('controller', 'validation_failed', 'Missing required fields', {
-                hasSourceNode: !!sourceNode,
-                hasAction: !!action,
-                receivedFields: Object.keys(req.body)
-            });
-
-            res.status(400).json({ error: 'Missing required fields: sourceNode and action' });
-            return;
-        }
-
-        if (!['supports', 'refutes', 'unpacks'].includes(action)) {
-            debug.warn('controller', 'validation_failed', 'Invalid action provided', {
-                action,
-                validActions: ['supports', 'refutes', 'unpacks']
-            });
+        const { sourceNode, action, templateSetId, count = 1 }: GenerateRequest = req.body;
+        const sessionId = readSessionId(req);
+        const context = sanitizeGraphContext(req.body.context);
 
-            res.status(400).json({ error: 'Invalid action. Must be one of: supports, refutes, unpacks' });
+        const validationError = validateGenerateRequest(req.body);
+        if (validationError) {
+            res.status(400).json({ error: validationError });
             return;
         }
 
@@ -82,63 +158,137 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
         debug.info('controller', 'llm_call_start', 'Calling LLM service', {
             claim: sourceNode.data.label,
             action,
-            sessionId
+            sessionId,
+            ancestorCount: context?.ancestors.length || 0,
+            siblingCount: context?.siblings.length || 0,
+            count
         });
 
-        const newClaimText = await generateArgument(sourceNode.data.label, action, sessionId);
+        const claims = await generateCandidates({
+            claim: sourceNode.data.label,
+            action,
+            context,
+            sessionId,
+            templateSetId
+        }, count);
 
         debug.info('controller', 'llm_call_success', 'LLM call completed successfully', {
             originalClaim: sourceNode.data.label,
-            newClaim: newClaimText,
+            newClaims: claims.map(c => c.claim),
             action
         });
 
-        // Create new node
-        const newNode: ArgumentNode = {
-            id: nanoid(),
-            type: 'argumentNode',
-            position: calculateNewNodePosition(sourceNode),
-            data: {
-                label: newClaimText,
-                author: 'llm'
-            }
-        };
-
-        // Create new edge
-        const newEdge: ArgumentEdge = {
-            id: nanoid(),
-            source: sourceNode.id,
-            target: newNode.id,
-            type: 'argumentEdge',
-            data: {
-                relation: action
-            },
-            animated: true
-        };
+        const candidates = claims.map((claim, index) => createGeneratedElements(sourceNode, action, claim, index));
+        const { newNode, newEdge } = candidates[0];
 
         debug.info('controller', 'response_ready', 'Generated response ready', {
             newNodeId: newNode.id,
             newEdgeId: newEdge.id,
+            candidateCount: candidates.length,
             action
         });
 
+        // newNode/newEdge mirror the first candidate for clients that only want one
         res.status(200).json({
             newNode,
-            newEdge
+            newEdge,
+            candidates
         });
 
     } catch (error) {
-        debug.trackError(error as Error, 'controller', 'generate_error', {
+        sendError(res, error, 'generate_error', {
             body: req.body,
-            sessionId: req.body?.sessionId
+            sessionId: readSessionId(req)
+        });
+    } finally {
+        debug.endTimer(timerId);
+    }
+}
+
+function writeEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Server-sent events variant of handleGenerate. Emits `start` with the placeholder node and
+// edge, `token` for every chunk of the claim, then `done` with the final node, or `error`.
+// `retry` (backoff after a retryable error) and `fallback` (switching provider) mean the
+// claim text starts over.
+export async function handleGenerateStream(req: Request, res: Response): Promise<void> {
+    const timerId = debug.startTimer('handleGenerateStream', {
+        action: req.body?.action,
+        sessionId: readSessionId(req)
+    });
+
+    const validationError = validateGenerateRequest(req.body);
+    if (validationError) {
+        res.status(400).json({ error: validationError });
+        debug.endTimer(timerId);
+        return;
+    }
+
+    const { sourceNode, action, templateSetId }: GenerateRequest = req.body;
+    const sessionId = readSessionId(req);
+    const context = sanitizeGraphContext(req.body.context);
+
+    // Cancel the upstream LLM call when the client goes away mid-stream
+    const abortController = new AbortController();
+    res.on('close', () => {
+        if (!res.writableEnded) {
+            debug.info('controller', 'stream_client_closed', 'Client closed the stream before completion', {
+                sourceNodeId: sourceNode.id,
+                action
+            });
+            abortController.abort();
+        }
+    });
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    try {
+        const { newNode, newEdge } = createGeneratedElements(sourceNode, action);
+        writeEvent(res, 'start', { newNode, newEdge });
+
+        debug.info('controller', 'stream_start', 'Streaming generated claim', {
+            sourceNodeId: sourceNode.id,
+            newNodeId: newNode.id,
+            action,
+            sessionId
         });
 
-        console.error('Error in handleGenerate:', error);
-        res.status(500).json({
-            error: 'Internal server error',
-            message: error instanceof Error ? error.message : 'Unknown error'
+        const generated = await generateArgumentStream(
+            { claim: sourceNode.data.label, action, context, sessionId, templateSetId },
+            (token) => writeEvent(res, 'token', { token }),
+            abortController.signal,
+            {
+                onRetry: (info) => writeEvent(res, 'retry', info),
+                onFallback: (info) => writeEvent(res, 'fallback', info)
+            }
+        );
+
+        newNode.data.label = generated.claim;
+        newNode.data.rationale = generated.rationale;
+        writeEvent(res, 'done', { newNode, newEdge });
+
+        debug.info('controller', 'stream_complete', 'Streamed claim complete', {
+            newNodeId: newNode.id,
+            newEdgeId: newEdge.id,
+            action
         });
+    } catch (error) {
+        if (!abortController.signal.aborted) {
+            debug.trackError(error as Error, 'controller', 'generate_stream_error', {
+                sourceNodeId: sourceNode.id,
+                sessionId
+            });
+
+            writeEvent(res, 'error', errorBody(error));
+        }
     } finally {
+        res.end();
         debug.endTimer(timerId);
     }
 }
@@ -146,52 +296,77 @@ export async function handleGenerate(req: Request, res: Response): Promise<void>
 export async function handleSetupAPIKey(req: Request, res: Response): Promise<void> {
     const timerId = debug.startTimer('handleSetupAPIKey', {
         provider: req.body?.provider,
-        sessionId: req.body?.sessionId
+        sessionId: readSessionId(req)
     });
 
     try {
         debug.info('controller', 'setup_key_request', 'Received API key setup request', {
             provider: req.body?.provider,
-            sessionId: req.body?.sessionId,
+            sessionId: readSessionId(req),
             hasApiKey: !!req.body?.apiKey
         });
 
-        const { sessionId, provider, apiKey, model }: SetupAPIKeyRequest = req.body;
+        const { provider, apiKey, model, baseUrl }: SetupAPIKeyRequest = req.body;
 
         // Validate request body
-        if (!sessionId || !provider || !apiKey) {
+        if (!provider) {
             debug.warn('controller', 'setup_validation_failed', 'Missing required fields for API key setup', {
-                hasSessionId: !!sessionId,
                 hasProvider: !!provider,
-                hasApiKey: !!apiKey,
                 receivedFields: Object.keys(req.body)
             });
 
-            res.status(400).json({ error: 'Missing required fields: sessionId, provider, and apiKey' });
+            res.status(400).json({ error: 'Missing required field: provider' });
             return;
         }
 
-        if (!['openai', 'openrouter'].includes(provider)) {
+        const llmProvider = getProvider(provider);
+        if (!llmProvider) {
+            const validProviders = listProviders().map(p => p.id);
             debug.warn('controller', 'setup_validation_failed', 'Invalid provider specified', {
                 provider,
-                validProviders: ['openai', 'openrouter']
+                validProviders
+            });
+
+            res.status(400).json({ error: `Invalid provider. Must be one of: ${validProviders.join(', ')}` });
+            return;
+        }
+
+        if (llmProvider.capabilities.requiresApiKey && !apiKey) {
+            debug.warn('controller', 'setup_validation_failed', 'Provider requires an API key', {
+                provider,
+                hasApiKey: false
+            });
+
+            res.status(400).json({ error: `Missing required field: apiKey is required for ${llmProvider.label}` });
+            return;
+        }
+
+        if (baseUrl && !isAllowedBaseUrl(baseUrl)) {
+            debug.warn('controller', 'setup_validation_failed', 'Base URL is not allowed', {
+                provider,
+                baseUrl
             });
 
-            res.status(400).json({ error: 'Invalid provider. Must be one of: openai, openrouter' });
+            res.status(400).json({ error: 'Base URL is not allowed. The backend only calls servers listed in OPENAI_COMPATIBLE_BASE_URLS' });
             return;
         }
 
+        // The browser's session, or a new one when it has none or it expired
+        const session = getSession(readSessionId(req)) || createSession();
+
         debug.info('controller', 'setup_validation_passed', 'API key setup validation passed', {
-            sessionId,
+            sessionId: session.id,
             provider,
-            model
+            model,
+            baseUrl
         });
 
         // Store the API key for this session
-        setSessionKey(sessionId, { provider, apiKey, model });
+        setSessionConfig(session, { provider, apiKey, model, baseUrl });
+        setSessionCookie(res, session);
 
         debug.info('controller', 'key_stored', 'API key stored successfully', {
-            sessionId,
+            sessionId: session.id,
             provider,
             model
         });
@@ -199,19 +374,13 @@ export async function handleSetupAPIKey(req: Request, res: Response): Promise<vo
         res.status(200).json({
             message: 'API key configured successfully',
             provider,
-            sessionId
+            expiresAt: session.expiresAt
         });
 
     } catch (error) {
-        debug.trackError(error as Error, 'controller', 'setup_key_error', {
+        sendError(res, error, 'setup_key_error', {
             body: req.body,
-            sessionId: req.body?.sessionId
-        });
-
-        console.error('Error in handleSetupAPIKey:', error);
-        res.status(500).json({
-            error: 'Internal server error',
-            message: error instanceof Error ? error.message : 'Unknown error'
+            sessionId: readSessionId(req)
         });
     } finally {
         debug.endTimer(timerId);
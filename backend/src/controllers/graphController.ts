@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import {
+    GraphInput,
+    createGraph,
+    deleteGraph,
+    duplicateGraph,
+    getGraph,
+    listGraphs,
+    updateGraph,
+    validateGraphInput
+} from '../services/graphStore';
+import { deleteGraphSnapshots, recordAutoSnapshot } from '../services/snapshotStore';
+import { closeRoom } from '../services/collab';
+import { AifDocument, fromAif, toAif, validateAifDocument } from '../../../shared/aif';
+import { debug } from '../../../shared/debug';
+import { sendError } from './sendError';
+
+export async function handleListGraphs(req: Request, res: Response): Promise<void> {
+    try {
+        const graphs = await listGraphs();
+
+        debug.info('controller', 'list_graphs', 'Listing graphs', { count: graphs.length });
+
+        res.status(200).json({ graphs });
+    } catch (error) {
+        sendError(res, error, 'list_graphs_error', {});
+    }
+}
+
+export async function handleGetGraph(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        const graph = await getGraph(id);
+        if (!graph) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        res.status(200).json({ graph });
+    } catch (error) {
+        sendError(res, error, 'get_graph_error', { graphId: id });
+    }
+}
+
+export async function handleCreateGraph(req: Request, res: Response): Promise<void> {
+    try {
+        const validationError = validateGraphInput(req.body || {});
+        if (validationError) {
+            debug.warn('controller', 'graph_validation_failed', validationError, {
+                receivedFields: Object.keys(req.body || {})
+            });
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const graph = await createGraph(req.body as GraphInput);
+        res.status(201).json({ graph });
+    } catch (error) {
+        sendError(res, error, 'create_graph_error', {});
+    }
+}
+
+export async function handleUpdateGraph(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        const validationError = validateGraphInput(req.body);
+        if (validationError) {
+            debug.warn('controller', 'graph_validation_failed', validationError, { graphId: id });
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const input = req.body as GraphInput;
+        const previous = input.nodes !== undefined || input.edges !== undefined ? await getGraph(id) : null;
+        if (previous) {
+            // A failed snapshot shouldn't cost the user their save
+            await recordAutoSnapshot(previous).catch(error => {
+                debug.trackError(error as Error, 'controller', 'auto_snapshot_error', { graphId: id });
+            });
+        }
+
+        const graph = await updateGraph(id, input);
+        if (!graph) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        res.status(200).json({ graph });
+    } catch (error) {
+        sendError(res, error, 'update_graph_error', { graphId: id });
+    }
+}
+
+export async function handleDuplicateGraph(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { name } = req.body || {};
+
+    try {
+        if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+            res.status(400).json({ error: 'name must be a non-empty string' });
+            return;
+        }
+
+        const graph = await duplicateGraph(id, name?.trim());
+        if (!graph) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        res.status(201).json({ graph });
+    } catch (error) {
+        sendError(res, error, 'duplicate_graph_error', { graphId: id });
+    }
+}
+
+export async function handleDeleteGraph(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        const deleted = await deleteGraph(id);
+        if (!deleted) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+        await deleteGraphSnapshots(id);
+        closeRoom(id, 'The graph was deleted');
+
+        res.status(204).end();
+    } catch (error) {
+        sendError(res, error, 'delete_graph_error', { graphId: id });
+    }
+}
+
+// The saved graph as an AIF JSON download
+export async function handleExportGraphAif(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        const graph = await getGraph(id);
+        if (!graph) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        const fileName = graph.name.replace(/[^\w\- ]+/g, '').trim() || 'argument';
+        res.setHeader('Content-Disposition', `attachment; filename="${fileName}.aif.json"`);
+        res.status(200).json(toAif(graph.nodes, graph.edges));
+    } catch (error) {
+        sendError(res, error, 'export_graph_aif_error', { graphId: id });
+    }
+}
+
+// Converts an AIF corpus into claims and relations without saving anything; the client
+// lays them out and creates the graph
+export async function handleImportAif(req: Request, res: Response): Promise<void> {
+    try {
+        const validationError = validateAifDocument(req.body);
+        if (validationError) {
+            debug.warn('controller', 'aif_validation_failed', validationError, {});
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const result = fromAif(req.body as AifDocument);
+
+        debug.info('controller', 'import_aif', 'Converted AIF document', {
+            nodesCount: result.nodes.length,
+            edgesCount: result.edges.length,
+            warningsCount: result.warnings.length
+        });
+
+        res.status(200).json(result);
+    } catch (error) {
+        sendError(res, error, 'import_aif_error', {});
+    }
+}
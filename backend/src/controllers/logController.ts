@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { readSessionId } from '../sessionCookie';
+import { debug, LogEntry } from '../../../shared/debug';
+import { sendError } from './sendError';
+
+const MAX_ENTRIES_PER_BATCH = 200;
+const LEVELS = ['error', 'warn', 'info']; // What logShipping.ts sends; debug and trace stay in the browser
+
+// Anyone can post logs, so each session (or address, without one) may send a limited number
+// of entries a minute: a little over what logShipping.ts sends at most
+const RATE_WINDOW_MS = 60 * 1000;
+const MAX_ENTRIES_PER_WINDOW = 1500;
+const rateWindows = new Map<string, { startedAt: number; count: number }>();
+
+// Counts the entries against the sender's window; false when that would go over the limit
+function takeRateLimit(sender: string, count: number): boolean {
+    const now = Date.now();
+    let window = rateWindows.get(sender);
+
+    if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+        rateWindows.forEach((other, key) => {
+            if (now - other.startedAt >= RATE_WINDOW_MS) rateWindows.delete(key);
+        });
+        window = { startedAt: now, count: 0 };
+        rateWindows.set(sender, window);
+    }
+
+    if (window.count + count > MAX_ENTRIES_PER_WINDOW) return false;
+    window.count += count;
+    return true;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isLogEntry(value: unknown): value is LogEntry {
+    if (!isObject(value)) return false;
+    const { timestamp, level, component, action, message, context, performance } = value;
+
+    return typeof timestamp === 'string' && !Number.isNaN(Date.parse(timestamp)) &&
+        typeof level === 'string' && LEVELS.indexOf(level) !== -1 &&
+        typeof component === 'string' &&
+        typeof action === 'string' &&
+        typeof message === 'string' &&
+        (context === undefined || isObject(context)) &&
+        (performance === undefined || (isObject(performance) &&
+            (performance.duration === undefined || typeof performance.duration === 'number')));
+}
+
+// Log entries shipped by the frontend (services/logShipping.ts). They go wherever the
+// backend's own logs go, redacted the same way, marked with source: 'frontend' and a
+// 'frontend:' prefix on their component so they can't pass for the backend's own.
+export async function handleIngestLogs(req: Request, res: Response): Promise<void> {
+    try {
+        const entries = req.body?.entries;
+        if (!Array.isArray(entries)) {
+            res.status(400).json({ error: 'entries must be an array of log entries' });
+            return;
+        }
+        if (entries.length > MAX_ENTRIES_PER_BATCH) {
+            res.status(400).json({ error: `At most ${MAX_ENTRIES_PER_BATCH} log entries can be sent at once` });
+            return;
+        }
+
+        const sender = readSessionId(req) || req.ip || 'unknown';
+        if (!takeRateLimit(sender, entries.length)) {
+            debug.warn('controller', 'ingest_logs_rate_limited', 'Too many log entries from one sender', {
+                sessionId: readSessionId(req),
+                count: entries.length
+            });
+            res.set('Retry-After', String(RATE_WINDOW_MS / 1000));
+            res.status(429).json({ error: 'Too many log entries; try again later' });
+            return;
+        }
+
+        let accepted = 0;
+        entries.forEach(entry => {
+            if (!isLogEntry(entry)) return;
+            debug.ingest(entry, 'frontend');
+            accepted++;
+        });
+
+        res.status(202).json({ accepted, rejected: entries.length - accepted });
+    } catch (error) {
+        sendError(res, error, 'ingest_logs_error');
+    }
+}
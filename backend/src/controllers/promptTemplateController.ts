@@ -0,0 +1,172 @@
+import { Request, Response } from 'express';
+import {
+    DEFAULT_TEMPLATE_SET_ID,
+    TemplateSetInput,
+    createTemplateSet,
+    deleteTemplateSet,
+    getTemplateSet,
+    isBuiltInTemplateSet,
+    listTemplateSets,
+    renderPrompt,
+    updateTemplateSet,
+    validateTemplateSetInput
+} from '../services/promptTemplateService';
+import { sanitizeGraphContext } from '../services/graphContext';
+import { promptLength } from '../services/providers';
+import { RELATION_IDS, isRelationId } from '../types';
+import { debug } from '../../../shared/debug';
+import { sendError } from './sendError';
+
+interface PreviewRequest {
+    templateSetId?: string;
+    template?: Partial<TemplateSetInput>; // Unsaved draft, takes precedence over templateSetId
+    action: string;
+    claim: string;
+    context?: unknown;
+}
+
+export async function handleListTemplateSets(req: Request, res: Response): Promise<void> {
+    try {
+        const templateSets = await listTemplateSets();
+
+        debug.info('controller', 'list_template_sets', 'Listing prompt template sets', {
+            count: templateSets.length
+        });
+
+        res.status(200).json({ templateSets });
+    } catch (error) {
+        sendError(res, error, 'list_template_sets_error', {});
+    }
+}
+
+export async function handleGetTemplateSet(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        const templateSet = await getTemplateSet(id);
+        if (!templateSet) {
+            res.status(404).json({ error: `Unknown template set: ${id}` });
+            return;
+        }
+
+        res.status(200).json({ templateSet });
+    } catch (error) {
+        sendError(res, error, 'get_template_set_error', { templateSetId: id });
+    }
+}
+
+export async function handleCreateTemplateSet(req: Request, res: Response): Promise<void> {
+    try {
+        const validationError = validateTemplateSetInput(req.body);
+        if (validationError) {
+            debug.warn('controller', 'template_validation_failed', validationError, {
+                receivedFields: Object.keys(req.body || {})
+            });
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const templateSet = await createTemplateSet(req.body as TemplateSetInput);
+        res.status(201).json({ templateSet });
+    } catch (error) {
+        sendError(res, error, 'create_template_set_error', {});
+    }
+}
+
+export async function handleUpdateTemplateSet(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        if (isBuiltInTemplateSet(id)) {
+            res.status(403).json({ error: 'Built-in template sets cannot be modified' });
+            return;
+        }
+
+        const validationError = validateTemplateSetInput(req.body);
+        if (validationError) {
+            debug.warn('controller', 'template_validation_failed', validationError, { templateSetId: id });
+            res.status(400).json({ error: validationError });
+            return;
+        }
+
+        const templateSet = await updateTemplateSet(id, req.body as TemplateSetInput);
+        if (!templateSet) {
+            res.status(404).json({ error: `Unknown template set: ${id}` });
+            return;
+        }
+
+        res.status(200).json({ templateSet });
+    } catch (error) {
+        sendError(res, error, 'update_template_set_error', { templateSetId: id });
+    }
+}
+
+export async function handleDeleteTemplateSet(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        if (isBuiltInTemplateSet(id)) {
+            res.status(403).json({ error: 'Built-in template sets cannot be deleted' });
+            return;
+        }
+
+        const deleted = await deleteTemplateSet(id);
+        if (!deleted) {
+            res.status(404).json({ error: `Unknown template set: ${id}` });
+            return;
+        }
+
+        res.status(204).end();
+    } catch (error) {
+        sendError(res, error, 'delete_template_set_error', { templateSetId: id });
+    }
+}
+
+// Renders the exact messages that would be sent for a claim, from a saved set or an unsaved draft
+export async function handlePreviewPrompt(req: Request, res: Response): Promise<void> {
+    const { templateSetId, template, action, claim }: PreviewRequest = req.body || {};
+
+    try {
+        if (typeof claim !== 'string' || !isRelationId(action)) {
+            res.status(400).json({
+                error: `Missing claim or invalid action. Action must be one of: ${RELATION_IDS.join(', ')}`
+            });
+            return;
+        }
+
+        let set: Pick<TemplateSetInput, 'baseInstruction' | 'relations'> | null;
+        if (template) {
+            const validationError = validateTemplateSetInput({ name: 'preview', ...template });
+            if (validationError) {
+                res.status(400).json({ error: validationError });
+                return;
+            }
+            set = template as TemplateSetInput;
+        } else {
+            set = await getTemplateSet(templateSetId || DEFAULT_TEMPLATE_SET_ID);
+        }
+
+        if (!set) {
+            res.status(404).json({ error: `Unknown template set: ${templateSetId}` });
+            return;
+        }
+
+        const messages = renderPrompt(
+            { baseInstruction: set.baseInstruction, relations: set.relations || {} },
+            action,
+            claim,
+            sanitizeGraphContext(req.body.context)
+        );
+
+        debug.info('controller', 'prompt_preview', 'Rendered prompt preview', {
+            templateSetId,
+            draft: !!template,
+            action,
+            promptLength: promptLength(messages)
+        });
+
+        res.status(200).json({ messages });
+    } catch (error) {
+        sendError(res, error, 'prompt_preview_error', { templateSetId, action });
+    }
+}
@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { listModels } from '../services/llmService';
+import { getProvider, listProviders } from '../services/providers';
+import { listRelationInfo } from '../types';
+import { readSessionId } from '../sessionCookie';
+import { debug } from '../../../shared/debug';
+
+export async function handleListProviders(req: Request, res: Response): Promise<void> {
+    const providers = listProviders();
+
+    debug.info('controller', 'list_providers', 'Listing LLM providers', {
+        providerIds: providers.map(p => p.id)
+    });
+
+    res.status(200).json({ providers });
+}
+
+export async function handleListRelations(req: Request, res: Response): Promise<void> {
+    const relations = listRelationInfo();
+
+    debug.info('controller', 'list_relations', 'Listing relation registry', {
+        relationIds: relations.map(r => r.id)
+    });
+
+    res.status(200).json({ relations });
+}
+
+export async function handleListModels(req: Request, res: Response): Promise<void> {
+    const { providerId } = req.params;
+    const sessionId = readSessionId(req);
+    const timerId = debug.startTimer('handleListModels', { providerId, sessionId });
+
+    try {
+        const provider = getProvider(providerId);
+        if (!provider) {
+            debug.warn('controller', 'list_models_unknown_provider', 'Unknown provider requested', { providerId });
+            res.status(404).json({ error: `Unknown provider: ${providerId}` });
+            return;
+        }
+
+        if (!provider.capabilities.modelListing) {
+            res.status(200).json({ provider: providerId, models: [provider.defaultModel] });
+            return;
+        }
+
+        const models = await listModels(providerId, sessionId);
+
+        debug.info('controller', 'list_models_success', 'Listed provider models', {
+            providerId,
+            modelCount: models.length
+        });
+
+        res.status(200).json({ provider: providerId, models });
+    } catch (error) {
+        debug.trackError(error as Error, 'controller', 'list_models_error', { providerId, sessionId });
+
+        console.error('Error in handleListModels:', error);
+        res.status(502).json({
+            error: 'Failed to list models',
+            message: error instanceof Error ? error.message : 'Unknown error'
+        });
+    } finally {
+        debug.endTimer(timerId);
+    }
+}
@@ -0,0 +1,21 @@
+import { Response } from 'express';
+import { LLMError, statusForError } from '../services/errors';
+import { debug } from '../../../shared/debug';
+
+// What a failed request answers with. LLM errors carry a stable code the client can act on.
+export function errorBody(error: unknown): { error: string; message: string; code?: string } {
+    return {
+        error: error instanceof LLMError ? 'Generation failed' : 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: error instanceof LLMError ? error.code : undefined
+    };
+}
+
+// Logs an unexpected failure in a handler and answers with its message: 500, or the status
+// that goes with an LLM error's code
+export function sendError(res: Response, error: unknown, action: string, data: Record<string, unknown> = {}): void {
+    debug.trackError(error as Error, 'controller', action, data);
+
+    console.error(`Error in ${action}:`, error);
+    res.status(statusForError(error)).json(errorBody(error));
+}
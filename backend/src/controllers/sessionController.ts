@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import { resolveConfig, validateConfig } from '../services/llmService';
+import { getSession, revokeSession, setSessionValidation } from '../services/sessionStore';
+import { readSessionId, clearSessionCookie } from '../sessionCookie';
+import { SessionStatus } from '../types';
+import { debug } from '../../../shared/debug';
+import { sendError } from './sendError';
+
+// Which provider this browser's generations will use; ?validate=true also checks the key
+// with the provider, which takes a round trip
+export async function handleGetSession(req: Request, res: Response): Promise<void> {
+    try {
+        const session = getSession(readSessionId(req));
+        const config = resolveConfig(session?.id);
+        const fromSession = !!session?.config;
+
+        let validation = fromSession && session ? session.validation : null;
+        if (config && req.query.validate === 'true') {
+            validation = await validateConfig(config);
+            if (fromSession && session) setSessionValidation(session, validation);
+        }
+
+        const status: SessionStatus = {
+            configured: !!config,
+            source: fromSession ? 'session' : config ? 'environment' : null,
+            provider: config ? config.provider : null,
+            model: config?.model || null,
+            expiresAt: fromSession && session ? session.expiresAt : null,
+            validation
+        };
+
+        debug.info('controller', 'session_status', 'Session status requested', {
+            sessionId: session?.id,
+            configured: status.configured,
+            source: status.source,
+            validation: validation?.status
+        });
+
+        res.status(200).json({ session: status });
+    } catch (error) {
+        sendError(res, error, 'session_status_error');
+    }
+}
+
+// Forgets the browser's session and key; generations fall back to the environment's provider
+export async function handleDeleteSession(req: Request, res: Response): Promise<void> {
+    try {
+        const sessionId = readSessionId(req);
+        if (sessionId) revokeSession(sessionId);
+        clearSessionCookie(res);
+
+        res.status(204).end();
+    } catch (error) {
+        sendError(res, error, 'session_revoke_error');
+    }
+}
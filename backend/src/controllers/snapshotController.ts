@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { getGraph } from '../services/graphStore';
+import { createSnapshot, deleteSnapshot, getSnapshot, listSnapshots } from '../services/snapshotStore';
+import { sendError } from './sendError';
+
+export async function handleListSnapshots(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+
+    try {
+        if (!await getGraph(id)) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        res.status(200).json({ snapshots: await listSnapshots(id) });
+    } catch (error) {
+        sendError(res, error, 'list_snapshots_error', { graphId: id });
+    }
+}
+
+export async function handleGetSnapshot(req: Request, res: Response): Promise<void> {
+    const { id, snapshotId } = req.params;
+
+    try {
+        const snapshot = await getSnapshot(id, snapshotId);
+        if (!snapshot) {
+            res.status(404).json({ error: `Unknown snapshot: ${snapshotId}` });
+            return;
+        }
+
+        res.status(200).json({ snapshot });
+    } catch (error) {
+        sendError(res, error, 'get_snapshot_error', { graphId: id, snapshotId });
+    }
+}
+
+// A manual checkpoint of the graph as last saved; clients save outstanding edits first
+export async function handleCreateSnapshot(req: Request, res: Response): Promise<void> {
+    const { id } = req.params;
+    const { name } = req.body || {};
+
+    try {
+        if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+            res.status(400).json({ error: 'name must be a non-empty string' });
+            return;
+        }
+
+        const graph = await getGraph(id);
+        if (!graph) {
+            res.status(404).json({ error: `Unknown graph: ${id}` });
+            return;
+        }
+
+        const snapshot = await createSnapshot(graph, name?.trim() || 'Checkpoint', 'manual');
+        res.status(201).json({ snapshot });
+    } catch (error) {
+        sendError(res, error, 'create_snapshot_error', { graphId: id });
+    }
+}
+
+export async function handleDeleteSnapshot(req: Request, res: Response): Promise<void> {
+    const { id, snapshotId } = req.params;
+
+    try {
+        const deleted = await deleteSnapshot(id, snapshotId);
+        if (!deleted) {
+            res.status(404).json({ error: `Unknown snapshot: ${snapshotId}` });
+            return;
+        }
+
+        res.status(204).end();
+    } catch (error) {
+        sendError(res, error, 'delete_snapshot_error', { graphId: id, snapshotId });
+    }
+}
@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { debug } from '../../shared/debug';
+
+// Who may read the debug endpoints (/debug/* and /metrics). With DEBUG_ADMIN_TOKEN set,
+// callers must send it as "Authorization: Bearer <token>" or an X-Admin-Token header.
+// Without it the endpoints are only there in development, and only for requests from this
+// machine; in production they don't exist.
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+function readAdminToken(req: Request): string | undefined {
+    const authorization = req.headers.authorization;
+    if (authorization && authorization.startsWith('Bearer ')) {
+        return authorization.slice('Bearer '.length).trim();
+    }
+    const header = req.headers['x-admin-token'];
+    return typeof header === 'string' ? header : undefined;
+}
+
+function tokensMatch(given: string, expected: string): boolean {
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function requireDebugAccess(req: Request, res: Response, next: NextFunction): void {
+    const adminToken = process.env.DEBUG_ADMIN_TOKEN;
+
+    if (adminToken) {
+        const given = readAdminToken(req);
+        if (given && tokensMatch(given, adminToken)) {
+            next();
+            return;
+        }
+
+        debug.warn('server', 'debug_access_denied', 'Debug endpoint requested without a valid admin token', {
+            url: req.url,
+            ip: req.ip
+        });
+        res.status(401).json({ error: 'A valid admin token is required' });
+        return;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+        res.status(404).json({ error: 'Not found' });
+        return;
+    }
+
+    if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '')) {
+        debug.warn('server', 'debug_access_denied', 'Debug endpoint requested from another machine', {
+            url: req.url,
+            ip: req.socket.remoteAddress
+        });
+        res.status(403).json({ error: 'Debug endpoints are only available from localhost unless DEBUG_ADMIN_TOKEN is set' });
+        return;
+    }
+
+    next();
+}
+
+// Whether the debug endpoints answer at all, for the startup banner
+export function debugEndpointsEnabled(): boolean {
+    return !!process.env.DEBUG_ADMIN_TOKEN || process.env.NODE_ENV !== 'production';
+}
@@ -1,8 +1,43 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { handleGenerate, handleSetupAPIKey } from './controllers/argumentController';
+import { handleGenerate, handleGenerateStream, handleSetupAPIKey } from './controllers/argumentController';
+import { handleListProviders, handleListModels, handleListRelations } from './controllers/providerController';
+import {
+    handleListTemplateSets,
+    handleGetTemplateSet,
+    handleCreateTemplateSet,
+    handleUpdateTemplateSet,
+    handleDeleteTemplateSet,
+    handlePreviewPrompt
+} from './controllers/promptTemplateController';
+import {
+    handleListGraphs,
+    handleGetGraph,
+    handleCreateGraph,
+    handleUpdateGraph,
+    handleDuplicateGraph,
+    handleDeleteGraph,
+    handleExportGraphAif,
+    handleImportAif
+} from './controllers/graphController';
+import {
+    handleListSnapshots,
+    handleCreateSnapshot,
+    handleGetSnapshot,
+    handleDeleteSnapshot
+} from './controllers/snapshotController';
+import { handleGetSession, handleDeleteSession } from './controllers/sessionController';
+import { handleIngestLogs } from './controllers/logController';
+import { attachCollabServer } from './services/collab';
+import { loadSessions } from './services/sessionStore';
+import { readSessionId } from './sessionCookie';
+import { requireDebugAccess, debugEndpointsEnabled } from './debugAccess';
+import { getRequestContext, readRequestId, runWithRequestContext } from './requestContext';
+import { renderPrometheus } from './metrics';
+import { getFixtureMode, getFixturesDir } from './services/llmFixtures';
 import { debug } from '../../shared/debug';
+import { createNodeTransports } from '../../shared/logTransports';
 
 // Load environment variables
 dotenv.config();
@@ -10,12 +45,17 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Log files and collectors, and the id of the request being handled on every entry
+debug.useTransportFactory(createNodeTransports);
+debug.setContextProvider(getRequestContext);
+
 // Debug middleware for request logging
 app.use((req, res, next) => {
     const requestId = debug.trackAPIRequest(req.method, req.url, req.body, {
+        requestId: readRequestId(req),
         userAgent: req.get('User-Agent'),
         ip: req.ip,
-        sessionId: req.body?.sessionId
+        sessionId: readSessionId(req)
     });
 
     // Add requestId to response headers for tracking
@@ -28,7 +68,7 @@ app.use((req, res, next) => {
         return originalSend.call(this, data);
     };
 
-    next();
+    runWithRequestContext({ requestId }, next);
 });
 
 // Middleware
@@ -36,11 +76,37 @@ app.use(cors({
     origin: process.env.FRONTEND_URL || 'http://localhost:3000',
     credentials: true
 }));
-app.use(express.json());
+// Whole graphs are sent on every save
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '5mb' }));
 
 // Routes
 app.post('/api/generate', handleGenerate);
+app.post('/api/generate/stream', handleGenerateStream);
 app.post('/api/setup-key', handleSetupAPIKey);
+app.get('/api/session', handleGetSession);
+app.delete('/api/session', handleDeleteSession);
+app.get('/api/providers', handleListProviders);
+app.get('/api/providers/:providerId/models', handleListModels);
+app.get('/api/relations', handleListRelations);
+app.post('/api/prompt-templates/preview', handlePreviewPrompt);
+app.get('/api/prompt-templates', handleListTemplateSets);
+app.post('/api/prompt-templates', handleCreateTemplateSet);
+app.get('/api/prompt-templates/:id', handleGetTemplateSet);
+app.put('/api/prompt-templates/:id', handleUpdateTemplateSet);
+app.delete('/api/prompt-templates/:id', handleDeleteTemplateSet);
+app.get('/api/graphs', handleListGraphs);
+app.post('/api/graphs', handleCreateGraph);
+app.get('/api/graphs/:id', handleGetGraph);
+app.put('/api/graphs/:id', handleUpdateGraph);
+app.delete('/api/graphs/:id', handleDeleteGraph);
+app.post('/api/graphs/:id/duplicate', handleDuplicateGraph);
+app.get('/api/graphs/:id/aif', handleExportGraphAif);
+app.get('/api/graphs/:id/snapshots', handleListSnapshots);
+app.post('/api/graphs/:id/snapshots', handleCreateSnapshot);
+app.get('/api/graphs/:id/snapshots/:snapshotId', handleGetSnapshot);
+app.delete('/api/graphs/:id/snapshots/:snapshotId', handleDeleteSnapshot);
+app.post('/api/aif/import', handleImportAif);
+app.post('/api/logs', handleIngestLogs);
 
 // Health check endpoint
 app.get('/health', (req, res) => {
@@ -48,16 +114,28 @@ app.get('/health', (req, res) => {
     res.json({ status: 'OK', message: 'Dianoia backend is running' });
 });
 
-// Debug endpoint for viewing logs
-app.get('/debug/logs', (req, res) => {
+// Debug endpoint for viewing logs; see debugAccess.ts for who may read them
+// ?requestId= narrows them to one request's trace
+app.get('/debug/logs', requireDebugAccess, (req, res) => {
     debug.info('server', 'debug_logs_requested', 'Debug logs requested via API');
+    const requestId = typeof req.query.requestId === 'string' ? req.query.requestId : undefined;
+    const logs = debug.getLogs();
     res.json({
-        logs: debug.getLogs(),
+        logs: requestId ? logs.filter(entry => entry.context?.requestId === requestId) : logs,
         config: debug.getConfig(),
         performance: 'Available via debug.exportLogs()'
     });
 });
 
+// Operation timings for Prometheus, and as JSON for the frontend's debug panel
+app.get('/metrics', requireDebugAccess, (req, res) => {
+    res.type('text/plain; version=0.0.4').send(renderPrometheus(debug.getPerformance()));
+});
+
+app.get('/debug/metrics', requireDebugAccess, (req, res) => {
+    res.json({ performance: debug.getPerformance() });
+});
+
 // Error handling middleware
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
     debug.trackError(err, 'server', 'unhandled_error', {
@@ -70,6 +148,11 @@ app.use((err: Error, req: express.Request, res: express.Response, next: express.
     res.status(500).json({ error: 'Internal server error' });
 });
 
+// Keys set up before a restart stay usable
+loadSessions().catch(error => {
+    debug.trackError(error as Error, 'server', 'load_sessions_error');
+});
+
 // Start server
 const server = app.listen(PORT, () => {
     debug.info('server', 'startup', `Dianoia backend server started`, {
@@ -80,15 +163,25 @@ const server = app.listen(PORT, () => {
 
     console.log(`🚀 Dianoia backend server running on port ${PORT}`);
     console.log(`📡 Health check: http://localhost:${PORT}/health`);
-    console.log(`🐛 Debug logs: http://localhost:${PORT}/debug/logs`);
+    if (debugEndpointsEnabled()) {
+        console.log(`🐛 Debug logs: http://localhost:${PORT}/debug/logs`);
+        console.log(`📈 Metrics: http://localhost:${PORT}/metrics`);
+    }
+    if (getFixtureMode() !== 'off') {
+        console.log(`🎞️  LLM fixtures (${getFixtureMode()}): ${getFixturesDir()}`);
+    }
 });
 
+// Live collaboration shares the API's port
+attachCollabServer(server);
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
     debug.info('server', 'shutdown', 'Received SIGTERM, shutting down gracefully');
     server.close(() => {
         debug.info('server', 'shutdown_complete', 'Server shutdown complete');
-        process.exit(0);
+        // Log files get everything before the process goes
+        debug.flush().finally(() => process.exit(0));
     });
 });
 
@@ -96,6 +189,7 @@ process.on('SIGINT', () => {
     debug.info('server', 'shutdown', 'Received SIGINT, shutting down gracefully');
     server.close(() => {
         debug.info('server', 'shutdown_complete', 'Server shutdown complete');
-        process.exit(0);
+        // Log files get everything before the process goes
+        debug.flush().finally(() => process.exit(0));
     });
 }); 
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { PerformanceSnapshot } from '../../shared/debug';
+
+// Timings from the logger's timers (debug.startTimer/endTimer) in the Prometheus text
+// format, for GET /metrics. Durations are in seconds, as Prometheus expects.
+
+const PROCESS_START_SECONDS = Math.floor(Date.now() / 1000 - process.uptime());
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function seconds(ms: number): string {
+    return String(ms / 1000);
+}
+
+export function renderPrometheus(snapshot: PerformanceSnapshot): string {
+    const lines: string[] = [];
+
+    lines.push('# HELP dianoia_operation_duration_seconds Duration of timed operations.');
+    lines.push('# TYPE dianoia_operation_duration_seconds histogram');
+    snapshot.operations.forEach(stats => {
+        const operation = `operation="${escapeLabel(stats.operation)}"`;
+        stats.buckets.forEach(bucket => {
+            lines.push(`dianoia_operation_duration_seconds_bucket{${operation},le="${seconds(bucket.le)}"} ${bucket.count}`);
+        });
+        lines.push(`dianoia_operation_duration_seconds_bucket{${operation},le="+Inf"} ${stats.count}`);
+        lines.push(`dianoia_operation_duration_seconds_sum{${operation}} ${seconds(stats.totalMs)}`);
+        lines.push(`dianoia_operation_duration_seconds_count{${operation}} ${stats.count}`);
+    });
+
+    lines.push('# HELP dianoia_operation_duration_recent_seconds Quantiles over the latest durations of each operation.');
+    lines.push('# TYPE dianoia_operation_duration_recent_seconds summary');
+    snapshot.operations.forEach(stats => {
+        const operation = `operation="${escapeLabel(stats.operation)}"`;
+        lines.push(`dianoia_operation_duration_recent_seconds{${operation},quantile="0.5"} ${seconds(stats.p50Ms)}`);
+        lines.push(`dianoia_operation_duration_recent_seconds{${operation},quantile="0.95"} ${seconds(stats.p95Ms)}`);
+        lines.push(`dianoia_operation_duration_recent_seconds{${operation},quantile="0.99"} ${seconds(stats.p99Ms)}`);
+        lines.push(`dianoia_operation_duration_recent_seconds_sum{${operation}} ${seconds(stats.totalMs)}`);
+        lines.push(`dianoia_operation_duration_recent_seconds_count{${operation}} ${stats.count}`);
+    });
+
+    lines.push('# HELP process_resident_memory_bytes Resident memory size in bytes.');
+    lines.push('# TYPE process_resident_memory_bytes gauge');
+    lines.push(`process_resident_memory_bytes ${process.memoryUsage().rss}`);
+    lines.push('# HELP process_start_time_seconds Start time of the process since unix epoch in seconds.');
+    lines.push('# TYPE process_start_time_seconds gauge');
+    lines.push(`process_start_time_seconds ${PROCESS_START_SECONDS}`);
+
+    return `${lines.join('\n')}\n`;
+}
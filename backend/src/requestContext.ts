@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request } from 'express';
+
+// The request being handled, kept for everything that runs on its behalf, so every log entry
+// made while handling it carries its id without the id being passed around. The frontend
+// sends its own id in X-Request-ID, which lines up both sides of a request in DebugPanel.
+
+export interface RequestContext {
+    requestId: string;
+}
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+// The id the caller sent, if it is one we can log safely
+export function readRequestId(req: Request): string | undefined {
+    const header = req.get('X-Request-ID');
+    return header && REQUEST_ID_PATTERN.test(header) ? header : undefined;
+}
@@ -0,0 +1,314 @@
+import { IncomingMessage, Server } from 'http';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { nanoid } from 'nanoid';
+import { getGraph, isValidGraphId, updateGraph } from './graphStore';
+import { recordAutoSnapshot } from './snapshotStore';
+import {
+    ClientMessage,
+    CollabDoc,
+    CollabPeer,
+    SEED_COUNTER,
+    SERVER_CLIENT_ID,
+    ServerMessage,
+    applyOps,
+    createDoc,
+    docOps,
+    docToGraph,
+    graphToOps,
+    isValidOp
+} from '../../../shared/collab';
+import { debug } from '../../../shared/debug';
+
+// Live collaboration on /api/collab?graphId=...&clientId=...&name=... Everyone editing a
+// graph joins its room; the room holds the graph as a CRDT doc (see shared/collab.ts),
+// relays ops and presence between the clients, and writes the merged graph back to the
+// graph store shortly after each change. A room is dropped once its last client leaves.
+
+const COLLAB_PATH = '/api/collab';
+const PERSIST_DEBOUNCE_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_NAME_LENGTH = 40;
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const PEER_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#dc2626', '#0891b2', '#65a30d'];
+
+// Close codes sent to clients, in the range the WebSocket spec leaves to applications
+const CLOSE_UNKNOWN_GRAPH = 4404;
+const CLOSE_GRAPH_DELETED = 4410;
+
+interface Room {
+    graphId: string;
+    doc: CollabDoc;
+    clients: Map<WebSocket, CollabPeer>;
+    persistTimer: ReturnType<typeof setTimeout> | null;
+    persisting: Promise<void> | null;
+}
+
+// Loading rooms are kept as promises so clients joining at the same time share one room
+const rooms = new Map<string, Promise<Room | null>>();
+
+function send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+}
+
+function broadcast(room: Room, message: ServerMessage, except?: WebSocket): void {
+    room.clients.forEach((peer, socket) => {
+        if (socket !== except) send(socket, message);
+    });
+}
+
+function peersOf(room: Room): CollabPeer[] {
+    const peers: CollabPeer[] = [];
+    room.clients.forEach(peer => peers.push(peer));
+    return peers;
+}
+
+async function loadRoom(graphId: string): Promise<Room | null> {
+    const graph = await getGraph(graphId);
+    if (!graph) return null;
+
+    const doc = createDoc();
+    applyOps(doc, graphToOps(graph.nodes, graph.edges, { counter: SEED_COUNTER, clientId: SERVER_CLIENT_ID }));
+
+    debug.info('collab', 'room_opened', 'Collaboration room opened', { graphId, nodeCount: graph.nodes.length });
+
+    return { graphId, doc, clients: new Map(), persistTimer: null, persisting: null };
+}
+
+function getRoom(graphId: string): Promise<Room | null> {
+    let room = rooms.get(graphId);
+    if (!room) {
+        room = loadRoom(graphId);
+        rooms.set(graphId, room);
+        // A graph that doesn't exist (or failed to load) shouldn't stay cached
+        room.then(loaded => {
+            if (!loaded) rooms.delete(graphId);
+        }, () => rooms.delete(graphId));
+    }
+    return room;
+}
+
+// Writes the merged graph back, keeping an automatic snapshot of what it replaces
+async function persistRoom(room: Room): Promise<void> {
+    room.persistTimer = null;
+    const { nodes, edges } = docToGraph(room.doc);
+
+    try {
+        const previous = await getGraph(room.graphId);
+        if (previous) {
+            try {
+                await recordAutoSnapshot(previous);
+            } catch (error) {
+                debug.trackError(error as Error, 'collab', 'auto_snapshot_error', { graphId: room.graphId });
+            }
+        }
+
+        const updated = previous ? await updateGraph(room.graphId, { nodes, edges }) : null;
+        if (!updated) {
+            closeRoom(room.graphId, 'The graph was deleted');
+            return;
+        }
+
+        debug.trace('collab', 'room_persisted', 'Collaboration room saved', {
+            graphId: room.graphId,
+            nodeCount: nodes.length,
+            edgeCount: edges.length
+        });
+    } catch (error) {
+        debug.trackError(error as Error, 'collab', 'persist_error', { graphId: room.graphId });
+        schedulePersist(room);
+    }
+}
+
+function schedulePersist(room: Room): void {
+    if (room.persistTimer) clearTimeout(room.persistTimer);
+    room.persistTimer = setTimeout(() => {
+        room.persisting = persistRoom(room).finally(() => {
+            room.persisting = null;
+        });
+    }, PERSIST_DEBOUNCE_MS);
+}
+
+// Saves right away once everyone has left, then forgets the room
+async function releaseRoom(room: Room): Promise<void> {
+    if (room.persistTimer) {
+        clearTimeout(room.persistTimer);
+        await persistRoom(room);
+    }
+    if (room.persisting) await room.persisting;
+
+    // Someone may have joined while saving
+    if (room.clients.size === 0 && rooms.get(room.graphId)) {
+        rooms.delete(room.graphId);
+        debug.info('collab', 'room_closed', 'Collaboration room closed', { graphId: room.graphId });
+    }
+}
+
+function handleMessage(room: Room, socket: WebSocket, data: RawData): void {
+    let message: ClientMessage;
+    try {
+        message = JSON.parse(data.toString());
+    } catch (error) {
+        send(socket, { type: 'error', message: 'Messages must be JSON' });
+        return;
+    }
+
+    const peer = room.clients.get(socket);
+    if (!peer || !message || typeof message !== 'object') return;
+
+    if (message.type === 'ops') {
+        if (!Array.isArray(message.ops)) {
+            send(socket, { type: 'error', message: 'ops must be an array' });
+            return;
+        }
+
+        const won = applyOps(room.doc, message.ops.filter(isValidOp));
+        if (won.length === 0) return;
+
+        broadcast(room, { type: 'ops', ops: won }, socket);
+        schedulePersist(room);
+
+        debug.trace('collab', 'ops_applied', 'Applied collaboration ops', {
+            graphId: room.graphId,
+            clientId: peer.clientId,
+            received: message.ops.length,
+            applied: won.length
+        });
+    } else if (message.type === 'presence') {
+        peer.selectedNodeId = typeof message.selectedNodeId === 'string' ? message.selectedNodeId : null;
+        broadcast(room, { type: 'presence', peers: peersOf(room) });
+    }
+}
+
+function pickColor(room: Room): string {
+    const used = peersOf(room).map(peer => peer.color);
+    return PEER_COLORS.find(color => used.indexOf(color) === -1) || PEER_COLORS[room.clients.size % PEER_COLORS.length];
+}
+
+async function handleConnection(socket: WebSocket, request: IncomingMessage): Promise<void> {
+    const params = new URL(request.url || '', 'http://localhost').searchParams;
+    const graphId = params.get('graphId') || '';
+
+    if (!isValidGraphId(graphId)) {
+        socket.close(CLOSE_UNKNOWN_GRAPH, 'Unknown graph');
+        return;
+    }
+
+    // Messages that arrive while the room loads are handled once it has
+    const pending: RawData[] = [];
+    const queue = (data: RawData) => pending.push(data);
+    socket.on('message', queue);
+
+    let room: Room | null;
+    try {
+        room = await getRoom(graphId);
+    } catch (error) {
+        debug.trackError(error as Error, 'collab', 'room_load_error', { graphId });
+        socket.close(1011, 'Could not load the graph');
+        return;
+    }
+    if (!room) {
+        socket.close(CLOSE_UNKNOWN_GRAPH, 'Unknown graph');
+        return;
+    }
+    if (socket.readyState !== WebSocket.OPEN) return;
+
+    // Client ids stamp ops, so they must be unique within a room
+    const requestedId = params.get('clientId') || '';
+    const taken = peersOf(room).some(peer => peer.clientId === requestedId);
+    const peer: CollabPeer = {
+        clientId: CLIENT_ID_PATTERN.test(requestedId) && requestedId !== SERVER_CLIENT_ID && !taken ? requestedId : nanoid(),
+        name: (params.get('name') || '').trim().slice(0, MAX_NAME_LENGTH) || 'Guest',
+        color: pickColor(room),
+        selectedNodeId: null
+    };
+    const joined = room;
+    joined.clients.set(socket, peer);
+
+    send(socket, { type: 'welcome', clientId: peer.clientId, ops: docOps(joined.doc), peers: peersOf(joined) });
+    broadcast(joined, { type: 'presence', peers: peersOf(joined) }, socket);
+
+    debug.info('collab', 'client_joined', 'Client joined collaboration room', {
+        graphId,
+        clientId: peer.clientId,
+        clients: joined.clients.size
+    });
+
+    socket.off('message', queue);
+    socket.on('message', data => handleMessage(joined, socket, data));
+    pending.forEach(data => handleMessage(joined, socket, data));
+
+    socket.on('close', () => {
+        joined.clients.delete(socket);
+        broadcast(joined, { type: 'presence', peers: peersOf(joined) });
+
+        debug.info('collab', 'client_left', 'Client left collaboration room', {
+            graphId,
+            clientId: peer.clientId,
+            clients: joined.clients.size
+        });
+
+        if (joined.clients.size === 0) {
+            releaseRoom(joined).catch(error => {
+                debug.trackError(error as Error, 'collab', 'room_release_error', { graphId });
+            });
+        }
+    });
+}
+
+// Disconnects everyone from a graph's room without saving it, e.g. once the graph is deleted
+export function closeRoom(graphId: string, reason: string): void {
+    const room = rooms.get(graphId);
+    if (!room) return;
+    rooms.delete(graphId);
+
+    room.then(loaded => {
+        if (!loaded) return;
+        if (loaded.persistTimer) clearTimeout(loaded.persistTimer);
+        loaded.persistTimer = null;
+        loaded.clients.forEach((peer, socket) => socket.close(CLOSE_GRAPH_DELETED, reason));
+        debug.info('collab', 'room_closed', 'Collaboration room closed', { graphId, reason });
+    }, () => undefined);
+}
+
+// Serves /api/collab on the HTTP server the API runs on
+export function attachCollabServer(server: Server): WebSocketServer {
+    const wss = new WebSocketServer({ noServer: true, maxPayload: 5 * 1024 * 1024 });
+    const alive = new WeakSet<WebSocket>();
+
+    server.on('upgrade', (request, socket, head) => {
+        const { pathname } = new URL(request.url || '', 'http://localhost');
+        if (pathname !== COLLAB_PATH) {
+            socket.destroy();
+            return;
+        }
+        wss.handleUpgrade(request, socket, head, ws => wss.emit('connection', ws, request));
+    });
+
+    wss.on('connection', (socket: WebSocket, request: IncomingMessage) => {
+        alive.add(socket);
+        socket.on('pong', () => alive.add(socket));
+        handleConnection(socket, request).catch(error => {
+            debug.trackError(error as Error, 'collab', 'connection_error');
+            socket.close(1011, 'Internal error');
+        });
+    });
+
+    // Connections that stop answering pings are dropped so their presence goes away
+    const heartbeat = setInterval(() => {
+        wss.clients.forEach(socket => {
+            if (!alive.has(socket)) {
+                socket.terminate();
+                return;
+            }
+            alive.delete(socket);
+            socket.ping();
+        });
+    }, HEARTBEAT_INTERVAL_MS);
+    wss.on('close', () => clearInterval(heartbeat));
+
+    debug.info('collab', 'started', 'Collaboration server attached', { path: COLLAB_PATH });
+
+    return wss;
+}
@@ -0,0 +1,111 @@
+// Errors raised by the LLM layer. `code` is stable and sent to the client alongside the message.
+
+export type LLMErrorCode =
+    | 'not_configured' // No provider or key available for the session
+    | 'unsupported_provider'
+    | 'provider_error' // The provider rejected the call for a reason retrying won't fix
+    | 'auth_failed' // The provider refused the API key
+    | 'rate_limited' // HTTP 429
+    | 'provider_unavailable' // HTTP 5xx or a network failure
+    | 'timeout'
+    | 'malformed_output' // The provider answered, but never with a valid structured reply
+    | 'fixture_missing' // Replaying recorded responses and none matches the prompt
+    | 'cancelled';
+
+export interface LLMErrorDetails {
+    provider?: string;
+    status?: number; // Upstream HTTP status, when there was one
+    retryable?: boolean;
+    retryAfterMs?: number; // From the provider's Retry-After header
+}
+
+export class LLMError extends Error {
+    readonly code: LLMErrorCode;
+    readonly provider?: string;
+    readonly status?: number;
+    readonly retryable: boolean;
+    readonly retryAfterMs?: number;
+
+    constructor(code: LLMErrorCode, message: string, details: LLMErrorDetails = {}) {
+        super(message);
+        this.name = 'LLMError';
+        this.code = code;
+        this.provider = details.provider;
+        this.status = details.status;
+        this.retryable = details.retryable || false;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+export class MalformedOutputError extends LLMError {
+    readonly attempts: number;
+    readonly lastOutput: string;
+    readonly reason: string;
+
+    constructor(attempts: number, reason: string, lastOutput: string) {
+        super('malformed_output', `The model did not return a valid claim after ${attempts} attempts: ${reason}`);
+        this.name = 'MalformedOutputError';
+        this.attempts = attempts;
+        this.reason = reason;
+        this.lastOutput = lastOutput;
+    }
+}
+
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+// Turns whatever a provider threw (axios and the OpenAI SDK both surface axios errors) into
+// an LLMError with a code, deciding along the way whether the call is worth retrying
+export function classifyProviderError(error: unknown, provider: string, label: string = provider): LLMError {
+    if (error instanceof LLMError) return error;
+
+    const raw = error as { response?: { status?: number; headers?: Record<string, unknown> }; code?: string; message?: string };
+    const status = raw?.response?.status;
+    const details = { provider, status };
+
+    if (status === 429) {
+        return new LLMError('rate_limited', `${label} rate limited the request`, {
+            ...details,
+            retryable: true,
+            retryAfterMs: parseRetryAfter(raw.response?.headers?.['retry-after'])
+        });
+    }
+    if (status === 401 || status === 403) {
+        return new LLMError('auth_failed', `${label} rejected the API key (HTTP ${status})`, details);
+    }
+    if (status !== undefined && status >= 500) {
+        return new LLMError('provider_unavailable', `${label} is unavailable (HTTP ${status})`, { ...details, retryable: true });
+    }
+    if (status === undefined && raw?.code && NETWORK_ERROR_CODES.includes(raw.code)) {
+        return new LLMError('provider_unavailable', `Could not reach ${label} (${raw.code})`, { ...details, retryable: true });
+    }
+
+    return new LLMError('provider_error', `${label} request failed${status ? ` (HTTP ${status})` : ''}: ${raw?.message || 'Unknown error'}`, details);
+}
+
+// HTTP status for an error raised while generating
+export function statusForError(error: unknown): number {
+    if (!(error instanceof LLMError)) return 500;
+    switch (error.code) {
+        case 'not_configured':
+        case 'unsupported_provider':
+            return 400;
+        case 'fixture_missing':
+            return 404;
+        case 'rate_limited':
+            return 429;
+        case 'timeout':
+            return 504;
+        case 'cancelled':
+            return 499;
+        default:
+            return 502;
+    }
+}
@@ -0,0 +1,109 @@
+import { Action, ContextClaim, GraphContext, getRelation, isRelationId } from '../types';
+import { debug } from '../../../shared/debug';
+
+const DEFAULT_MAX_CONTEXT_CHARS = 2000;
+const MAX_LABEL_CHARS = 300;
+
+function getMaxContextChars(): number {
+    const configured = Number(process.env.LLM_MAX_CONTEXT_CHARS);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_CONTEXT_CHARS;
+}
+
+function truncateLabel(label: string): string {
+    const trimmed = label.trim();
+    return trimmed.length > MAX_LABEL_CHARS ? `${trimmed.slice(0, MAX_LABEL_CHARS - 3)}...` : trimmed;
+}
+
+// Accepts whatever the client sent and keeps only well-formed entries
+export function sanitizeGraphContext(raw: unknown): GraphContext | undefined {
+    if (!raw || typeof raw !== 'object') return undefined;
+
+    const input = raw as Record<string, unknown>;
+    const ancestors: ContextClaim[] = Array.isArray(input.ancestors)
+        ? input.ancestors
+            .filter((a): a is Record<string, unknown> => !!a && typeof a === 'object' && typeof a.label === 'string')
+            .map(a => ({
+                label: truncateLabel(a.label as string),
+                relation: isRelationId(a.relation) ? a.relation : undefined
+            }))
+        : [];
+    const siblings: string[] = Array.isArray(input.siblings)
+        ? input.siblings.filter((s): s is string => typeof s === 'string').map(truncateLabel)
+        : [];
+
+    return {
+        ancestors,
+        sourceRelation: isRelationId(input.sourceRelation) ? input.sourceRelation : undefined,
+        siblings
+    };
+}
+
+function contextSize(context: GraphContext): number {
+    return context.ancestors.reduce((total, a) => total + a.label.length, 0)
+        + context.siblings.reduce((total, s) => total + s.length, 0);
+}
+
+// Trims the context to the character budget. Siblings go first (newest kept), then the
+// middle of the ancestor chain, so the root thesis and the immediate parent survive longest.
+export function capGraphContext(context: GraphContext, maxChars: number = getMaxContextChars()): GraphContext {
+    const capped: GraphContext = {
+        ancestors: [...context.ancestors],
+        sourceRelation: context.sourceRelation,
+        siblings: [...context.siblings]
+    };
+    const originalSize = contextSize(capped);
+
+    while (contextSize(capped) > maxChars && capped.siblings.length > 0) {
+        capped.siblings.shift();
+    }
+
+    while (contextSize(capped) > maxChars && capped.ancestors.length > 2) {
+        capped.ancestors.splice(1, 1);
+        // Its predecessor is gone, so the recorded relation no longer describes the chain
+        capped.ancestors[1] = { ...capped.ancestors[1], relation: undefined };
+    }
+
+    while (contextSize(capped) > maxChars && capped.ancestors.length > 0) {
+        capped.ancestors.shift();
+    }
+
+    if (contextSize(capped) !== originalSize) {
+        debug.info('llm_service', 'context_capped', 'Graph context trimmed to fit budget', {
+            maxChars,
+            originalSize,
+            cappedSize: contextSize(capped),
+            ancestors: capped.ancestors.length,
+            siblings: capped.siblings.length
+        });
+    }
+
+    return capped;
+}
+
+// Renders the context as a prompt section; empty when there is nothing beyond the claim itself
+export function formatGraphContext(context: GraphContext | undefined, action: Action): string {
+    if (!context || (context.ancestors.length === 0 && context.siblings.length === 0)) {
+        return '';
+    }
+
+    const sections: string[] = [];
+
+    if (context.ancestors.length > 0) {
+        const lines = context.ancestors.map((ancestor, index) => {
+            if (index === 0) return `1. Root thesis: "${ancestor.label}"`;
+            const relation = ancestor.relation ? getRelation(ancestor.relation).verb : 'relates to';
+            return `${index + 1}. (${relation} claim ${index}) "${ancestor.label}"`;
+        });
+        if (context.sourceRelation) {
+            lines.push(`The claim you are responding to ${getRelation(context.sourceRelation).verb} claim ${context.ancestors.length}.`);
+        }
+        sections.push(`The claim belongs to a larger argument map. The chain of reasoning leading to it is:\n${lines.join('\n')}`);
+    }
+
+    if (context.siblings.length > 0) {
+        const lines = context.siblings.map(sibling => `- "${sibling}"`);
+        sections.push(`Claims that already respond to it this way (${action}). Do not repeat or paraphrase them:\n${lines.join('\n')}`);
+    }
+
+    return sections.join('\n\n');
+}
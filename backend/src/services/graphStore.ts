@@ -0,0 +1,232 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { ArgumentEdge, ArgumentNode, GraphRecord, GraphSummary } from '../types';
+import { getDataDir } from '../config';
+import { debug } from '../../../shared/debug';
+
+// One JSON file per graph under <data dir>/graphs. Small enough that reading a whole file
+// per request is fine, and trivially inspectable or backed up by copying the directory.
+
+export interface GraphInput {
+    name?: string;
+    nodes?: ArgumentNode[];
+    edges?: ArgumentEdge[];
+    templateSetId?: string | null;
+}
+
+const DEFAULT_GRAPH_NAME = 'Untitled argument';
+const GRAPH_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+function getGraphsDir(): string {
+    return path.join(getDataDir(), 'graphs');
+}
+
+// Ids come from URLs, so anything that could escape the graphs directory is rejected
+export function isValidGraphId(id: string): boolean {
+    return GRAPH_ID_PATTERN.test(id);
+}
+
+function getGraphFile(id: string): string {
+    if (!isValidGraphId(id)) {
+        throw new Error(`Invalid graph id: ${id}`);
+    }
+    return path.join(getGraphsDir(), `${id}.json`);
+}
+
+// Returns an error message for the client, or null when the input is valid
+export function validateGraphInput(body: GraphInput): string | null {
+    if (!body || typeof body !== 'object') {
+        return 'Request body must be a graph object';
+    }
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+        return 'name must be a non-empty string';
+    }
+    if (body.nodes !== undefined && !Array.isArray(body.nodes)) {
+        return 'nodes must be an array';
+    }
+    if (body.edges !== undefined && !Array.isArray(body.edges)) {
+        return 'edges must be an array';
+    }
+    if (body.nodes?.some(node => !node || typeof node.id !== 'string' || typeof node.data?.label !== 'string')) {
+        return 'Every node needs an id and a data.label';
+    }
+    if (body.edges?.some(edge => !edge || typeof edge.id !== 'string' || typeof edge.source !== 'string' || typeof edge.target !== 'string')) {
+        return 'Every edge needs an id, a source and a target';
+    }
+    if (body.templateSetId !== undefined && body.templateSetId !== null && typeof body.templateSetId !== 'string') {
+        return 'templateSetId must be a string or null';
+    }
+    return null;
+}
+
+async function readGraphFile(file: string): Promise<GraphRecord | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Changes to the same graph are chained, so a change reads the record only after the
+// previous one has written it; each write goes to a temp file first so a crash mid-write
+// never leaves a truncated graph behind
+const changeQueues = new Map<string, Promise<unknown>>();
+
+function queueGraphChange<T>(id: string, change: () => Promise<T>): Promise<T> {
+    const previous = changeQueues.get(id) || Promise.resolve();
+    const next = previous.then(change, change);
+    changeQueues.set(id, next);
+    next.then(() => {
+        if (changeQueues.get(id) === next) changeQueues.delete(id);
+    }, () => undefined);
+
+    return next;
+}
+
+async function writeGraphFile(record: GraphRecord): Promise<void> {
+    const file = getGraphFile(record.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tempFile, file);
+}
+
+function summarize(record: GraphRecord): GraphSummary {
+    const targets = new Set(record.edges.map(edge => edge.target));
+    const root = record.nodes.find(node => !targets.has(node.id));
+
+    return {
+        id: record.id,
+        name: record.name,
+        rootClaim: root ? root.data.label : null,
+        nodeCount: record.nodes.length,
+        edgeCount: record.edges.length,
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt
+    };
+}
+
+// Most recently updated first
+export async function listGraphs(): Promise<GraphSummary[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(getGraphsDir());
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const records = await Promise.all(
+        files
+            .filter(file => file.endsWith('.json'))
+            .map(file => readGraphFile(path.join(getGraphsDir(), file)))
+    );
+
+    return records
+        .filter((record): record is GraphRecord => record !== null)
+        .map(summarize)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getGraph(id: string): Promise<GraphRecord | null> {
+    if (!isValidGraphId(id)) return null;
+    return readGraphFile(getGraphFile(id));
+}
+
+export async function createGraph(input: GraphInput): Promise<GraphRecord> {
+    const now = new Date().toISOString();
+    const record: GraphRecord = {
+        id: nanoid(),
+        name: input.name?.trim() || DEFAULT_GRAPH_NAME,
+        nodes: input.nodes || [],
+        edges: input.edges || [],
+        templateSetId: input.templateSetId || null,
+        createdAt: now,
+        updatedAt: now
+    };
+
+    await queueGraphChange(record.id, () => writeGraphFile(record));
+
+    debug.info('graph_store', 'graph_created', 'Graph created', {
+        graphId: record.id,
+        name: record.name,
+        nodeCount: record.nodes.length,
+        edgeCount: record.edges.length
+    });
+
+    return record;
+}
+
+// Copies a graph under a new id; node and edge ids are kept since they only need to be
+// unique within one graph
+export async function duplicateGraph(id: string, name?: string): Promise<GraphRecord | null> {
+    const existing = await getGraph(id);
+    if (!existing) return null;
+
+    const copy = await createGraph({
+        name: name || `${existing.name} (copy)`,
+        nodes: existing.nodes,
+        edges: existing.edges,
+        templateSetId: existing.templateSetId
+    });
+
+    debug.info('graph_store', 'graph_duplicated', 'Graph duplicated', { sourceGraphId: id, graphId: copy.id });
+
+    return copy;
+}
+
+// Replaces the fields present in the input; omitted fields keep their stored value
+export async function updateGraph(id: string, input: GraphInput): Promise<GraphRecord | null> {
+    if (!isValidGraphId(id)) return null;
+
+    // Merged inside the queue so a concurrent save of other fields isn't undone
+    const updated = await queueGraphChange(id, async () => {
+        const existing = await readGraphFile(getGraphFile(id));
+        if (!existing) return null;
+
+        const record: GraphRecord = {
+            ...existing,
+            name: input.name !== undefined ? input.name.trim() : existing.name,
+            nodes: input.nodes !== undefined ? input.nodes : existing.nodes,
+            edges: input.edges !== undefined ? input.edges : existing.edges,
+            templateSetId: input.templateSetId !== undefined ? input.templateSetId : existing.templateSetId,
+            updatedAt: new Date().toISOString()
+        };
+
+        await writeGraphFile(record);
+        return record;
+    });
+
+    if (!updated) return null;
+
+    debug.info('graph_store', 'graph_updated', 'Graph updated', {
+        graphId: id,
+        nodeCount: updated.nodes.length,
+        edgeCount: updated.edges.length
+    });
+
+    return updated;
+}
+
+export async function deleteGraph(id: string): Promise<boolean> {
+    if (!isValidGraphId(id)) return false;
+
+    const deleted = await queueGraphChange(id, async () => {
+        try {
+            await fs.unlink(getGraphFile(id));
+            return true;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+            throw error;
+        }
+    });
+    if (!deleted) return false;
+
+    debug.info('graph_store', 'graph_deleted', 'Graph deleted', { graphId: id });
+
+    return true;
+}
@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import { LLMProvider, CompletionRequest, ProviderConfig, TokenHandler } from './providers';
+import { LLMError } from './errors';
+import { getDataDir } from '../config';
+import { debug } from '../../../shared/debug';
+
+// Record-and-replay of provider calls, for deterministic tests and demos without network.
+// Read from the environment at call time so .env values apply:
+//   LLM_FIXTURES      `record` saves every completion, `replay` serves saved ones instead of
+//                     calling the provider; anything else leaves providers alone
+//   LLM_FIXTURES_DIR  where fixtures live (<data dir>/llm-fixtures)
+//
+// A fixture is one JSON file per prompt, named after a hash of the normalised messages and
+// the model. Temperature and token limit are stored for reference but are not part of the
+// key, so replays match recordings made with other sampling settings.
+
+export type FixtureMode = 'record' | 'replay' | 'off';
+
+export interface LLMFixture {
+    key: string;
+    provider: string; // Provider that produced the response when it was recorded
+    model: string;
+    temperature: number;
+    maxTokens: number;
+    messages: CompletionRequest['messages'];
+    response: string;
+    recordedAt: string;
+}
+
+export function getFixtureMode(): FixtureMode {
+    const mode = (process.env.LLM_FIXTURES || '').trim().toLowerCase();
+    return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function getFixturesDir(): string {
+    return path.resolve(process.env.LLM_FIXTURES_DIR || path.join(getDataDir(), 'llm-fixtures'));
+}
+
+// Whitespace differences (template indentation, trailing newlines) don't change the key
+function normalizeContent(content: string): string {
+    return content.replace(/\s+/g, ' ').trim();
+}
+
+export function fixtureKey(request: CompletionRequest): string {
+    const prompt = request.messages.map(message => `${message.role}: ${normalizeContent(message.content)}`).join('\n');
+    return createHash('sha256').update(`${request.model}\n${prompt}`).digest('hex').slice(0, 32);
+}
+
+function getFixtureFile(key: string): string {
+    return path.join(getFixturesDir(), `${key}.json`);
+}
+
+async function readFixture(key: string): Promise<LLMFixture | null> {
+    try {
+        return JSON.parse(await fs.readFile(getFixtureFile(key), 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+// Recording never fails a generation; a fixture that could not be written is only logged
+async function writeFixture(provider: LLMProvider, request: CompletionRequest, response: string): Promise<void> {
+    const fixture: LLMFixture = {
+        key: fixtureKey(request),
+        provider: provider.id,
+        model: request.model,
+        temperature: request.temperature,
+        maxTokens: request.maxTokens,
+        messages: request.messages,
+        response,
+        recordedAt: new Date().toISOString()
+    };
+
+    const file = getFixtureFile(fixture.key);
+    const tempFile = `${file}.${process.pid}.tmp`;
+
+    try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(tempFile, JSON.stringify(fixture, null, 2), 'utf8');
+        await fs.rename(tempFile, file);
+
+        debug.info('llm_service', 'fixture_recorded', 'Recorded LLM response as fixture', {
+            key: fixture.key,
+            provider: provider.id,
+            model: request.model
+        });
+    } catch (error) {
+        debug.trackError(error as Error, 'llm_service', 'fixture_record_error', { key: fixture.key, file });
+    }
+}
+
+async function replay(provider: LLMProvider, request: CompletionRequest): Promise<string> {
+    const key = fixtureKey(request);
+    const fixture = await readFixture(key);
+
+    if (!fixture) {
+        debug.warn('llm_service', 'fixture_missing', 'No recorded response for prompt', {
+            key,
+            provider: provider.id,
+            model: request.model,
+            dir: getFixturesDir()
+        });
+        throw new LLMError(
+            'fixture_missing',
+            `No recorded response for this prompt with model ${request.model} (fixture ${key}). Record it first with LLM_FIXTURES=record.`,
+            { provider: provider.id }
+        );
+    }
+
+    debug.info('llm_service', 'fixture_replayed', 'Serving recorded LLM response', {
+        key,
+        provider: provider.id,
+        recordedProvider: fixture.provider,
+        model: request.model,
+        recordedAt: fixture.recordedAt
+    });
+
+    return fixture.response;
+}
+
+// The provider as generations should see it: unchanged when fixtures are off, saving its
+// responses when recording, and never called when replaying. Replayed streams deliver the
+// recorded response word by word.
+export function withFixtures(provider: LLMProvider): LLMProvider {
+    const mode = getFixtureMode();
+    if (mode === 'off') return provider;
+
+    if (mode === 'replay') {
+        return {
+            ...provider,
+            capabilities: { ...provider.capabilities, offline: true },
+
+            async complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string> {
+                if (signal?.aborted) {
+                    throw new LLMError('cancelled', 'Generation cancelled', { provider: provider.id });
+                }
+                return replay(provider, request);
+            },
+
+            async completeStream(
+                request: CompletionRequest,
+                config: ProviderConfig,
+                onToken: TokenHandler,
+                signal?: AbortSignal
+            ): Promise<string> {
+                const response = await replay(provider, request);
+
+                for (const token of response.match(/\S+\s*/g) || []) {
+                    if (signal?.aborted) {
+                        throw new LLMError('cancelled', 'Generation cancelled', { provider: provider.id });
+                    }
+                    onToken(token);
+                }
+
+                return response;
+            }
+        };
+    }
+
+    const completeStream = provider.completeStream;
+
+    return {
+        ...provider,
+
+        async complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string> {
+            const response = await provider.complete(request, config, signal);
+            await writeFixture(provider, request, response);
+            return response;
+        },
+
+        completeStream: completeStream && (async (
+            request: CompletionRequest,
+            config: ProviderConfig,
+            onToken: TokenHandler,
+            signal?: AbortSignal
+        ): Promise<string> => {
+            const response = await completeStream.call(provider, request, config, onToken, signal);
+            await writeFixture(provider, request, response);
+            return response;
+        })
+    };
+}
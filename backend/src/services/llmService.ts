@@ -1,232 +1,515 @@
-import { Configuration, OpenAIApi } from 'openai';
-import axios from 'axios';
-import { Action } from '../types';
+import { Action, GraphContext, KeyValidation } from '../types';
+import { getProvider, LLMProvider, ProviderConfig, CompletionRequest, TokenHandler } from './providers';
+import { buildPrompt } from './promptTemplateService';
+import { GeneratedClaim, OutputValidationError, extractPartialClaim, parseGeneratedClaim } from './structuredOutput';
+import { LLMError, MalformedOutputError, classifyProviderError } from './errors';
+import { RetryHandler, callWithRetry, envName } from './resilience';
+import { getSession } from './sessionStore';
+import { withFixtures } from './llmFixtures';
 import { debug } from '../../../shared/debug';
 
-interface LLMConfig {
-    provider: 'openai' | 'openrouter';
-    apiKey: string;
+export interface GenerationRequest {
+    claim: string;
+    action: Action;
+    context?: GraphContext;
+    sessionId?: string;
+    templateSetId?: string; // Prompt template set pinned to the graph, default when absent
+}
+
+export interface LLMConfig {
+    provider: string; // Id of a registered provider, see ./providers
+    apiKey?: string;
     model?: string;
+    baseUrl?: string;
 }
 
-// Store for session-based API keys
-const sessionKeys = new Map<string, LLMConfig>();
+export interface FallbackInfo {
+    code: string; // Error code that made the previous provider give up
+    message: string;
+    from: { provider: string; model: string };
+    to: { provider: string; model: string };
+}
 
-export function setSessionKey(sessionId: string, config: LLMConfig): void {
-    debug.info('llm_service', 'session_key_set', 'Setting session API key', {
-        sessionId,
-        provider: config.provider,
-        model: config.model,
-        hasApiKey: !!config.apiKey
-    });
+// Progress callbacks for a generation, so callers can tell the user what is happening
+export interface GenerationObserver {
+    onRetry?: RetryHandler;
+    onFallback?: (info: FallbackInfo) => void;
+}
 
-    sessionKeys.set(sessionId, config);
+// Session key first, then environment: an explicit LLM_PROVIDER, then OPENAI_API_KEY
+export function resolveConfig(sessionId?: string): LLMConfig | null {
+    let config: LLMConfig | null = null;
 
-    debug.trace('llm_service', 'session_keys_count', 'Current session keys count', {
-        count: sessionKeys.size
+    if (sessionId) {
+        config = getSession(sessionId)?.config || null;
+        debug.trace('llm_service', 'session_key_lookup', 'Looked up session key', {
+            sessionId,
+            found: !!config,
+            provider: config?.provider
+        });
+    }
+
+    if (!config && process.env.LLM_PROVIDER) {
+        debug.info('llm_service', 'env_provider_fallback', 'Using environment provider as fallback', {
+            provider: process.env.LLM_PROVIDER
+        });
+        config = {
+            provider: process.env.LLM_PROVIDER,
+            apiKey: process.env.LLM_API_KEY,
+            model: process.env.LLM_MODEL,
+            baseUrl: process.env.LLM_BASE_URL
+        };
+    }
+
+    if (!config && process.env.OPENAI_API_KEY) {
+        debug.info('llm_service', 'env_key_fallback', 'Using environment API key as fallback');
+        config = {
+            provider: 'openai',
+            apiKey: process.env.OPENAI_API_KEY,
+            model: 'gpt-3.5-turbo'
+        };
+    }
+
+    return config;
+}
+
+// Parses LLM_FALLBACKS, a comma separated list of provider[:model] entries
+function parseFallbacks(): Array<{ provider: string; model?: string }> {
+    return (process.env.LLM_FALLBACKS || '')
+        .split(',')
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const separator = entry.indexOf(':');
+            return separator === -1
+                ? { provider: entry }
+                : { provider: entry.slice(0, separator), model: entry.slice(separator + 1) || undefined };
+        });
+}
+
+// The resolved config followed by the LLM_FALLBACKS entries, in the order they are tried.
+// A fallback on the primary's provider reuses its credentials; any other provider takes
+// <PROVIDER>_API_KEY and <PROVIDER>_BASE_URL from the environment.
+export function resolveChain(sessionId?: string): LLMConfig[] {
+    const primary = resolveConfig(sessionId);
+    if (!primary) return [];
+
+    const chain: LLMConfig[] = [primary];
+
+    parseFallbacks().forEach(entry => {
+        const provider = getProvider(entry.provider);
+        if (!provider) {
+            debug.warn('llm_service', 'fallback_skipped', 'Unknown provider in LLM_FALLBACKS', { provider: entry.provider });
+            return;
+        }
+
+        const config: LLMConfig = entry.provider === primary.provider
+            ? { ...primary, model: entry.model || primary.model }
+            : {
+                provider: entry.provider,
+                apiKey: process.env[`${envName(entry.provider)}_API_KEY`],
+                model: entry.model,
+                baseUrl: process.env[`${envName(entry.provider)}_BASE_URL`]
+            };
+
+        if (provider.capabilities.requiresApiKey && !config.apiKey) {
+            debug.warn('llm_service', 'fallback_skipped', 'Fallback provider has no API key configured', {
+                provider: entry.provider,
+                envVar: `${envName(entry.provider)}_API_KEY`
+            });
+            return;
+        }
+
+        const model = config.model || provider.defaultModel;
+        const duplicate = chain.some(c => c.provider === config.provider && (c.model || getProvider(c.provider)?.defaultModel) === model);
+        if (!duplicate) chain.push(config);
     });
+
+    return chain;
 }
 
-export function getSessionKey(sessionId: string): LLMConfig | null {
-    const config = sessionKeys.get(sessionId) || null;
+export async function listModels(providerId: string, sessionId?: string): Promise<string[]> {
+    const provider = getProvider(providerId);
+    if (!provider) {
+        throw new Error(`Unsupported provider: ${providerId}`);
+    }
+
+    // Only reuse the session's credentials when they belong to the provider being queried
+    const config = resolveConfig(sessionId);
+    const providerConfig: ProviderConfig = config && config.provider === providerId ? config : {};
 
-    debug.trace('llm_service', 'session_key_retrieved', 'Retrieved session key', {
+    debug.info('llm_service', 'list_models', 'Listing provider models', {
+        provider: providerId,
         sessionId,
-        found: !!config,
-        provider: config?.provider
+        hasApiKey: !!providerConfig.apiKey
     });
 
-    return config;
+    return provider.listModels(providerConfig);
 }
 
-function getPromptTemplate(action: Action, claim: string): string {
-    debug.trace('llm_service', 'prompt_generation', 'Generating prompt template', {
-        action,
-        claimLength: claim.length
+// Checks a key with the cheapest call that needs one, listing the provider's models
+export async function validateConfig(config: LLMConfig): Promise<KeyValidation> {
+    const provider = getProvider(config.provider);
+    const checkedAt = new Date().toISOString();
+
+    if (!provider) {
+        return { status: 'invalid', message: `Unsupported provider: ${config.provider}`, checkedAt };
+    }
+    if (provider.capabilities.requiresApiKey && !config.apiKey) {
+        return { status: 'invalid', message: `${provider.label} needs an API key`, checkedAt };
+    }
+    if (provider.capabilities.offline) {
+        return { status: 'valid', checkedAt };
+    }
+    if (!provider.capabilities.modelListing) {
+        return { status: 'unknown', message: `${provider.label} can't check a key without generating`, checkedAt };
+    }
+
+    try {
+        await provider.listModels(config);
+        return { status: 'valid', checkedAt };
+    } catch (error) {
+        const llmError = classifyProviderError(error, provider.id, provider.label);
+        debug.warn('llm_service', 'key_validation_failed', 'Key validation failed', {
+            provider: provider.id,
+            code: llmError.code
+        });
+        return { status: llmError.code === 'auth_failed' ? 'invalid' : 'unknown', message: llmError.message, checkedAt };
+    }
+}
+
+interface PreparedGeneration {
+    config: LLMConfig;
+    provider: LLMProvider;
+    request: CompletionRequest;
+}
+
+// Total provider calls per claim before giving up on malformed output
+const MAX_OUTPUT_ATTEMPTS = 3;
+
+// Builds the prompt once and pairs it with every provider in the fallback chain
+async function prepareGeneration({ claim, action, context, sessionId, templateSetId }: GenerationRequest): Promise<PreparedGeneration[]> {
+    const chain = resolveChain(sessionId);
+
+    if (chain.length === 0) {
+        debug.error('llm_service', 'no_api_key', 'No API key configured', {
+            sessionId,
+            hasEnvKey: !!process.env.OPENAI_API_KEY
+        });
+        throw new LLMError('not_configured', 'No API key configured. Please set up your API key in the session or environment.');
+    }
+
+    const primaryProvider = getProvider(chain[0].provider);
+    if (!primaryProvider) {
+        debug.error('llm_service', 'unsupported_provider', 'Unsupported provider', { provider: chain[0].provider });
+        throw new LLMError('unsupported_provider', `Unsupported provider: ${chain[0].provider}`);
+    }
+
+    debug.info('llm_service', 'config_resolved', 'API configuration resolved', {
+        provider: chain[0].provider,
+        model: chain[0].model,
+        fallbacks: chain.slice(1).map(c => `${c.provider}:${c.model || 'default'}`),
+        sessionId
     });
 
-    const baseInstruction = "You are a clear and concise reasoning assistant. Given a claim, generate a *single, concise* new claim as a response. Do not add any preamble or explanation. Just provide the text of the new claim.";
-
-    let prompt: string;
-    switch (action) {
-        case 'supports':
-            prompt = `${baseInstruction}\n\nHere is the claim to support:\n"${claim}"\n\nYour concise supporting claim:`;
-            break;
-        case 'refutes':
-            prompt = `${baseInstruction}\n\nHere is the claim to refute:\n"${claim}"\n\nYour concise refuting claim:`;
-            break;
-        case 'unpacks':
-            prompt = `${baseInstruction}\n\nHere is the claim to analyze:\n"${claim}"\n\nIdentify and state a key underlying assumption of this claim:`;
-            break;
-        default:
-            debug.error('llm_service', 'unknown_action', 'Unknown action provided', { action });
-            throw new Error(`Unknown action: ${action}`);
-    }
-
-    debug.trace('llm_service', 'prompt_generated', 'Prompt template generated', {
+    debug.trace('llm_service', 'prompt_generation', 'Generating prompt', {
         action,
-        promptLength: prompt.length
+        templateSetId,
+        claimLength: claim.length,
+        ancestorCount: context?.ancestors.length || 0,
+        siblingCount: context?.siblings.length || 0
     });
 
-    return prompt;
+    const messages = await buildPrompt(templateSetId, action, claim, context);
+
+    // resolveChain only keeps registered fallback providers. With LLM_FIXTURES set, calls are
+    // recorded or replayed; see llmFixtures.ts
+    return chain.map(config => {
+        const provider = withFixtures(getProvider(config.provider) as LLMProvider);
+        return {
+            config,
+            provider,
+            request: {
+                messages,
+                model: config.model || provider.defaultModel,
+                temperature: 0.7,
+                maxTokens: 200
+            }
+        };
+    });
 }
 
-async function callOpenAI(apiKey: string, prompt: string, model: string = 'text-davinci-003'): Promise<string> {
-    const timerId = debug.startTimer('openai_api_call', { model });
+// Shows the model its invalid reply and what was wrong with it, then asks again
+function withCorrection(request: CompletionRequest, output: string, reason: string): CompletionRequest {
+    return {
+        ...request,
+        messages: [
+            ...request.messages,
+            { role: 'assistant', content: output || '(empty reply)' },
+            { role: 'user', content: `That reply was invalid: ${reason}. Reply again with only the JSON object.` }
+        ]
+    };
+}
 
-    try {
-        debug.info('llm_service', 'openai_call_start', 'Making OpenAI API call', {
-            model,
-            promptLength: prompt.length
+type ProviderCall = (request: CompletionRequest, signal: AbortSignal) => Promise<string>;
+
+// Calls the provider until it returns a valid structured claim. Every call gets a timeout and
+// backoff retries; the first call can be overridden (streaming), later ones are plain completions.
+async function completeValidated(
+    { config, provider, request }: PreparedGeneration,
+    action: Action,
+    options: { signal?: AbortSignal; onRetry?: RetryHandler; firstCall?: ProviderCall } = {}
+): Promise<GeneratedClaim> {
+    const complete: ProviderCall = (r, signal) => provider.complete(r, config, signal);
+    let attemptRequest = request;
+    let lastOutput = '';
+    let lastReason = '';
+
+    for (let attempt = 1; attempt <= MAX_OUTPUT_ATTEMPTS; attempt++) {
+        const call = attempt === 1 && options.firstCall ? options.firstCall : complete;
+        const currentRequest = attemptRequest;
+        lastOutput = await callWithRetry(signal => call(currentRequest, signal), provider, {
+            signal: options.signal,
+            onRetry: options.onRetry
         });
 
-        const configuration = new Configuration({ apiKey });
-        const openai = new OpenAIApi(configuration);
+        try {
+            return parseGeneratedClaim(lastOutput, action);
+        } catch (error) {
+            if (!(error instanceof OutputValidationError)) throw error;
+
+            lastReason = error.message;
+            debug.warn('llm_service', 'malformed_output', 'Provider returned malformed output', {
+                provider: config.provider,
+                attempt,
+                maxAttempts: MAX_OUTPUT_ATTEMPTS,
+                reason: lastReason,
+                output: lastOutput
+            });
+            attemptRequest = withCorrection(request, lastOutput, lastReason);
+        }
+    }
 
-        const response = await openai.createCompletion({
-            model: model,
-            prompt: prompt,
-            temperature: 0.7,
-            max_tokens: 50,
+    throw new MalformedOutputError(MAX_OUTPUT_ATTEMPTS, lastReason, lastOutput);
+}
+
+// Tries each provider in the chain until one succeeds. Cancellation stops the chain.
+async function runWithFallback<T>(
+    chain: PreparedGeneration[],
+    run: (prepared: PreparedGeneration) => Promise<T>,
+    observer: GenerationObserver = {}
+): Promise<{ result: T; prepared: PreparedGeneration }> {
+    for (let index = 0; ; index++) {
+        const prepared = chain[index];
+        try {
+            return { result: await run(prepared), prepared };
+        } catch (error) {
+            const llmError = classifyProviderError(error, prepared.provider.id, prepared.provider.label);
+            const next = chain[index + 1];
+            if (!next || llmError.code === 'cancelled') throw llmError;
+
+            const info: FallbackInfo = {
+                code: llmError.code,
+                message: llmError.message,
+                from: { provider: prepared.config.provider, model: prepared.request.model },
+                to: { provider: next.config.provider, model: next.request.model }
+            };
+
+            debug.warn('llm_service', 'provider_fallback', 'Falling back to next provider in chain', { ...info });
+            observer.onFallback?.(info);
+        }
+    }
+}
+
+// Typed errors pass through untouched; anything else is a failed provider call
+function toLLMError(error: unknown): LLMError {
+    return error instanceof LLMError ? error : new LLMError('provider_error', 'Failed to generate argument from LLM');
+}
+
+export async function generateArgument(generation: GenerationRequest, observer: GenerationObserver = {}): Promise<GeneratedClaim> {
+    const { claim, action, sessionId } = generation;
+    const timerId = debug.startTimer('generate_argument', {
+        action,
+        sessionId,
+        claimLength: claim.length
+    });
+
+    try {
+        debug.info('llm_service', 'argument_generation_start', 'Starting argument generation', {
+            action,
+            sessionId,
+            claimLength: claim.length
         });
 
-        const result = response.data.choices[0]?.text?.trim() || 'No response generated';
+        const chain = await prepareGeneration(generation);
+        const { result, prepared } = await runWithFallback(
+            chain,
+            (p) => completeValidated(p, action, { onRetry: observer.onRetry }),
+            observer
+        );
 
-        debug.info('llm_service', 'openai_call_success', 'OpenAI API call successful', {
-            model,
-            resultLength: result.length,
-            usage: response.data.usage
+        debug.info('llm_service', 'argument_generation_success', 'Argument generation completed', {
+            action,
+            originalClaim: claim,
+            generatedClaim: result.claim,
+            rationale: result.rationale,
+            provider: prepared.config.provider
         });
 
         return result;
     } catch (error) {
-        debug.trackError(error as Error, 'llm_service', 'openai_call_error', {
-            model,
-            promptLength: prompt.length
+        debug.trackError(error as Error, 'llm_service', 'argument_generation_error', {
+            action,
+            sessionId,
+            claim,
+            code: (error as LLMError).code
         });
-        throw error;
+
+        console.error('Error calling LLM API:', error);
+        throw toLLMError(error);
     } finally {
         debug.endTimer(timerId);
     }
 }
 
-async function callOpenRouter(apiKey: string, prompt: string, model: string = 'openai/gpt-3.5-turbo'): Promise<string> {
-    const timerId = debug.startTimer('openrouter_api_call', { model });
+function normalizeClaim(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
 
-    try {
-        debug.info('llm_service', 'openrouter_call_start', 'Making OpenRouter API call', {
-            model,
-            promptLength: prompt.length
-        });
+// Generates up to `count` distinct claims. Each call sees the earlier candidates as existing
+// siblings so the model is steered away from repeating itself; exact repeats are dropped.
+export async function generateCandidates(
+    generation: GenerationRequest,
+    count: number,
+    observer: GenerationObserver = {}
+): Promise<GeneratedClaim[]> {
+    const { action, sessionId } = generation;
+    const maxAttempts = count * 2;
+    const candidates: GeneratedClaim[] = [];
+    const seen = new Set<string>();
+
+    debug.info('llm_service', 'candidates_start', 'Generating candidate claims', {
+        action,
+        sessionId,
+        count
+    });
 
-        const response = await axios.post('https://openrouter.ai/api/v1/chat/completions', {
-            model: model,
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7,
-            max_tokens: 50,
-        }, {
-            headers: {
-                'Authorization': `Bearer ${apiKey}`,
-                'Content-Type': 'application/json',
-            }
-        });
+    for (let attempt = 0; attempt < maxAttempts && candidates.length < count; attempt++) {
+        const context: GraphContext = {
+            ancestors: generation.context?.ancestors || [],
+            sourceRelation: generation.context?.sourceRelation,
+            siblings: [...(generation.context?.siblings || []), ...candidates.map(c => c.claim)]
+        };
 
-        const result = response.data.choices[0]?.message?.content?.trim() || 'No response generated';
+        const candidate = await generateArgument({ ...generation, context }, observer);
+        const key = normalizeClaim(candidate.claim);
 
-        debug.info('llm_service', 'openrouter_call_success', 'OpenRouter API call successful', {
-            model,
-            resultLength: result.length,
-            usage: response.data.usage
-        });
+        if (seen.has(key)) {
+            debug.info('llm_service', 'candidate_duplicate', 'Dropping duplicate candidate', { attempt, candidate: candidate.claim });
+            continue;
+        }
 
-        return result;
-    } catch (error) {
-        debug.trackError(error as Error, 'llm_service', 'openrouter_call_error', {
-            model,
-            promptLength: prompt.length
-        });
-        throw error;
-    } finally {
-        debug.endTimer(timerId);
+        seen.add(key);
+        candidates.push(candidate);
     }
+
+    debug.info('llm_service', 'candidates_complete', 'Candidate generation finished', {
+        action,
+        requested: count,
+        produced: candidates.length
+    });
+
+    return candidates;
 }
 
-export async function generateArgument(claim: string, action: Action, sessionId?: string): Promise<string> {
-    const timerId = debug.startTimer('generate_argument', {
+// Streams the claim text through onToken as the JSON reply arrives. Providers without
+// streaming support deliver the whole claim as a single token. A retry or fallback restarts
+// the text from scratch (observers are told first); if the streamed reply turns out to be
+// malformed, retries run without streaming. The returned claim is authoritative.
+export async function generateArgumentStream(
+    generation: GenerationRequest,
+    onToken: TokenHandler,
+    signal?: AbortSignal,
+    observer: GenerationObserver = {}
+): Promise<GeneratedClaim> {
+    const { claim, action, sessionId } = generation;
+    const timerId = debug.startTimer('generate_argument_stream', {
         action,
         sessionId,
         claimLength: claim.length
     });
 
     try {
-        debug.info('llm_service', 'argument_generation_start', 'Starting argument generation', {
+        debug.info('llm_service', 'argument_stream_start', 'Starting streamed argument generation', {
             action,
             sessionId,
             claimLength: claim.length
         });
 
-        let config: LLMConfig | null = null;
+        const chain = await prepareGeneration(generation);
 
-        // Try to get session key first
-        if (sessionId) {
-            debug.trace('llm_service', 'session_key_lookup', 'Looking up session key', { sessionId });
-            config = getSessionKey(sessionId);
-        }
+        const streamClaim = (prepared: PreparedGeneration): Promise<GeneratedClaim> => {
+            const { config, provider } = prepared;
 
-        // Fall back to environment variable if no session key
-        if (!config && process.env.OPENAI_API_KEY) {
-            debug.info('llm_service', 'env_key_fallback', 'Using environment API key as fallback');
-            config = {
-                provider: 'openai',
-                apiKey: process.env.OPENAI_API_KEY,
-                model: 'text-davinci-003'
-            };
-        }
+            if (!provider.capabilities.streaming || !provider.completeStream) {
+                debug.info('llm_service', 'stream_unsupported', 'Provider cannot stream, sending full completion', {
+                    provider: config.provider
+                });
+                return completeValidated(prepared, action, { signal, onRetry: observer.onRetry }).then(result => {
+                    onToken(result.claim);
+                    return result;
+                });
+            }
 
-        if (!config) {
-            debug.error('llm_service', 'no_api_key', 'No API key configured', {
-                sessionId,
-                hasEnvKey: !!process.env.OPENAI_API_KEY
+            const completeStream = provider.completeStream.bind(provider);
+            return completeValidated(prepared, action, {
+                signal,
+                onRetry: observer.onRetry,
+                firstCall: (request, callSignal) => {
+                    let raw = '';
+                    let sent = '';
+                    return completeStream(request, config, (token) => {
+                        raw += token;
+                        const partial = extractPartialClaim(raw);
+                        if (partial.length > sent.length) {
+                            onToken(partial.slice(sent.length));
+                            sent = partial;
+                        }
+                    }, callSignal);
+                }
             });
-            throw new Error('No API key configured. Please set up your API key in the session or environment.');
-        }
-
-        debug.info('llm_service', 'config_resolved', 'API configuration resolved', {
-            provider: config.provider,
-            model: config.model,
-            sessionId
-        });
-
-        const prompt = getPromptTemplate(action, claim);
+        };
 
-        let result: string;
-        if (config.provider === 'openai') {
-            result = await callOpenAI(config.apiKey, prompt, config.model);
-        } else if (config.provider === 'openrouter') {
-            result = await callOpenRouter(config.apiKey, prompt, config.model || 'openai/gpt-3.5-turbo');
-        } else {
-            debug.error('llm_service', 'unsupported_provider', 'Unsupported provider', { provider: config.provider });
-            throw new Error(`Unsupported provider: ${config.provider}`);
-        }
+        const { result, prepared } = await runWithFallback(chain, streamClaim, observer);
 
-        debug.info('llm_service', 'argument_generation_success', 'Argument generation completed', {
+        debug.info('llm_service', 'argument_stream_success', 'Streamed argument generation completed', {
             action,
             originalClaim: claim,
-            generatedClaim: result,
-            provider: config.provider
+            generatedClaim: result.claim,
+            rationale: result.rationale,
+            provider: prepared.config.provider
         });
 
         return result;
     } catch (error) {
-        debug.trackError(error as Error, 'llm_service', 'argument_generation_error', {
+        if (signal?.aborted) {
+            debug.info('llm_service', 'argument_stream_cancelled', 'Streamed generation cancelled by client', {
+                action,
+                sessionId
+            });
+            throw new LLMError('cancelled', 'Generation cancelled');
+        }
+
+        debug.trackError(error as Error, 'llm_service', 'argument_stream_error', {
             action,
             sessionId,
-            claim
+            claim,
+            code: (error as LLMError).code
         });
 
-        console.error('Error calling LLM API:', error);
-        throw new Error('Failed to generate argument from LLM');
+        console.error('Error streaming from LLM API:', error);
+        throw toLLMError(error);
     } finally {
         debug.endTimer(timerId);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,263 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { Action, GraphContext, PromptTemplateSet, RELATIONS, getRelation, isRelationId } from '../types';
+import { capGraphContext, formatGraphContext } from './graphContext';
+import { formatInstruction } from './structuredOutput';
+import { ChatMessage, promptLength } from './providers';
+import { getDataDir } from '../config';
+import { debug } from '../../../shared/debug';
+
+export const DEFAULT_TEMPLATE_SET_ID = 'default';
+
+const DEFAULT_BASE_INSTRUCTION = "You are a clear and concise reasoning assistant. Given a claim, generate a *single, concise* new claim as a response. Do not add any preamble or explanation.";
+
+const TEMPLATE_VARIABLE = /\{\{\s*(\w+)\s*\}\}/g;
+
+const defaultTemplateSet: PromptTemplateSet = {
+    id: DEFAULT_TEMPLATE_SET_ID,
+    name: 'Default',
+    description: 'General-purpose prompts shipped with Dianoia',
+    baseInstruction: DEFAULT_BASE_INSTRUCTION,
+    relations: RELATIONS.reduce((templates, relation) => {
+        templates[relation.id] = relation.prompt;
+        return templates;
+    }, {} as Record<string, string>),
+    builtIn: true,
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString()
+};
+
+export interface TemplateSetInput {
+    name: string;
+    description?: string;
+    baseInstruction: string;
+    relations?: Record<string, string>;
+}
+
+function getTemplatesFile(): string {
+    return path.join(getDataDir(), 'prompt-templates.json');
+}
+
+async function readUserTemplateSets(): Promise<PromptTemplateSet[]> {
+    try {
+        const raw = await fs.readFile(getTemplatesFile(), 'utf8');
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed.sets) ? parsed.sets : [];
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw error;
+    }
+}
+
+// Changes are chained so concurrent requests can't interleave and lose updates: each one
+// reads, modifies and writes the file before the next starts. Writes go to a temp file
+// first so a crash mid-write never leaves a truncated file behind.
+let changeQueue: Promise<unknown> = Promise.resolve();
+
+// `change` returns the new list of sets (null leaves the file as it is) and its result
+function changeUserTemplateSets<T>(
+    change: (sets: PromptTemplateSet[]) => { sets: PromptTemplateSet[] | null; result: T }
+): Promise<T> {
+    const run = async (): Promise<T> => {
+        const { sets, result } = change(await readUserTemplateSets());
+        if (sets) {
+            const file = getTemplatesFile();
+            const tempFile = `${file}.${process.pid}.tmp`;
+            await fs.mkdir(path.dirname(file), { recursive: true });
+            await fs.writeFile(tempFile, JSON.stringify({ sets }, null, 2), 'utf8');
+            await fs.rename(tempFile, file);
+        }
+        return result;
+    };
+
+    const next = changeQueue.then(run, run);
+    changeQueue = next.catch(() => undefined);
+    return next;
+}
+
+// Returns an error message for the client, or null when the input is valid
+export function validateTemplateSetInput(body: Partial<TemplateSetInput>): string | null {
+    if (!body || typeof body.name !== 'string' || !body.name.trim()) {
+        return 'Missing required field: name';
+    }
+
+    if (typeof body.baseInstruction !== 'string' || !body.baseInstruction.trim()) {
+        return 'Missing required field: baseInstruction';
+    }
+
+    if (body.relations !== undefined) {
+        if (typeof body.relations !== 'object' || body.relations === null) {
+            return 'relations must be an object mapping relation ids to templates';
+        }
+
+        for (const [relationId, template] of Object.entries(body.relations)) {
+            if (!isRelationId(relationId)) {
+                return `Unknown relation in template set: ${relationId}`;
+            }
+            if (typeof template !== 'string') {
+                return `Template for ${relationId} must be a string`;
+            }
+        }
+    }
+
+    return null;
+}
+
+// Drops empty overrides so those relations fall back to the registry default
+function cleanRelations(relations: Record<string, string> = {}): Record<string, string> {
+    return Object.entries(relations).reduce((cleaned, [relationId, template]) => {
+        if (template.trim()) cleaned[relationId] = template;
+        return cleaned;
+    }, {} as Record<string, string>);
+}
+
+export function isBuiltInTemplateSet(id: string): boolean {
+    return id === DEFAULT_TEMPLATE_SET_ID;
+}
+
+export async function listTemplateSets(): Promise<PromptTemplateSet[]> {
+    return [defaultTemplateSet, ...(await readUserTemplateSets())];
+}
+
+export async function getTemplateSet(id: string): Promise<PromptTemplateSet | null> {
+    if (isBuiltInTemplateSet(id)) return defaultTemplateSet;
+    const sets = await readUserTemplateSets();
+    return sets.find(set => set.id === id) || null;
+}
+
+export async function createTemplateSet(input: TemplateSetInput): Promise<PromptTemplateSet> {
+    const now = new Date().toISOString();
+    const set: PromptTemplateSet = {
+        id: nanoid(),
+        name: input.name.trim(),
+        description: input.description,
+        baseInstruction: input.baseInstruction,
+        relations: cleanRelations(input.relations),
+        createdAt: now,
+        updatedAt: now
+    };
+
+    await changeUserTemplateSets(sets => ({ sets: [...sets, set], result: set }));
+
+    debug.info('template_service', 'template_set_created', 'Prompt template set created', {
+        templateSetId: set.id,
+        name: set.name
+    });
+
+    return set;
+}
+
+export async function updateTemplateSet(id: string, input: TemplateSetInput): Promise<PromptTemplateSet | null> {
+    const updated = await changeUserTemplateSets(sets => {
+        const existing = sets.find(set => set.id === id);
+        if (!existing) return { sets: null, result: null };
+
+        const changed: PromptTemplateSet = {
+            ...existing,
+            name: input.name.trim(),
+            description: input.description,
+            baseInstruction: input.baseInstruction,
+            relations: cleanRelations(input.relations),
+            updatedAt: new Date().toISOString()
+        };
+        return { sets: sets.map(set => (set.id === id ? changed : set)), result: changed };
+    });
+
+    if (!updated) return null;
+
+    debug.info('template_service', 'template_set_updated', 'Prompt template set updated', {
+        templateSetId: id,
+        name: updated.name
+    });
+
+    return updated;
+}
+
+export async function deleteTemplateSet(id: string): Promise<boolean> {
+    const deleted = await changeUserTemplateSets(sets => {
+        const remaining = sets.filter(set => set.id !== id);
+        return remaining.length === sets.length
+            ? { sets: null, result: false }
+            : { sets: remaining, result: true };
+    });
+
+    if (!deleted) return false;
+
+    debug.info('template_service', 'template_set_deleted', 'Prompt template set deleted', { templateSetId: id });
+
+    return true;
+}
+
+function fillVariables(template: string, variables: Record<string, string>): string {
+    return template.replace(TEMPLATE_VARIABLE, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+    );
+}
+
+// Renders the chat messages for a generation. The base instruction becomes the system message,
+// followed by the JSON reply format; the graph context opens the user message unless the
+// template places it explicitly with {{context}}.
+export function renderPrompt(
+    set: Pick<PromptTemplateSet, 'baseInstruction' | 'relations'>,
+    action: Action,
+    claim: string,
+    context?: GraphContext
+): ChatMessage[] {
+    if (!isRelationId(action)) {
+        debug.error('llm_service', 'unknown_action', 'Unknown action provided', { action });
+        throw new Error(`Unknown action: ${action}`);
+    }
+
+    const relation = getRelation(action);
+    const contextSection = formatGraphContext(context ? capGraphContext(context) : undefined, action);
+    const relationTemplate = set.relations[action] || relation.prompt;
+    const variables: Record<string, string> = {
+        claim,
+        context: contextSection,
+        relation: relation.verb,
+        relationLabel: relation.label,
+        root: context?.ancestors[0]?.label || claim
+    };
+
+    const usesContext = [set.baseInstruction, relationTemplate].some(template => /\{\{\s*context\s*\}\}/.test(template));
+    const task = fillVariables(relationTemplate, variables);
+
+    return [
+        { role: 'system', content: `${fillVariables(set.baseInstruction, variables)}\n\n${formatInstruction(action)}` },
+        { role: 'user', content: contextSection && !usesContext ? `${contextSection}\n\n${task}` : task }
+    ];
+}
+
+// Looks up the template set (falling back to the default) and renders the prompt
+export async function buildPrompt(
+    templateSetId: string | undefined,
+    action: Action,
+    claim: string,
+    context?: GraphContext
+): Promise<ChatMessage[]> {
+    let set = defaultTemplateSet;
+
+    if (templateSetId && !isBuiltInTemplateSet(templateSetId)) {
+        const found = await getTemplateSet(templateSetId);
+        if (found) {
+            set = found;
+        } else {
+            debug.warn('template_service', 'template_set_missing', 'Pinned template set not found, using default', {
+                templateSetId
+            });
+        }
+    }
+
+    const messages = renderPrompt(set, action, claim, context);
+
+    debug.trace('template_service', 'prompt_rendered', 'Prompt rendered from template set', {
+        templateSetId: set.id,
+        action,
+        promptLength: promptLength(messages)
+    });
+
+    return messages;
+}
@@ -0,0 +1,52 @@
+// Minimal parser for the server-sent event streams returned by OpenAI-style APIs
+
+const DONE_MARKER = '[DONE]';
+
+// Calls onData with the payload of every `data:` line until the stream ends or sends [DONE]
+export function readEventStream(stream: NodeJS.ReadableStream, onData: (data: string) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+        let buffer = '';
+        let finished = false;
+
+        const finish = () => {
+            if (finished) return;
+            finished = true;
+            resolve();
+        };
+
+        stream.on('data', (chunk: Buffer | string) => {
+            if (finished) return;
+            buffer += chunk.toString();
+
+            let newlineIndex = buffer.indexOf('\n');
+            while (newlineIndex !== -1) {
+                const line = buffer.slice(0, newlineIndex).trim();
+                buffer = buffer.slice(newlineIndex + 1);
+                newlineIndex = buffer.indexOf('\n');
+
+                if (!line.startsWith('data:')) continue;
+
+                const data = line.slice('data:'.length).trim();
+                if (data === DONE_MARKER) {
+                    finish();
+                    return;
+                }
+
+                try {
+                    onData(data);
+                } catch (error) {
+                    finished = true;
+                    reject(error);
+                    return;
+                }
+            }
+        });
+
+        stream.on('end', finish);
+        stream.on('error', (error: Error) => {
+            if (finished) return;
+            finished = true;
+            reject(error);
+        });
+    });
+}
@@ -0,0 +1,44 @@
+import { LLMProvider, ProviderInfo } from './types';
+import { openAIProvider } from './openai';
+import { openRouterProvider, localProvider } from './openaiCompatible';
+import { mockProvider } from './mock';
+import { debug } from '../../../../shared/debug';
+
+export * from './types';
+export { promptLength, flattenMessages } from './messages';
+export { isAllowedBaseUrl } from './openaiCompatible';
+
+// Registry of available providers, keyed by provider id
+const providers = new Map<string, LLMProvider>();
+
+export function registerProvider(provider: LLMProvider): void {
+    debug.trace('llm_service', 'provider_registered', 'Registering LLM provider', {
+        providerId: provider.id,
+        capabilities: provider.capabilities
+    });
+
+    providers.set(provider.id, provider);
+}
+
+export function getProvider(providerId: string): LLMProvider | null {
+    return providers.get(providerId) || null;
+}
+
+export function hasProvider(providerId: string): boolean {
+    return providers.has(providerId);
+}
+
+export function listProviders(): ProviderInfo[] {
+    return Array.from(providers.values()).map(provider => ({
+        id: provider.id,
+        label: provider.label,
+        defaultModel: provider.defaultModel,
+        defaultBaseUrl: provider.defaultBaseUrl,
+        capabilities: { ...provider.capabilities }
+    }));
+}
+
+registerProvider(openRouterProvider);
+registerProvider(openAIProvider);
+registerProvider(localProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,11 @@
+import { ChatMessage } from './types';
+
+// Total characters across all messages, for logging
+export function promptLength(messages: ChatMessage[]): number {
+    return messages.reduce((total, message) => total + message.content.length, 0);
+}
+
+// Joins the conversation into one block of text for providers without a chat format
+export function flattenMessages(messages: ChatMessage[]): string {
+    return messages.map(message => message.content).join('\n\n');
+}
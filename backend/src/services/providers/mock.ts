@@ -0,0 +1,171 @@
+import { LLMProvider, CompletionRequest, ProviderConfig, TokenHandler } from './types';
+import { flattenMessages } from './messages';
+import { debug } from '../../../../shared/debug';
+
+// Deterministic stand-in provider for offline demos and tests. The same prompt always
+// produces the same claim, so canvases built with it are reproducible.
+
+const MOCK_MODEL = 'mock-deterministic';
+
+// Delay between streamed words, so the canvas visibly fills in during demos
+const STREAM_DELAY_MS = Number(process.env.MOCK_STREAM_DELAY_MS || 40);
+
+const TEMPLATES: Record<string, string[]> = {
+    supports: [
+        'Evidence from comparable cases suggests that {claim}.',
+        'Several independent studies are consistent with the view that {claim}.',
+        'Historical precedent gives good reason to believe that {claim}.',
+        'If {claim}, we would expect exactly the outcomes we currently observe.'
+    ],
+    refutes: [
+        'There are well-documented counterexamples to the idea that {claim}.',
+        'The available data does not show that {claim}.',
+        'Critics point out that the case for "{claim}" rests on a small, unrepresentative sample.',
+        'Even if {claim}, the effect is too small to matter in practice.'
+    ],
+    unpacks: [
+        'This assumes that the terms in "{claim}" have a single agreed meaning.',
+        'This assumes that past trends behind "{claim}" will continue.',
+        'This assumes that the relevant experts are right about "{claim}".',
+        'This assumes that there are no significant exceptions to "{claim}".'
+    ],
+    example: [
+        'For instance, several European capitals have already acted on the idea that {claim}.',
+        'A well-known case study shows what it looks like in practice when {claim}.'
+    ],
+    rebuts: [
+        'On the contrary, it is not the case that {claim}.',
+        'The opposite conclusion is better supported: it is false that {claim}.'
+    ],
+    undercuts: [
+        'The reasoning behind "{claim}" confuses correlation with causation.',
+        'The evidence offered for "{claim}" would look the same even if it were false.'
+    ],
+    qualifies: [
+        'This only holds where enforcement is practical: {claim}.',
+        'In the short term at least, {claim}.'
+    ],
+    clarifies: [
+        'What exactly is meant by the key terms in "{claim}"?',
+        'Over what time frame is "{claim}" supposed to hold?'
+    ],
+    generic: [
+        'A closer look at "{claim}" raises further questions.',
+        'Whether {claim} depends on how we weigh the available evidence.'
+    ]
+};
+
+// FNV-1a; stable across runs and platforms
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash;
+}
+
+function extractClaim(prompt: string): string {
+    const quoted = prompt.match(/"([^"]+)"/g);
+    const last = quoted ? quoted[quoted.length - 1].slice(1, -1) : prompt;
+    return last.trim().replace(/[.!?]+$/, '');
+}
+
+// Looks only at the instruction after the claim, since context sections mention other relations
+function detectIntent(prompt: string): string {
+    const lower = prompt.slice(prompt.lastIndexOf('"') + 1).toLowerCase();
+    if (lower.includes('undercut')) return 'undercuts';
+    if (lower.includes('rebut')) return 'rebuts';
+    if (lower.includes('qualif')) return 'qualifies';
+    if (lower.includes('question')) return 'clarifies';
+    if (lower.includes('example')) return 'example';
+    if (lower.includes('refut')) return 'refutes';
+    if (lower.includes('assumption')) return 'unpacks';
+    if (lower.includes('support')) return 'supports';
+    return 'generic';
+}
+
+// The system message names the relation the reply must carry
+function requestedRelation(prompt: string, intent: string): string {
+    const match = /"relation":\s*"(\w+)"/.exec(prompt);
+    return match ? match[1] : intent;
+}
+
+// Lower-cases the first letter so the claim reads mid-sentence, leaving acronyms alone
+function lowerFirst(text: string): string {
+    if (/^[A-Z]{2}/.test(text)) return text;
+    return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
+export const mockProvider: LLMProvider = {
+    id: 'mock',
+    label: 'Offline mock (deterministic)',
+    defaultModel: MOCK_MODEL,
+    capabilities: {
+        streaming: true,
+        modelListing: true,
+        requiresApiKey: false,
+        requiresBaseUrl: false,
+        offline: true
+    },
+
+    async complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string> {
+        if (signal?.aborted) {
+            throw new Error('Mock call aborted');
+        }
+
+        const prompt = flattenMessages(request.messages);
+        const intent = detectIntent(prompt);
+        const claim = extractClaim(prompt);
+        const options = TEMPLATES[intent];
+        const start = hashString(`${request.model}:${prompt}`) % options.length;
+
+        // Walk the templates from the hashed start, skipping claims the prompt says already exist
+        let generated = '';
+        for (let i = 0; i < options.length; i++) {
+            const template = options[(start + i) % options.length];
+            generated = template.replace('{claim}', template.includes('"{claim}"') ? claim : lowerFirst(claim));
+            if (!prompt.includes(`"${generated}"`)) break;
+        }
+
+        const result = JSON.stringify({
+            claim: generated,
+            relation: requestedRelation(prompt, intent),
+            rationale: `Mock ${intent} response derived from the claim text.`
+        });
+
+        debug.info('llm_service', 'mock_call_success', 'Mock provider produced a response', {
+            model: request.model,
+            intent,
+            resultLength: result.length
+        });
+
+        return result;
+    },
+
+    async completeStream(
+        request: CompletionRequest,
+        config: ProviderConfig,
+        onToken: TokenHandler,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const result = await this.complete(request, config);
+        const tokens = result.match(/\S+\s*/g) || [];
+
+        for (const token of tokens) {
+            if (signal?.aborted) {
+                throw new Error('Mock stream aborted');
+            }
+            if (STREAM_DELAY_MS > 0) {
+                await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+            }
+            onToken(token);
+        }
+
+        return result;
+    },
+
+    async listModels(config: ProviderConfig): Promise<string[]> {
+        return [MOCK_MODEL];
+    }
+};
@@ -0,0 +1,113 @@
+import { Configuration, OpenAIApi } from 'openai';
+import { LLMProvider, CompletionRequest, ProviderConfig, TokenHandler } from './types';
+import { readEventStream } from './eventStream';
+import { promptLength } from './messages';
+import { debug } from '../../../../shared/debug';
+
+export const openAIProvider: LLMProvider = {
+    id: 'openai',
+    label: 'OpenAI',
+    defaultModel: 'gpt-3.5-turbo',
+    capabilities: {
+        streaming: true,
+        modelListing: true,
+        requiresApiKey: true,
+        requiresBaseUrl: false,
+        offline: false
+    },
+
+    async complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string> {
+        const timerId = debug.startTimer('openai_api_call', { model: request.model });
+
+        try {
+            debug.info('llm_service', 'openai_call_start', 'Making OpenAI API call', {
+                model: request.model,
+                promptLength: promptLength(request.messages)
+            });
+
+            const openai = new OpenAIApi(new Configuration({ apiKey: config.apiKey }));
+
+            const response = await openai.createChatCompletion({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            }, { signal });
+
+            // Empty output is left to the caller's validation rather than papered over here
+            const result = response.data.choices[0]?.message?.content?.trim() || '';
+
+            debug.info('llm_service', 'openai_call_success', 'OpenAI API call successful', {
+                model: request.model,
+                resultLength: result.length,
+                usage: response.data.usage
+            });
+
+            return result;
+        } catch (error) {
+            debug.trackError(error as Error, 'llm_service', 'openai_call_error', {
+                model: request.model,
+                promptLength: promptLength(request.messages)
+            });
+            throw error;
+        } finally {
+            debug.endTimer(timerId);
+        }
+    },
+
+    async completeStream(
+        request: CompletionRequest,
+        config: ProviderConfig,
+        onToken: TokenHandler,
+        signal?: AbortSignal
+    ): Promise<string> {
+        const timerId = debug.startTimer('openai_stream_call', { model: request.model });
+        let result = '';
+
+        try {
+            debug.info('llm_service', 'openai_stream_start', 'Starting OpenAI streaming call', {
+                model: request.model,
+                promptLength: promptLength(request.messages)
+            });
+
+            const openai = new OpenAIApi(new Configuration({ apiKey: config.apiKey }));
+
+            const response = await openai.createChatCompletion({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                stream: true,
+            }, { responseType: 'stream', signal });
+
+            await readEventStream(response.data as unknown as NodeJS.ReadableStream, (data) => {
+                const token: string | undefined = JSON.parse(data).choices?.[0]?.delta?.content;
+                if (token) {
+                    result += token;
+                    onToken(token);
+                }
+            });
+
+            debug.info('llm_service', 'openai_stream_success', 'OpenAI streaming call finished', {
+                model: request.model,
+                resultLength: result.length
+            });
+
+            return result.trim();
+        } catch (error) {
+            debug.trackError(error as Error, 'llm_service', 'openai_stream_error', {
+                model: request.model,
+                receivedLength: result.length
+            });
+            throw error;
+        } finally {
+            debug.endTimer(timerId);
+        }
+    },
+
+    async listModels(config: ProviderConfig): Promise<string[]> {
+        const openai = new OpenAIApi(new Configuration({ apiKey: config.apiKey }));
+        const response = await openai.listModels();
+        return response.data.data.map(model => model.id).sort();
+    }
+};
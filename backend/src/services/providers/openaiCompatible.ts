@@ -0,0 +1,222 @@
+import axios from 'axios';
+import { LLMProvider, CompletionRequest, ProviderConfig, ProviderCapabilities, TokenHandler } from './types';
+import { readEventStream } from './eventStream';
+import { promptLength } from './messages';
+import { debug } from '../../../../shared/debug';
+
+interface OpenAICompatibleOptions {
+    id: string;
+    label: string;
+    logName: string; // Prefix for timers and log actions, e.g. 'openrouter'
+    defaultBaseUrl: string;
+    defaultModel: string;
+    defaultTimeoutMs?: number;
+    capabilities: ProviderCapabilities;
+    // Environment variables that override the defaults, read lazily so dotenv has loaded
+    baseUrlEnv?: string;
+    modelEnv?: string;
+}
+
+function trimBaseUrl(baseUrl: string): string {
+    return baseUrl.trim().replace(/\/+$/, '');
+}
+
+function isLoopback(baseUrl: string): boolean {
+    try {
+        const hostname = new URL(baseUrl).hostname;
+        return hostname === 'localhost' || hostname === '[::1]' || /^127(\.\d{1,3}){3}$/.test(hostname);
+    } catch {
+        return false;
+    }
+}
+
+// Base URLs sent by clients are called from the backend, so they are limited to the servers
+// listed in OPENAI_COMPATIBLE_BASE_URLS (comma separated), plus loopback outside production
+export function isAllowedBaseUrl(baseUrl: string): boolean {
+    const allowed = (process.env.OPENAI_COMPATIBLE_BASE_URLS || '')
+        .split(',')
+        .map(trimBaseUrl)
+        .filter(Boolean);
+
+    if (allowed.indexOf(trimBaseUrl(baseUrl)) !== -1) return true;
+    return process.env.NODE_ENV !== 'production' && isLoopback(baseUrl);
+}
+
+// The provider's own default comes from the environment and is trusted as it is
+function resolveBaseUrl(config: ProviderConfig, fallback: string): string {
+    if (config.baseUrl && !isAllowedBaseUrl(config.baseUrl)) {
+        throw new Error(`Base URL ${config.baseUrl} is not allowed; add it to OPENAI_COMPATIBLE_BASE_URLS`);
+    }
+    return trimBaseUrl(config.baseUrl || fallback);
+}
+
+function buildHeaders(config: ProviderConfig): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+    return headers;
+}
+
+// Builds a provider that talks to any server implementing the OpenAI chat completions API
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+    const { logName } = options;
+    const getDefaultBaseUrl = (): string =>
+        (options.baseUrlEnv && process.env[options.baseUrlEnv]) || options.defaultBaseUrl;
+
+    return {
+        id: options.id,
+        label: options.label,
+        defaultTimeoutMs: options.defaultTimeoutMs,
+        capabilities: options.capabilities,
+
+        get defaultModel(): string {
+            return (options.modelEnv && process.env[options.modelEnv]) || options.defaultModel;
+        },
+
+        get defaultBaseUrl(): string {
+            return getDefaultBaseUrl();
+        },
+
+        async complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string> {
+            const baseUrl = resolveBaseUrl(config, getDefaultBaseUrl());
+            const timerId = debug.startTimer(`${logName}_api_call`, { model: request.model, baseUrl });
+
+            try {
+                debug.info('llm_service', `${logName}_call_start`, `Making ${options.label} API call`, {
+                    model: request.model,
+                    baseUrl,
+                    promptLength: promptLength(request.messages)
+                });
+
+                const response = await axios.post(`${baseUrl}/chat/completions`, {
+                    model: request.model,
+                    messages: request.messages,
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                }, {
+                    headers: buildHeaders(config),
+                    signal
+                });
+
+                // Empty output is left to the caller's validation rather than papered over here
+                const result = response.data.choices[0]?.message?.content?.trim() || '';
+
+                debug.info('llm_service', `${logName}_call_success`, `${options.label} API call successful`, {
+                    model: request.model,
+                    resultLength: result.length,
+                    usage: response.data.usage
+                });
+
+                return result;
+            } catch (error) {
+                debug.trackError(error as Error, 'llm_service', `${logName}_call_error`, {
+                    model: request.model,
+                    baseUrl,
+                    promptLength: promptLength(request.messages)
+                });
+                throw error;
+            } finally {
+                debug.endTimer(timerId);
+            }
+        },
+
+        async completeStream(
+            request: CompletionRequest,
+            config: ProviderConfig,
+            onToken: TokenHandler,
+            signal?: AbortSignal
+        ): Promise<string> {
+            const baseUrl = resolveBaseUrl(config, getDefaultBaseUrl());
+            const timerId = debug.startTimer(`${logName}_stream_call`, { model: request.model, baseUrl });
+            let result = '';
+
+            try {
+                debug.info('llm_service', `${logName}_stream_start`, `Starting ${options.label} streaming call`, {
+                    model: request.model,
+                    baseUrl,
+                    promptLength: promptLength(request.messages)
+                });
+
+                const response = await axios.post(`${baseUrl}/chat/completions`, {
+                    model: request.model,
+                    messages: request.messages,
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                    stream: true,
+                }, {
+                    headers: buildHeaders(config),
+                    responseType: 'stream',
+                    signal
+                });
+
+                await readEventStream(response.data, (data) => {
+                    const token: string | undefined = JSON.parse(data).choices?.[0]?.delta?.content;
+                    if (token) {
+                        result += token;
+                        onToken(token);
+                    }
+                });
+
+                debug.info('llm_service', `${logName}_stream_success`, `${options.label} streaming call finished`, {
+                    model: request.model,
+                    resultLength: result.length
+                });
+
+                return result.trim();
+            } catch (error) {
+                debug.trackError(error as Error, 'llm_service', `${logName}_stream_error`, {
+                    model: request.model,
+                    baseUrl,
+                    receivedLength: result.length
+                });
+                throw error;
+            } finally {
+                debug.endTimer(timerId);
+            }
+        },
+
+        async listModels(config: ProviderConfig): Promise<string[]> {
+            const baseUrl = resolveBaseUrl(config, getDefaultBaseUrl());
+            const response = await axios.get(`${baseUrl}/models`, {
+                headers: buildHeaders(config)
+            });
+            const models: Array<{ id: string }> = response.data?.data || [];
+            return models.map(model => model.id).sort();
+        }
+    };
+}
+
+export const openRouterProvider = createOpenAICompatibleProvider({
+    id: 'openrouter',
+    label: 'OpenRouter',
+    logName: 'openrouter',
+    defaultBaseUrl: 'https://openrouter.ai/api/v1',
+    defaultModel: 'openai/gpt-3.5-turbo',
+    capabilities: {
+        streaming: true,
+        modelListing: true,
+        requiresApiKey: true,
+        requiresBaseUrl: false,
+        offline: false
+    }
+});
+
+// Local servers such as llama.cpp or Ollama expose the same API; the key is optional
+export const localProvider = createOpenAICompatibleProvider({
+    id: 'openai-compatible',
+    label: 'OpenAI-compatible server',
+    logName: 'local',
+    defaultBaseUrl: 'http://localhost:11434/v1',
+    defaultModel: 'llama3',
+    baseUrlEnv: 'LLM_BASE_URL',
+    modelEnv: 'LLM_MODEL',
+    defaultTimeoutMs: 120000, // Local models on modest hardware can take a while
+    capabilities: {
+        streaming: true,
+        modelListing: true,
+        requiresApiKey: false,
+        requiresBaseUrl: true,
+        offline: true
+    }
+});
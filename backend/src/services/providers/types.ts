@@ -0,0 +1,56 @@
+// Common contract every LLM provider implements
+
+export interface ProviderCapabilities {
+    streaming: boolean; // Provider can emit tokens incrementally
+    modelListing: boolean; // Provider can enumerate its available models
+    requiresApiKey: boolean; // Calls fail without an API key
+    requiresBaseUrl: boolean; // User may point the provider at their own server
+    offline: boolean; // Works with no network access at all
+}
+
+export interface ProviderConfig {
+    apiKey?: string;
+    model?: string;
+    baseUrl?: string;
+}
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    messages: ChatMessage[]; // System instruction first, then the conversation
+    model: string;
+    temperature: number;
+    maxTokens: number;
+}
+
+export type TokenHandler = (token: string) => void;
+
+export interface LLMProvider {
+    id: string;
+    label: string;
+    defaultModel: string;
+    defaultBaseUrl?: string;
+    defaultTimeoutMs?: number; // Per-call timeout unless overridden by the environment
+    capabilities: ProviderCapabilities;
+    complete(request: CompletionRequest, config: ProviderConfig, signal?: AbortSignal): Promise<string>;
+    // Only present when capabilities.streaming is true; resolves with the full text
+    completeStream?(
+        request: CompletionRequest,
+        config: ProviderConfig,
+        onToken: TokenHandler,
+        signal?: AbortSignal
+    ): Promise<string>;
+    listModels(config: ProviderConfig): Promise<string[]>;
+}
+
+// Public description of a provider, safe to send to the frontend
+export interface ProviderInfo {
+    id: string;
+    label: string;
+    defaultModel: string;
+    defaultBaseUrl?: string;
+    capabilities: ProviderCapabilities;
+}
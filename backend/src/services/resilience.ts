@@ -0,0 +1,154 @@
+import { LLMProvider } from './providers';
+import { LLMError, LLMErrorCode, classifyProviderError } from './errors';
+import { debug } from '../../../shared/debug';
+
+// Timeouts and retry policy for provider calls. Everything is read from the environment at
+// call time so .env values apply:
+//   LLM_TIMEOUT_MS             default timeout per provider call (30000)
+//   LLM_TIMEOUT_MS_<PROVIDER>  override for one provider, e.g. LLM_TIMEOUT_MS_OPENAI_COMPATIBLE
+//   LLM_MAX_RETRIES            retries on a retryable error before giving up (2)
+//   LLM_RETRY_BASE_MS          first backoff delay, doubled on each retry (1000)
+//   LLM_RETRY_MAX_MS           cap for any single delay, including Retry-After (30000)
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_BASE_MS = 1000;
+const DEFAULT_RETRY_MAX_MS = 30000;
+
+function readNumber(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Upper-cased provider id for env var names, e.g. 'openai-compatible' -> 'OPENAI_COMPATIBLE'
+export function envName(providerId: string): string {
+    return providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+}
+
+export function getTimeoutMs(provider: LLMProvider): number {
+    const fallback = readNumber('LLM_TIMEOUT_MS', provider.defaultTimeoutMs || DEFAULT_TIMEOUT_MS);
+    return readNumber(`LLM_TIMEOUT_MS_${envName(provider.id)}`, fallback);
+}
+
+export interface RetryPolicy {
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export function getRetryPolicy(): RetryPolicy {
+    return {
+        maxRetries: readNumber('LLM_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+        baseDelayMs: readNumber('LLM_RETRY_BASE_MS', DEFAULT_RETRY_BASE_MS),
+        maxDelayMs: readNumber('LLM_RETRY_MAX_MS', DEFAULT_RETRY_MAX_MS)
+    };
+}
+
+// Exponential backoff, unless the provider said how long to wait
+export function backoffDelay(policy: RetryPolicy, retry: number, error: LLMError): number {
+    const delay = error.retryAfterMs !== undefined ? error.retryAfterMs : policy.baseDelayMs * Math.pow(2, retry);
+    return Math.min(delay, policy.maxDelayMs);
+}
+
+function cancelledError(): LLMError {
+    return new LLMError('cancelled', 'Generation cancelled');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(cancelledError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(cancelledError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+// Runs one provider call with its own abort signal that fires on timeout or when the caller aborts
+async function withTimeout<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    provider: LLMProvider,
+    parent?: AbortSignal
+): Promise<T> {
+    const timeoutMs = getTimeoutMs(provider);
+    const controller = new AbortController();
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    parent?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        return await call(controller.signal);
+    } catch (error) {
+        if (parent?.aborted) throw cancelledError();
+        if (timedOut) {
+            throw new LLMError('timeout', `${provider.label} did not respond within ${timeoutMs / 1000}s`, {
+                provider: provider.id,
+                retryable: true
+            });
+        }
+        throw classifyProviderError(error, provider.id, provider.label);
+    } finally {
+        clearTimeout(timer);
+        parent?.removeEventListener('abort', onAbort);
+    }
+}
+
+export interface RetryInfo {
+    code: LLMErrorCode;
+    message: string;
+    provider: string;
+    retry: number; // 1 for the first retry
+    maxRetries: number;
+    delayMs: number;
+}
+
+export type RetryHandler = (info: RetryInfo) => void;
+
+// Calls the provider with a timeout, retrying retryable failures with backoff. Errors that
+// come out are always LLMErrors.
+export async function callWithRetry<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    provider: LLMProvider,
+    options: { signal?: AbortSignal; onRetry?: RetryHandler } = {}
+): Promise<T> {
+    const policy = getRetryPolicy();
+
+    for (let retry = 0; ; retry++) {
+        try {
+            return await withTimeout(call, provider, options.signal);
+        } catch (error) {
+            const llmError = error as LLMError;
+            if (!llmError.retryable || retry >= policy.maxRetries) {
+                throw llmError;
+            }
+
+            const delayMs = backoffDelay(policy, retry, llmError);
+            const info: RetryInfo = {
+                code: llmError.code,
+                message: llmError.message,
+                provider: provider.id,
+                retry: retry + 1,
+                maxRetries: policy.maxRetries,
+                delayMs
+            };
+
+            debug.warn('llm_service', 'provider_retry', 'Retrying provider call after retryable error', { ...info });
+            options.onRetry?.(info);
+
+            await sleep(delayMs, options.signal);
+        }
+    }
+}
@@ -0,0 +1,202 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { nanoid } from 'nanoid';
+import { KeyValidation } from '../types';
+import { LLMConfig } from './llmService';
+import { getDataDir } from '../config';
+import { debug } from '../../../shared/debug';
+
+// Browser sessions and the provider keys set up in them. A session is identified by a
+// cookie (see ../sessionCookie.ts) and expires once it goes unused for the TTL; every use
+// pushes the expiry back. Sessions are kept in memory. With SESSION_SECRET set they are also
+// written to <data dir>/sessions.json, encrypted with a key derived from it and readable by
+// the backend's user only, so a restart doesn't make everyone enter their key again.
+// Without it they are lost on restart.
+
+export interface Session {
+    id: string;
+    config: LLMConfig | null;
+    validation: KeyValidation | null;
+    createdAt: string;
+    expiresAt: string;
+}
+
+// sessions.json as written: the sessions' JSON, encrypted. All fields are base64.
+interface SealedSessions {
+    iv: string;
+    tag: string;
+    data: string;
+}
+
+const DEFAULT_SESSION_TTL_HOURS = 24;
+const SAVE_DEBOUNCE_MS = 1000;
+const CIPHER = 'aes-256-gcm';
+
+const sessions = new Map<string, Session>();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let derivedKey: { secret: string; key: Buffer } | null = null;
+
+export function getSessionTtlMs(): number {
+    const hours = Number(process.env.SESSION_TTL_HOURS);
+    return (Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SESSION_TTL_HOURS) * 60 * 60 * 1000;
+}
+
+function getSessionsFile(): string {
+    return path.join(getDataDir(), 'sessions.json');
+}
+
+function isExpired(session: Session): boolean {
+    return Date.parse(session.expiresAt) <= Date.now();
+}
+
+// Key for sessions.json, or null when sessions are not to be written
+function getEncryptionKey(): Buffer | null {
+    const secret = process.env.SESSION_SECRET;
+    if (!secret) return null;
+    if (derivedKey?.secret !== secret) {
+        derivedKey = { secret, key: scryptSync(secret, 'dianoia-sessions', 32) };
+    }
+    return derivedKey.key;
+}
+
+function seal(key: Buffer, plaintext: string): SealedSessions {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv(CIPHER, key, iv);
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    return { iv: iv.toString('base64'), tag: cipher.getAuthTag().toString('base64'), data: data.toString('base64') };
+}
+
+// Throws when the file was written with another secret or changed since
+function unseal(key: Buffer, sealed: SealedSessions): string {
+    const decipher = createDecipheriv(CIPHER, key, Buffer.from(sealed.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(sealed.data, 'base64')), decipher.final()]).toString('utf8');
+}
+
+async function writeSessions(key: Buffer): Promise<void> {
+    saveTimer = null;
+    const live: Session[] = [];
+    sessions.forEach(session => {
+        if (!isExpired(session)) live.push(session);
+    });
+
+    // Through a temp file, so a crash mid-write can't leave a truncated file that fails to load
+    const file = getSessionsFile();
+    const tempFile = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tempFile, JSON.stringify(seal(key, JSON.stringify(live))), { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempFile, file);
+}
+
+function scheduleSave(): void {
+    const key = getEncryptionKey();
+    if (saveTimer || !key) return;
+    saveTimer = setTimeout(() => {
+        writeSessions(key).catch(error => {
+            debug.trackError(error as Error, 'session_store', 'save_error');
+        });
+    }, SAVE_DEBOUNCE_MS);
+}
+
+// Reads the sessions saved by the previous run; call once at startup
+export async function loadSessions(): Promise<void> {
+    const key = getEncryptionKey();
+    if (!key) {
+        debug.warn('session_store', 'sessions_in_memory', 'SESSION_SECRET is not set; API keys are kept in memory only and lost on restart');
+        return;
+    }
+
+    let sealed: SealedSessions;
+    try {
+        sealed = JSON.parse(await fs.readFile(getSessionsFile(), 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        throw error;
+    }
+
+    let saved: Session[];
+    try {
+        saved = JSON.parse(unseal(key, sealed));
+    } catch (error) {
+        // Everyone enters their key again, and the next save replaces the file
+        debug.warn('session_store', 'sessions_unreadable', 'Saved sessions could not be decrypted; was SESSION_SECRET changed?', {
+            error: error instanceof Error ? error.message : String(error)
+        });
+        return;
+    }
+
+    saved.filter(session => !isExpired(session)).forEach(session => sessions.set(session.id, session));
+
+    debug.info('session_store', 'sessions_loaded', 'Sessions loaded', {
+        loaded: sessions.size,
+        expired: saved.length - sessions.size
+    });
+}
+
+// The live session with this id, its expiry pushed back; expired sessions are forgotten
+export function getSession(id: string | undefined): Session | null {
+    if (!id) return null;
+
+    const session = sessions.get(id);
+    if (!session) return null;
+
+    if (isExpired(session)) {
+        sessions.delete(id);
+        scheduleSave();
+        debug.info('session_store', 'session_expired', 'Session expired', { sessionId: id });
+        return null;
+    }
+
+    session.expiresAt = new Date(Date.now() + getSessionTtlMs()).toISOString();
+    scheduleSave();
+    return session;
+}
+
+export function createSession(): Session {
+    const now = Date.now();
+    const session: Session = {
+        id: nanoid(32),
+        config: null,
+        validation: null,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + getSessionTtlMs()).toISOString()
+    };
+
+    sessions.set(session.id, session);
+    scheduleSave();
+
+    debug.info('session_store', 'session_created', 'Session created', { sessionId: session.id });
+
+    return session;
+}
+
+// Replaces the session's provider and key; the previous key's check no longer applies
+export function setSessionConfig(session: Session, config: LLMConfig): void {
+    debug.info('session_store', 'session_key_set', 'Setting session API key', {
+        sessionId: session.id,
+        provider: config.provider,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        hasApiKey: !!config.apiKey
+    });
+
+    session.config = config;
+    session.validation = null;
+    scheduleSave();
+}
+
+export function setSessionValidation(session: Session, validation: KeyValidation): void {
+    session.validation = validation;
+    scheduleSave();
+}
+
+// Forgets the session and its key
+export function revokeSession(id: string): boolean {
+    const existed = sessions.delete(id);
+    if (existed) {
+        scheduleSave();
+        debug.info('session_store', 'session_revoked', 'Session revoked', { sessionId: id });
+    }
+    return existed;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { GraphRecord, GraphSnapshot, SnapshotSummary } from '../types';
+import { getDataDir } from '../config';
+import { isValidGraphId } from './graphStore';
+import { debug } from '../../../shared/debug';
+
+// Snapshots of a graph live next to the graphs, one JSON file each under
+// <data dir>/snapshots/<graph id>. Automatic snapshots are taken on save, at most once per
+// interval, and only the most recent ones are kept; manual checkpoints are kept until
+// deleted.
+
+const DEFAULT_AUTO_INTERVAL_MINUTES = 10;
+const DEFAULT_MAX_AUTO_SNAPSHOTS = 50;
+
+function getAutoIntervalMs(): number {
+    const minutes = Number(process.env.SNAPSHOT_INTERVAL_MINUTES);
+    return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_AUTO_INTERVAL_MINUTES) * 60 * 1000;
+}
+
+function getMaxAutoSnapshots(): number {
+    const max = Number(process.env.MAX_AUTO_SNAPSHOTS);
+    return Number.isInteger(max) && max > 0 ? max : DEFAULT_MAX_AUTO_SNAPSHOTS;
+}
+
+// Creation time of each graph's newest snapshot, so most saves skip reading the directory
+const latestSnapshotAt = new Map<string, number>();
+
+function getSnapshotsDir(graphId: string): string {
+    if (!isValidGraphId(graphId)) {
+        throw new Error(`Invalid graph id: ${graphId}`);
+    }
+    return path.join(getDataDir(), 'snapshots', graphId);
+}
+
+function getSnapshotFile(graphId: string, snapshotId: string): string {
+    if (!isValidGraphId(snapshotId)) {
+        throw new Error(`Invalid snapshot id: ${snapshotId}`);
+    }
+    return path.join(getSnapshotsDir(graphId), `${snapshotId}.json`);
+}
+
+async function readSnapshotFile(file: string): Promise<GraphSnapshot | null> {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return null;
+        }
+        throw error;
+    }
+}
+
+async function readSnapshots(graphId: string): Promise<GraphSnapshot[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(getSnapshotsDir(graphId));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const snapshots = await Promise.all(
+        files
+            .filter(file => file.endsWith('.json'))
+            .map(file => readSnapshotFile(path.join(getSnapshotsDir(graphId), file)))
+    );
+
+    return snapshots
+        .filter((snapshot): snapshot is GraphSnapshot => snapshot !== null)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function summarize(snapshot: GraphSnapshot): SnapshotSummary {
+    const { nodes, edges, ...summary } = snapshot;
+    return { ...summary, nodeCount: nodes.length, edgeCount: edges.length };
+}
+
+// Newest first
+export async function listSnapshots(graphId: string): Promise<SnapshotSummary[]> {
+    if (!isValidGraphId(graphId)) return [];
+    return (await readSnapshots(graphId)).map(summarize);
+}
+
+export async function getSnapshot(graphId: string, snapshotId: string): Promise<GraphSnapshot | null> {
+    if (!isValidGraphId(graphId) || !isValidGraphId(snapshotId)) return null;
+    return readSnapshotFile(getSnapshotFile(graphId, snapshotId));
+}
+
+export async function createSnapshot(graph: GraphRecord, name: string, kind: GraphSnapshot['kind']): Promise<GraphSnapshot> {
+    const snapshot: GraphSnapshot = {
+        id: nanoid(),
+        graphId: graph.id,
+        name,
+        kind,
+        nodes: graph.nodes,
+        edges: graph.edges,
+        createdAt: new Date().toISOString()
+    };
+
+    const file = getSnapshotFile(graph.id, snapshot.id);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(snapshot, null, 2), 'utf8');
+    latestSnapshotAt.set(graph.id, Date.parse(snapshot.createdAt));
+
+    debug.info('snapshot_store', 'snapshot_created', 'Snapshot created', {
+        graphId: graph.id,
+        snapshotId: snapshot.id,
+        kind,
+        nodeCount: snapshot.nodes.length
+    });
+
+    return snapshot;
+}
+
+export async function deleteSnapshot(graphId: string, snapshotId: string): Promise<boolean> {
+    if (!isValidGraphId(graphId) || !isValidGraphId(snapshotId)) return false;
+
+    try {
+        await fs.unlink(getSnapshotFile(graphId, snapshotId));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+        throw error;
+    }
+
+    debug.info('snapshot_store', 'snapshot_deleted', 'Snapshot deleted', { graphId, snapshotId });
+
+    return true;
+}
+
+export async function deleteGraphSnapshots(graphId: string): Promise<void> {
+    if (!isValidGraphId(graphId)) return;
+    await fs.rm(getSnapshotsDir(graphId), { recursive: true, force: true });
+    latestSnapshotAt.delete(graphId);
+}
+
+function sameContent(a: Pick<GraphRecord, 'nodes' | 'edges'>, b: Pick<GraphRecord, 'nodes' | 'edges'>): boolean {
+    return JSON.stringify(a.nodes) === JSON.stringify(b.nodes) && JSON.stringify(a.edges) === JSON.stringify(b.edges);
+}
+
+// Called with the stored graph before a save overwrites it. Keeps the version from before
+// a burst of edits once the last snapshot is older than the interval, then drops the
+// oldest automatic snapshots beyond the limit.
+export async function recordAutoSnapshot(previous: GraphRecord): Promise<GraphSnapshot | null> {
+    if (previous.nodes.length === 0) return null;
+
+    const isRecent = (time: number | undefined) => time !== undefined && Date.now() - time < getAutoIntervalMs();
+    if (isRecent(latestSnapshotAt.get(previous.id))) return null;
+
+    const snapshots = await readSnapshots(previous.id);
+    const latest = snapshots[0];
+    if (latest) latestSnapshotAt.set(previous.id, Date.parse(latest.createdAt));
+    if (latest && (isRecent(Date.parse(latest.createdAt)) || sameContent(latest, previous))) {
+        return null;
+    }
+
+    const snapshot = await createSnapshot(previous, 'Autosave', 'auto');
+
+    const stale = [snapshot, ...snapshots]
+        .filter(existing => existing.kind === 'auto')
+        .slice(getMaxAutoSnapshots());
+    await Promise.all(stale.map(existing => deleteSnapshot(previous.id, existing.id)));
+
+    return snapshot;
+}
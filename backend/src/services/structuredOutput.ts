@@ -0,0 +1,115 @@
+import { Action, RelationId, getRelation, isRelationId } from '../types';
+
+// What every provider is asked to return for a generated claim
+export interface GeneratedClaim {
+    claim: string;
+    relation: RelationId;
+    rationale: string;
+}
+
+const MAX_CLAIM_CHARS = 500;
+const MAX_RATIONALE_CHARS = 500;
+
+// Appended to the system message so the reply can be parsed and validated
+export function formatInstruction(action: Action): string {
+    const relation = getRelation(action);
+    return [
+        'Respond with a single JSON object and nothing else, in exactly this shape:',
+        `{"claim": "<the new claim>", "relation": "${relation.id}", "rationale": "<one sentence on why the claim ${relation.verb} the original>"}`,
+        'Do not wrap the JSON in code fences.'
+    ].join('\n');
+}
+
+export class OutputValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'OutputValidationError';
+    }
+}
+
+// Models often wrap JSON in fences or add a sentence around it; take the outermost object
+function extractJsonObject(raw: string): string {
+    const unfenced = raw.replace(/```(?:json)?/gi, '').trim();
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+        throw new OutputValidationError('Response does not contain a JSON object');
+    }
+    return unfenced.slice(start, end + 1);
+}
+
+// Parses and validates a model reply; throws OutputValidationError describing the first problem
+export function parseGeneratedClaim(raw: string, expectedRelation: Action): GeneratedClaim {
+    if (!raw.trim()) {
+        throw new OutputValidationError('Response is empty');
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(extractJsonObject(raw));
+    } catch (error) {
+        if (error instanceof OutputValidationError) throw error;
+        throw new OutputValidationError(`Response is not valid JSON: ${(error as Error).message}`);
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new OutputValidationError('Response must be a JSON object');
+    }
+
+    const { claim, relation, rationale } = parsed as Record<string, unknown>;
+
+    if (typeof claim !== 'string' || !claim.trim()) {
+        throw new OutputValidationError('"claim" must be a non-empty string');
+    }
+    if (claim.length > MAX_CLAIM_CHARS) {
+        throw new OutputValidationError(`"claim" must be at most ${MAX_CLAIM_CHARS} characters`);
+    }
+    if (!isRelationId(relation)) {
+        throw new OutputValidationError(`"relation" must be one of the known relation ids, got ${JSON.stringify(relation)}`);
+    }
+    if (relation !== expectedRelation) {
+        throw new OutputValidationError(`"relation" must be "${expectedRelation}", got "${relation}"`);
+    }
+    if (typeof rationale !== 'string') {
+        throw new OutputValidationError('"rationale" must be a string');
+    }
+
+    return {
+        claim: claim.trim(),
+        relation,
+        rationale: rationale.trim().slice(0, MAX_RATIONALE_CHARS)
+    };
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '', b: '', f: '', '"': '"', '\\': '\\', '/': '/' };
+
+// Reads the (possibly unfinished) "claim" string out of a partial JSON reply, so streamed
+// tokens can be shown as plain text. Returns '' until the claim value has started.
+export function extractPartialClaim(partial: string): string {
+    const match = /"claim"\s*:\s*"/.exec(partial);
+    if (!match) return '';
+
+    let text = '';
+    for (let i = match.index + match[0].length; i < partial.length; i++) {
+        const char = partial[i];
+        if (char === '"') break;
+        if (char !== '\\') {
+            text += char;
+            continue;
+        }
+
+        const next = partial[i + 1];
+        if (next === undefined) break; // Escape split across tokens
+        if (next === 'u') {
+            const hex = partial.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+            text += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            text += ESCAPES[next] ?? next;
+            i += 1;
+        }
+    }
+
+    return text;
+}
@@ -0,0 +1,41 @@
+import { Request, Response, CookieOptions } from 'express';
+import { Session } from './services/sessionStore';
+
+// The session cookie ties a browser to its session (services/sessionStore.ts). It is
+// HttpOnly, so scripts on the page never see it, and outlives the session: expiry is up to
+// the backend, which can push it back on every use. SESSION_COOKIE_CROSS_SITE=true is needed
+// when the frontend is served from another site than the API, which also requires HTTPS.
+
+const SESSION_COOKIE = 'dianoia_session';
+const COOKIE_MAX_AGE_MS = 365 * 24 * 60 * 60 * 1000;
+
+function cookieOptions(): CookieOptions {
+    const crossSite = process.env.SESSION_COOKIE_CROSS_SITE === 'true';
+    return {
+        httpOnly: true,
+        path: '/',
+        sameSite: crossSite ? 'none' : 'lax',
+        secure: crossSite
+    };
+}
+
+export function readSessionId(req: Request): string | undefined {
+    const header = req.headers.cookie;
+    if (!header) return undefined;
+
+    for (const part of header.split(';')) {
+        const separator = part.indexOf('=');
+        if (separator !== -1 && part.slice(0, separator).trim() === SESSION_COOKIE) {
+            return part.slice(separator + 1).trim() || undefined;
+        }
+    }
+    return undefined;
+}
+
+export function setSessionCookie(res: Response, session: Session): void {
+    res.cookie(SESSION_COOKIE, session.id, { ...cookieOptions(), maxAge: COOKIE_MAX_AGE_MS });
+}
+
+export function clearSessionCookie(res: Response): void {
+    res.clearCookie(SESSION_COOKIE, cookieOptions());
+}
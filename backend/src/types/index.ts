@@ -1 +1,2 @@
-export * from '../../../shared/types'; 
\ No newline at end of file
+export * from '../../../shared/types';
+export * from '../../../shared/relations';
@@ -0,0 +1,17 @@
+// Copies the modules the frontend shares with the backend from ../shared into src/shared.
+// Create React App only compiles files under src, so the frontend can't import them from
+// where they live. The copies are git-ignored: edit the originals in shared/.
+const fs = require('fs');
+const path = require('path');
+
+const SHARED_DIR = path.join(__dirname, '..', '..', 'shared');
+const TARGET_DIR = path.join(__dirname, '..', 'src', 'shared');
+const MODULES = ['collab.ts', 'debug.ts', 'relations.ts', 'types.ts'];
+
+fs.mkdirSync(TARGET_DIR, { recursive: true });
+
+MODULES.forEach(file => {
+    const source = fs.readFileSync(path.join(SHARED_DIR, file), 'utf8');
+    const header = `// Generated from shared/${file} by scripts/sync-shared.js; edit that file instead\n`;
+    fs.writeFileSync(path.join(TARGET_DIR, file), header + source);
+});
@@ -1,17 +1,51 @@
 import React, { useCallback, useState, useEffect } from 'react';
+import { ReactFlowProvider } from 'reactflow';
 import { nanoid } from 'nanoid';
 import './App.css';
 import ArgumentCanvas from './components/ArgumentCanvas';
-import { useStore } from './store/useStore';
+import { SyncStatus, useStore } from './store/useStore';
+import { openGraph, startGraphSync } from './store/graphSync';
+import { startCollab } from './store/collab';
+import { startLogShipping } from './services/logShipping';
 import { ArgumentNode } from './types';
 import { APIKeySetup } from './components/APIKeySetup';
 import DebugPanel from './components/DebugPanel';
-import { debug } from './utils/debug';
+import PromptTemplateSettings from './components/PromptTemplateSettings';
+import GraphLibrary from './components/GraphLibrary';
+import FileMenu from './components/FileMenu';
+import SnapshotPanel from './components/SnapshotPanel';
+import PresenceBar from './components/PresenceBar';
+import { debug } from './shared/debug';
+import { readGraphIdFromUrl, writeGraphIdToUrl } from './utils/graphUrl';
+import { fetchRelations, fetchSessionStatus } from './services/api';
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+    idle: '',
+    saving: 'Saving…',
+    saved: 'Saved',
+    offline: 'Offline — changes kept locally',
+    error: 'Sync error — changes kept locally'
+};
 
 const App: React.FC = () => {
-    const { addNode, loadFromLocalStorage } = useStore();
+    const {
+        addNode,
+        loadFromLocalStorage,
+        setRelations,
+        syncStatus,
+        graphId,
+        graphName,
+        history,
+        undo,
+        redo,
+        keySetupReason,
+        setKeySetupReason
+    } = useStore();
     const [apiKeyReady, setApiKeyReady] = useState(!!localStorage.getItem('dianoia_provider'));
     const [debugPanelOpen, setDebugPanelOpen] = useState(false);
+    const [templateSettingsOpen, setTemplateSettingsOpen] = useState(false);
+    const [libraryOpen, setLibraryOpen] = useState(false);
+    const [snapshotsOpen, setSnapshotsOpen] = useState(false);
 
     // Initialize app and load saved state
     useEffect(() => {
@@ -30,6 +64,84 @@ const App: React.FC = () => {
         }
     }, [loadFromLocalStorage, apiKeyReady]);
 
+    // Runs after the cached graph is loaded, then keeps it saved to the backend
+    useEffect(() => startGraphSync(readGraphIdFromUrl()), []);
+
+    // Joins the open graph's collaboration room once it has a backend id
+    useEffect(() => startCollab(), []);
+
+    // The backend keeps the frontend's logs with its own
+    useEffect(() => startLogShipping(), []);
+
+    // Keep the open graph bookmarkable, and follow edits to the URL
+    useEffect(() => {
+        writeGraphIdToUrl(graphId);
+    }, [graphId]);
+
+    useEffect(() => {
+        const handleHashChange = () => {
+            const requestedId = readGraphIdFromUrl();
+            if (!requestedId) return;
+
+            openGraph(requestedId).catch((error) => {
+                debug.trackError(error as Error, 'app', 'open_graph_from_url_error');
+                writeGraphIdToUrl(useStore.getState().graphId);
+                alert(`Could not open graph: ${(error as Error).message}`);
+            });
+        };
+
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (!(event.ctrlKey || event.metaKey)) return;
+
+            const target = event.target as HTMLElement;
+            if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1) return;
+
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                undo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    // The backend decides whether generating works; the localStorage flag only remembers that
+    // a key was set up here once, so losing it gets a re-prompt rather than the first-run screen
+    useEffect(() => {
+        fetchSessionStatus()
+            .then((status) => {
+                debug.info('app', 'session_status', 'Session status loaded', {
+                    configured: status.configured,
+                    source: status.source
+                });
+
+                if (status.configured) {
+                    setApiKeyReady(true);
+                } else if (localStorage.getItem('dianoia_provider')) {
+                    setKeySetupReason('The backend no longer has your API key: it went unused for too long, was forgotten, or the backend was reset. Enter it again to keep generating.');
+                }
+            })
+            .catch((error) => debug.trackError(error as Error, 'app', 'session_status_error'));
+    }, [setKeySetupReason]);
+
+    // Relation types come from the backend registry
+    useEffect(() => {
+        fetchRelations()
+            .then(setRelations)
+            .catch((error) => debug.trackError(error as Error, 'app', 'load_relations_error'));
+    }, [setRelations]);
+
     const handleAddInitialClaim = useCallback(() => {
         debug.info('app', 'add_initial_claim', 'User clicked add initial claim button');
 
@@ -75,39 +187,119 @@ const App: React.FC = () => {
 
     debug.trace('app', 'rendering_main', 'Rendering main app interface');
 
+    // The provider sits above the header so its menus can export what the canvas shows
     return (
-        <div className="App h-screen flex flex-col">
-            <header className="bg-white border-b border-gray-200 px-6 py-4">
-                <div className="flex justify-between items-center">
-                    <h1 className="text-2xl font-bold text-gray-800">
-                        Dianoia - Visual Argumentation Co-Pilot
-                    </h1>
-                    <div className="flex items-center space-x-4">
-                        <button
-                            onClick={handleAddInitialClaim}
-                            className="bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-                        >
-                            ➕ Add Initial Claim
-                        </button>
-                        <button
-                            onClick={handleToggleDebugPanel}
-                            className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
-                        >
-                            🐛 Debug
-                        </button>
+        <ReactFlowProvider>
+            <div className="App h-screen flex flex-col">
+                <header className="bg-white border-b border-gray-200 px-6 py-4">
+                    <div className="flex justify-between items-center">
+                        <div>
+                            <h1 className="text-2xl font-bold text-gray-800">
+                                Dianoia - Visual Argumentation Co-Pilot
+                            </h1>
+                            <div className="text-sm text-gray-500">{graphName}</div>
+                        </div>
+                        <div className="flex items-center space-x-4">
+                            <PresenceBar />
+                            {syncStatus !== 'idle' && (
+                                <span
+                                    className={`text-sm ${syncStatus === 'offline' || syncStatus === 'error' ? 'text-amber-600' : 'text-gray-500'}`}
+                                >
+                                    {SYNC_STATUS_LABELS[syncStatus]}
+                                </span>
+                            )}
+                            <div className="flex">
+                                <button
+                                    onClick={undo}
+                                    disabled={history.past.length === 0}
+                                    title={history.past.length ? `Undo: ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                                    className="border border-gray-300 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white text-gray-700 py-2 px-3 rounded-l-lg"
+                                >
+                                    ↶
+                                </button>
+                                <button
+                                    onClick={redo}
+                                    disabled={history.future.length === 0}
+                                    title={history.future.length ? `Redo: ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                                    className="border border-l-0 border-gray-300 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white text-gray-700 py-2 px-3 rounded-r-lg"
+                                >
+                                    ↷
+                                </button>
+                            </div>
+                            <button
+                                onClick={handleAddInitialClaim}
+                                className="bg-blue-500 hover:bg-blue-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                ➕ Add Initial Claim
+                            </button>
+                            <button
+                                onClick={() => setLibraryOpen(true)}
+                                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                📚 Library
+                            </button>
+                            <button
+                                onClick={() => setSnapshotsOpen(true)}
+                                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                🕓 Versions
+                            </button>
+                            <FileMenu />
+                            <button
+                                onClick={() => setKeySetupReason('')}
+                                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                🔑 Key
+                            </button>
+                            <button
+                                onClick={() => setTemplateSettingsOpen(true)}
+                                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                📝 Prompts
+                            </button>
+                            <button
+                                onClick={handleToggleDebugPanel}
+                                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+                            >
+                                🐛 Debug
+                            </button>
+                        </div>
                     </div>
-                </div>
-            </header>
-
-            <main className="flex-1 bg-gray-50">
-                <ArgumentCanvas />
-            </main>
-
-            <DebugPanel
-                isOpen={debugPanelOpen}
-                onClose={() => setDebugPanelOpen(false)}
-            />
-        </div>
+                </header>
+
+                <main className="flex-1 bg-gray-50">
+                    <ArgumentCanvas />
+                </main>
+
+                <GraphLibrary
+                    isOpen={libraryOpen}
+                    onClose={() => setLibraryOpen(false)}
+                />
+
+                <SnapshotPanel
+                    isOpen={snapshotsOpen}
+                    onClose={() => setSnapshotsOpen(false)}
+                />
+
+                <PromptTemplateSettings
+                    isOpen={templateSettingsOpen}
+                    onClose={() => setTemplateSettingsOpen(false)}
+                />
+
+                <DebugPanel
+                    isOpen={debugPanelOpen}
+                    onClose={() => setDebugPanelOpen(false)}
+                />
+
+                {keySetupReason !== null && (
+                    <APIKeySetup
+                        reason={keySetupReason || undefined}
+                        onSetupComplete={() => setKeySetupReason(null)}
+                        onCancel={() => setKeySetupReason(null)}
+                    />
+                )}
+            </div>
+        </ReactFlowProvider>
     );
 };
 
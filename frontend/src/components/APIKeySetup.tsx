@@ -1,32 +1,47 @@
 import React, { useState, useEffect } from 'react';
-import { setupAPIKey } from '../services/api';
+import { setupAPIKey, fetchProviders, fetchSessionStatus, revokeSession } from '../services/api';
+import { ProviderInfo, SessionStatus } from '../types';
 
 interface APIKeySetupProps {
     onSetupComplete: () => void;
+    reason?: string; // Why the dialog opened, e.g. the backend no longer has the key
+    onCancel?: () => void; // Offered when the app is usable without a (new) key
 }
 
-export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) => {
-    const [provider, setProvider] = useState<'openai' | 'openrouter'>('openrouter');
+const VALIDATION_LABELS: Record<string, string> = {
+    valid: '✓ Key works',
+    invalid: '✗ Key rejected',
+    unknown: '? Could not check the key'
+};
+
+export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete, reason, onCancel }) => {
+    const [providers, setProviders] = useState<ProviderInfo[]>([]);
+    const [provider, setProvider] = useState('openrouter');
     const [apiKey, setApiKey] = useState('');
     const [model, setModel] = useState('');
+    const [baseUrl, setBaseUrl] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState('');
-    const [isVisible, setIsVisible] = useState(false);
+    const [status, setStatus] = useState<SessionStatus | null>(null);
+    const [isChecking, setIsChecking] = useState(false);
 
-    // Check if API key is already configured
+    // Load the providers the backend knows about, and what it has set up for this browser
     useEffect(() => {
-        const storedProvider = localStorage.getItem('dianoia_provider');
-        if (storedProvider) {
-            setIsVisible(false);
-            onSetupComplete();
-        } else {
-            setIsVisible(true);
-        }
-    }, [onSetupComplete]);
+        fetchProviders()
+            .then(setProviders)
+            .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load providers'));
+        fetchSessionStatus()
+            .then(setStatus)
+            .catch(() => setStatus(null));
+    }, []);
+
+    const selectedProvider = providers.find(p => p.id === provider);
+    const requiresApiKey = selectedProvider ? selectedProvider.capabilities.requiresApiKey : true;
+    const acceptsBaseUrl = !!selectedProvider?.capabilities.requiresBaseUrl;
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
-        if (!apiKey.trim()) {
+        if (requiresApiKey && !apiKey.trim()) {
             setError('Please enter your API key');
             return;
         }
@@ -35,8 +50,12 @@ export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) =>
         setError('');
 
         try {
-            await setupAPIKey(provider, apiKey.trim(), model.trim() || undefined);
-            setIsVisible(false);
+            await setupAPIKey(
+                provider,
+                apiKey.trim() || undefined,
+                model.trim() || undefined,
+                acceptsBaseUrl ? baseUrl.trim() || undefined : undefined
+            );
             onSetupComplete();
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to setup API key');
@@ -46,21 +65,93 @@ export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) =>
     };
 
     const getDefaultModel = () => {
-        return provider === 'openai' ? 'text-davinci-003' : 'openai/gpt-3.5-turbo';
+        return selectedProvider?.defaultModel || '';
     };
 
-    if (!isVisible) {
-        return null;
-    }
+    const handleCheck = async () => {
+        setIsChecking(true);
+        setError('');
+        try {
+            setStatus(await fetchSessionStatus(true));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to check the key');
+        } finally {
+            setIsChecking(false);
+        }
+    };
+
+    const handleRevoke = async () => {
+        if (!window.confirm('Make the backend forget this key? Generating needs a key again afterwards.')) return;
+        setError('');
+        try {
+            await revokeSession();
+            setStatus(await fetchSessionStatus());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to forget the key');
+        }
+    };
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-lg p-6 max-w-md w-full mx-4">
-                <h2 className="text-xl font-bold mb-4">Setup API Key</h2>
+                <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-xl font-bold">Setup API Key</h2>
+                    {onCancel && (
+                        <button
+                            onClick={onCancel}
+                            className="text-gray-500 hover:text-gray-700"
+                        >
+                            ✕
+                        </button>
+                    )}
+                </div>
+                {reason && (
+                    <div className="text-amber-700 text-sm bg-amber-50 border border-amber-200 p-2 rounded mb-4">
+                        {reason}
+                    </div>
+                )}
                 <p className="text-gray-600 mb-4">
-                    Enter your API key to start using Dianoia. Your key is stored securely for this session only.
+                    Enter your API key to start using Dianoia. The backend keeps it for this browser until it goes unused for a while or you make it forget the key.
                 </p>
 
+                {status?.configured && (
+                    <div className="text-sm bg-gray-50 border border-gray-200 rounded p-2 mb-4">
+                        <div>
+                            Using <strong>{status.provider}</strong>{status.model ? ` (${status.model})` : ''}
+                            {status.source === 'environment' ? ', set up on the backend' : ''}
+                        </div>
+                        {status.expiresAt && (
+                            <div className="text-xs text-gray-500">
+                                Forgotten if unused until {new Date(status.expiresAt).toLocaleString()}
+                            </div>
+                        )}
+                        {status.validation && (
+                            <div className={`text-xs ${status.validation.status === 'valid' ? 'text-green-700' : 'text-amber-700'}`}>
+                                {VALIDATION_LABELS[status.validation.status]}{status.validation.message ? `: ${status.validation.message}` : ''}
+                            </div>
+                        )}
+                        <div className="flex gap-2 mt-2">
+                            <button
+                                type="button"
+                                onClick={handleCheck}
+                                disabled={isChecking}
+                                className="border border-gray-300 hover:bg-gray-100 disabled:opacity-50 text-gray-700 text-xs px-2 py-1 rounded"
+                            >
+                                {isChecking ? 'Checking...' : 'Check key'}
+                            </button>
+                            {status.source === 'session' && (
+                                <button
+                                    type="button"
+                                    onClick={handleRevoke}
+                                    className="border border-red-300 hover:bg-red-50 text-red-700 text-xs px-2 py-1 rounded"
+                                >
+                                    Forget key
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 <form onSubmit={handleSubmit} className="space-y-4">
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -68,27 +159,50 @@ export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) =>
                         </label>
                         <select
                             value={provider}
-                            onChange={(e) => setProvider(e.target.value as 'openai' | 'openrouter')}
+                            onChange={(e) => setProvider(e.target.value)}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                         >
-                            <option value="openrouter">OpenRouter (Recommended)</option>
-                            <option value="openai">OpenAI</option>
+                            {providers.map(p => (
+                                <option key={p.id} value={p.id}>
+                                    {p.label}{p.id === 'openrouter' ? ' (Recommended)' : ''}{p.capabilities.offline ? ' (Offline)' : ''}
+                                </option>
+                            ))}
                         </select>
                     </div>
 
-                    <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-2">
-                            API Key
-                        </label>
-                        <input
-                            type="password"
-                            value={apiKey}
-                            onChange={(e) => setApiKey(e.target.value)}
-                            placeholder={provider === 'openrouter' ? 'sk-or-v1-...' : 'sk-...'}
-                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                            required
-                        />
-                    </div>
+                    {acceptsBaseUrl && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                Base URL
+                            </label>
+                            <input
+                                type="text"
+                                value={baseUrl}
+                                onChange={(e) => setBaseUrl(e.target.value)}
+                                placeholder={selectedProvider?.defaultBaseUrl}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            />
+                            <p className="text-xs text-gray-500 mt-1">
+                                Any server exposing the OpenAI chat completions API, e.g. llama.cpp or Ollama
+                            </p>
+                        </div>
+                    )}
+
+                    {(requiresApiKey || acceptsBaseUrl) && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                                API Key{requiresApiKey ? '' : ' (Optional)'}
+                            </label>
+                            <input
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => setApiKey(e.target.value)}
+                                placeholder={provider === 'openrouter' ? 'sk-or-v1-...' : 'sk-...'}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                required={requiresApiKey}
+                            />
+                        </div>
+                    )}
 
                     <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -118,7 +232,7 @@ export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) =>
                             disabled={isLoading}
                             className="flex-1 bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
-                            {isLoading ? 'Setting up...' : 'Setup API Key'}
+                            {isLoading ? 'Setting up...' : requiresApiKey ? 'Setup API Key' : 'Use This Provider'}
                         </button>
                     </div>
                 </form>
@@ -126,6 +240,7 @@ export const APIKeySetup: React.FC<APIKeySetupProps> = ({ onSetupComplete }) =>
                 <div className="mt-4 text-xs text-gray-500">
                     <p><strong>OpenRouter:</strong> Get your key at <a href="https://openrouter.ai" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">openrouter.ai</a></p>
                     <p><strong>OpenAI:</strong> Get your key at <a href="https://platform.openai.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">platform.openai.com</a></p>
+                    <p><strong>Offline mock:</strong> No key needed; returns deterministic placeholder claims for demos and tests</p>
                 </div>
             </div>
         </div>
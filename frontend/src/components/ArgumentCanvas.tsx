@@ -1,35 +1,79 @@
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import ReactFlow, {
-    Node,
-    Edge,
+    MarkerType,
     NodeChange,
-    EdgeChange,
     Connection,
-    addEdge,
-    useNodesState,
-    useEdgesState,
-    ReactFlowProvider,
     Controls,
     Background,
 } from 'reactflow';
 import 'reactflow/dist/style.css';
 import { useStore } from '../store/useStore';
 import ArgumentNode from './ArgumentNode';
+import ArgumentEdge from './ArgumentEdge';
+import EdgeInspector from './EdgeInspector';
 import InteractionPanel from './InteractionPanel';
+import RelationPicker from './RelationPicker';
+import CompareBanner from './CompareBanner';
+import { findRelation } from '../utils/relations';
+import { connectionError } from '../utils/graphEdit';
+import { compareGraphs } from '../utils/graphDiff';
 
 const nodeTypes = {
     argumentNode: ArgumentNode,
 };
 
+const edgeTypes = {
+    argumentEdge: ArgumentEdge,
+};
+
 export default function ArgumentCanvas() {
     const {
         nodes,
         edges,
         selectedNode,
         setNodes,
-        setEdges,
-        loadFromLocalStorage
+        removeNodes,
+        removeEdges,
+        connectNodes,
+        loadFromLocalStorage,
+        relations,
+        beginHistoryGroup,
+        endHistoryGroup,
+        updateNodeData,
+        autoLayout,
+        setAutoLayout,
+        tidyLayout,
+        selectedEdgeId,
+        setSelectedEdgeId,
+        comparison
     } = useStore();
+    // Connection dragged between two handles, waiting for its relation to be picked
+    const [pendingConnection, setPendingConnection] = useState<{ source: string; target: string } | null>(null);
+
+    // While versions are compared the canvas shows both, marked up, and can't be edited
+    const compared = useMemo(
+        () => comparison ? compareGraphs(comparison.from, comparison.to || { nodes, edges }) : null,
+        [comparison, nodes, edges]
+    );
+    const shownNodes = compared ? compared.nodes : nodes;
+    const shownEdges = compared ? compared.edges : edges;
+
+    // ArgumentEdge draws each relation; the arrow points from the response to the claim it
+    // responds to, and only edges to a claim still streaming in are animated
+    const renderedEdges = useMemo(() => {
+        const pendingIds = new Set(shownNodes.filter(node => node.data.pending).map(node => node.id));
+        return shownEdges.map(edge => ({
+            ...edge,
+            selected: edge.id === selectedEdgeId,
+            animated: pendingIds.has(edge.target),
+            markerStart: {
+                type: MarkerType.ArrowClosed,
+                color: findRelation(relations, edge.data.relation).color
+            }
+        }));
+    }, [shownNodes, shownEdges, relations, selectedEdgeId]);
+
+    const selectedEdge = edges.find(edge => edge.id === selectedEdgeId);
 
     // Load saved data on mount
     useEffect(() => {
@@ -38,6 +82,7 @@ export default function ArgumentCanvas() {
 
     const onNodesChange = useCallback(
         (changes: NodeChange[]) => {
+            if (comparison) return;
             const updatedNodes = changes.reduce((acc, change) => {
                 if (change.type === 'position' && change.position) {
                     const nodeIndex = acc.findIndex(n => n.id === change.id);
@@ -49,46 +94,133 @@ export default function ArgumentCanvas() {
             }, [...nodes]);
             setNodes(updatedNodes);
         },
-        [nodes, setNodes]
+        [nodes, setNodes, comparison]
     );
 
-    const onEdgesChange = useCallback(
-        (changes: EdgeChange[]) => {
-            // For now, we don't allow edge changes in the MVP
-            // This can be extended later for manual edge creation
-        },
-        [setEdges]
+    // Edges run from the claim being responded to (source handle) to the response (target handle)
+    const isValidConnection = useCallback(
+        (connection: Connection) => !!connection.source && !!connection.target &&
+            !connectionError(edges, connection.source, connection.target),
+        [edges]
     );
 
     const onConnect = useCallback(
-        (params: Connection) => {
-            // For now, we don't allow manual connections in the MVP
-            // All connections are created automatically when generating arguments
+        (connection: Connection) => {
+            if (!connection.source || !connection.target) return;
+            setPendingConnection({ source: connection.source, target: connection.target });
         },
-        [setEdges]
+        []
     );
 
+    const handlePickRelation = (relation: string) => {
+        if (pendingConnection) {
+            connectNodes(pendingConnection.source, pendingConnection.target, relation);
+        }
+        setPendingConnection(null);
+    };
+
+    // Delete/Backspace removes the selected relation, or else the selected claim with its links
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== 'Delete' && event.key !== 'Backspace') return;
+            if (comparison) return;
+
+            const target = event.target as HTMLElement;
+            if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].indexOf(target.tagName) !== -1) return;
+
+            if (selectedEdgeId) {
+                event.preventDefault();
+                removeEdges([selectedEdgeId]);
+                setSelectedEdgeId(null);
+            } else if (selectedNode && !selectedNode.data.pending) {
+                event.preventDefault();
+                removeNodes([selectedNode.id], 'cascade');
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [selectedEdgeId, selectedNode, removeEdges, removeNodes, setSelectedEdgeId, comparison]);
+
+    // With auto-layout on, a claim placed by hand is pinned so the next insertion leaves it there
+    const handleDragStop = (nodeIds: string[]) => {
+        if (autoLayout) {
+            nodeIds.forEach(nodeId => updateNodeData(nodeId, { pinned: true }));
+        }
+        endHistoryGroup();
+    };
+
+    const nodeLabel = (nodeId: string) => nodes.find(node => node.id === nodeId)?.data.label || '';
+
     return (
         <div className="w-full h-full relative">
-            <ReactFlowProvider>
-                <ReactFlow
-                    nodes={nodes}
-                    edges={edges}
-                    onNodesChange={onNodesChange}
-                    onEdgesChange={onEdgesChange}
-                    onConnect={onConnect}
-                    nodeTypes={nodeTypes}
-                    fitView
-                    attributionPosition="bottom-left"
-                >
-                    <Controls />
-                    <Background />
-                </ReactFlow>
-            </ReactFlowProvider>
-
-            {selectedNode && (
+            <ReactFlow
+                nodes={shownNodes}
+                edges={renderedEdges}
+                onNodesChange={onNodesChange}
+                onConnect={onConnect}
+                isValidConnection={isValidConnection}
+                onEdgeClick={(event, edge) => !comparison && setSelectedEdgeId(edge.id)}
+                onNodeClick={() => setSelectedEdgeId(null)}
+                onPaneClick={() => setSelectedEdgeId(null)}
+                deleteKeyCode={null}
+                nodesDraggable={!comparison}
+                nodesConnectable={!comparison}
+                elementsSelectable={!comparison}
+                onNodeDragStart={() => beginHistoryGroup('Move claims')}
+                onNodeDragStop={(event, node, draggedNodes) => handleDragStop(draggedNodes.map(n => n.id))}
+                onSelectionDragStart={() => beginHistoryGroup('Move claims')}
+                onSelectionDragStop={(event, draggedNodes) => handleDragStop(draggedNodes.map(n => n.id))}
+                nodeTypes={nodeTypes}
+                edgeTypes={edgeTypes}
+                fitView
+                attributionPosition="bottom-left"
+            >
+                <Controls />
+                <Background />
+            </ReactFlow>
+
+            {selectedNode && !comparison && (
                 <InteractionPanel selectedNode={selectedNode} />
             )}
+
+            {comparison && compared && (
+                <CompareBanner source={comparison} comparison={compared} />
+            )}
+
+            {!comparison && (
+                <div className="absolute bottom-4 right-4 bg-white border border-gray-300 rounded-lg shadow p-2 z-10 flex items-center space-x-3 text-sm">
+                    <button
+                        onClick={tidyLayout}
+                        className="border border-gray-300 hover:bg-gray-100 text-gray-700 py-1 px-3 rounded transition-colors"
+                        title="Lay the graph out as a tree; pinned claims stay where they are"
+                    >
+                        🧹 Tidy up
+                    </button>
+                    <label className="flex items-center space-x-1 text-gray-700" title="Lay the graph out again whenever a claim or relation is added">
+                        <input
+                            type="checkbox"
+                            checked={autoLayout}
+                            onChange={(e) => setAutoLayout(e.target.checked)}
+                        />
+                        <span>Auto-layout</span>
+                    </label>
+                </div>
+            )}
+
+            {selectedEdge && !comparison && (
+                <EdgeInspector edge={selectedEdge} />
+            )}
+
+            {pendingConnection && (
+                <RelationPicker
+                    sourceLabel={nodeLabel(pendingConnection.source)}
+                    targetLabel={nodeLabel(pendingConnection.target)}
+                    relations={relations}
+                    onPick={handlePickRelation}
+                    onCancel={() => setPendingConnection(null)}
+                />
+            )}
         </div>
     );
 } 
\ No newline at end of file
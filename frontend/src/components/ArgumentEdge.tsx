@@ -0,0 +1,81 @@
+import React from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, getBezierPath } from 'reactflow';
+import { Action } from '../types';
+import { useStore } from '../store/useStore';
+import { findRelation } from '../utils/relations';
+
+interface ArgumentEdgeData {
+    relation: Action;
+    diff?: 'added' | 'removed' | 'changed' | 'unchanged';
+    previousRelation?: Action;
+}
+
+// Compare view prefix for the badge
+const DIFF_PREFIX: Record<string, string> = { added: '＋ ', removed: '− ' };
+
+// Coloured and dashed by relation, with a badge at the midpoint that also selects the edge
+export default function ArgumentEdge({
+    id,
+    sourceX,
+    sourceY,
+    targetX,
+    targetY,
+    sourcePosition,
+    targetPosition,
+    data,
+    selected,
+    markerStart,
+    markerEnd
+}: EdgeProps<ArgumentEdgeData>) {
+    const relations = useStore(state => state.relations);
+    const setSelectedEdgeId = useStore(state => state.setSelectedEdgeId);
+    const relation = findRelation(relations, data?.relation || '');
+    const diff = data?.diff;
+    const previousRelation = data?.previousRelation ? findRelation(relations, data.previousRelation) : null;
+
+    const [path, labelX, labelY] = getBezierPath({
+        sourceX,
+        sourceY,
+        sourcePosition,
+        targetX,
+        targetY,
+        targetPosition
+    });
+
+    return (
+        <>
+            <BaseEdge
+                id={id}
+                path={path}
+                markerStart={markerStart}
+                markerEnd={markerEnd}
+                interactionWidth={20}
+                style={{
+                    stroke: relation.color,
+                    strokeWidth: selected || diff === 'added' || diff === 'changed' ? 4 : 2,
+                    strokeDasharray: relation.dashed || diff === 'removed' ? '6 4' : undefined,
+                    strokeOpacity: diff === 'removed' ? 0.4 : 1
+                }}
+            />
+            <EdgeLabelRenderer>
+                <button
+                    onClick={() => !diff && setSelectedEdgeId(id)}
+                    style={{
+                        position: 'absolute',
+                        transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`,
+                        pointerEvents: 'all',
+                        borderColor: relation.color,
+                        color: relation.color,
+                        opacity: diff === 'removed' ? 0.6 : 1
+                    }}
+                    className={`nodrag nopan bg-white border rounded-full px-2 py-0.5 text-xs font-medium ${selected ? 'shadow-md ring-2 ring-offset-1' : 'shadow-sm'}`}
+                    title="Inspect this relation"
+                >
+                    {diff && DIFF_PREFIX[diff]}
+                    {previousRelation && <span className="line-through mr-1">{previousRelation.label}</span>}
+                    {relation.icon} {relation.label}
+                </button>
+            </EdgeLabelRenderer>
+        </>
+    );
+}
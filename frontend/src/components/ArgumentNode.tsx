@@ -1,17 +1,33 @@
 import React, { useState, useCallback } from 'react';
 import { Handle, Position, NodeProps } from 'reactflow';
-import { ArgumentNode as ArgumentNodeType } from '../types';
 import { useStore } from '../store/useStore';
+import { cherryPickNodes } from '../utils/graphDiff';
 
 interface ArgumentNodeData {
     label: string;
+    title?: string;
     author: 'user' | 'llm';
+    rationale?: string;
+    pinned?: boolean;
+    pending?: boolean;
+    diff?: 'added' | 'removed' | 'relabelled' | 'unchanged';
+    previousLabel?: string;
 }
 
+// Compare view markup per change
+const DIFF_STYLES: Record<string, { className: string; badge: string }> = {
+    added: { className: 'ring-4 ring-green-400', badge: '＋ Added' },
+    removed: { className: 'opacity-50 border-dashed ring-4 ring-red-300', badge: '− Removed' },
+    relabelled: { className: 'ring-4 ring-amber-400', badge: '✎ Relabelled' }
+};
+
 export default function ArgumentNode({ data, id, selected }: NodeProps<ArgumentNodeData>) {
     const [isEditing, setIsEditing] = useState(false);
     const [editValue, setEditValue] = useState(data.label);
-    const { updateNodeLabel, setSelectedNode } = useStore();
+    const { updateNodeLabel, updateNodeData, setSelectedNode } = useStore();
+    const comparingWithCurrent = useStore(state => !!state.comparison && !state.comparison.to);
+    const peers = useStore(state => state.peers);
+    const viewers = data.diff ? [] : peers.filter(peer => peer.selectedNodeId === id);
 
     const handleDoubleClick = useCallback(() => {
         setIsEditing(true);
@@ -34,20 +50,57 @@ export default function ArgumentNode({ data, id, selected }: NodeProps<ArgumentN
         }
     }, [handleEditSubmit, data.label]);
 
+    // Select the stored node so its real position goes along with generate requests
     const handleClick = useCallback(() => {
-        setSelectedNode({ id, type: 'argumentNode', position: { x: 0, y: 0 }, data });
-    }, [id, data, setSelectedNode]);
+        if (data.diff) return;
+        setSelectedNode(useStore.getState().nodes.find(node => node.id === id) || null);
+    }, [id, data.diff, setSelectedNode]);
+
+    const handleTogglePinned = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        if (data.diff) return;
+        updateNodeData(id, { pinned: !data.pinned });
+    }, [id, data.pinned, data.diff, updateNodeData]);
+
+    // Compare view against the open graph: take this claim back from the older version
+    const handleBringBack = useCallback((e: React.MouseEvent) => {
+        e.stopPropagation();
+        const { comparison, nodes, edges, replaceGraph } = useStore.getState();
+        if (!comparison) return;
+
+        const graph = cherryPickNodes({ nodes, edges }, comparison.from, [id]);
+        replaceGraph(graph.nodes, graph.edges, data.diff === 'removed' ? 'Bring back claim' : 'Restore claim text');
+    }, [id, data.diff]);
+
+    const diffStyle = data.diff ? DIFF_STYLES[data.diff] : undefined;
+    const canBringBack = (data.diff === 'removed' || data.diff === 'relabelled') && comparingWithCurrent;
 
     const bgColor = data.author === 'user' ? 'bg-blue-50' : 'bg-green-50';
     const borderColor = selected ? 'border-blue-500' : 'border-gray-300';
 
     return (
         <div
-            className={`${bgColor} border-2 ${borderColor} rounded-lg p-4 min-w-[200px] max-w-[300px] shadow-md`}
+            className={`relative ${bgColor} border-2 ${borderColor} rounded-lg p-4 min-w-[200px] max-w-[300px] shadow-md ${diffStyle ? diffStyle.className : ''}`}
+            style={viewers.length > 0 ? { boxShadow: `0 0 0 3px ${viewers[0].color}` } : undefined}
             onClick={handleClick}
         >
             <Handle type="target" position={Position.Top} className="w-3 h-3" />
 
+            {/* Collaborators who have this claim selected */}
+            {viewers.length > 0 && (
+                <div className="absolute -top-3 right-2 flex gap-1">
+                    {viewers.map(peer => (
+                        <span
+                            key={peer.clientId}
+                            className="text-xs text-white rounded px-1 max-w-[100px] truncate"
+                            style={{ backgroundColor: peer.color }}
+                        >
+                            {peer.name}
+                        </span>
+                    ))}
+                </div>
+            )}
+
             {isEditing ? (
                 <textarea
                     value={editValue}
@@ -61,14 +114,45 @@ export default function ArgumentNode({ data, id, selected }: NodeProps<ArgumentN
             ) : (
                 <div
                     className="cursor-text select-none"
-                    onDoubleClick={handleDoubleClick}
+                    onDoubleClick={data.pending || data.diff ? undefined : handleDoubleClick}
                 >
-                    {data.label}
+                    {diffStyle && (
+                        <div className="flex justify-between items-center text-xs font-semibold text-gray-600 mb-1">
+                            <span>{diffStyle.badge}</span>
+                            {canBringBack && (
+                                <button
+                                    onClick={handleBringBack}
+                                    className="border border-gray-300 bg-white hover:bg-gray-100 rounded px-1"
+                                    title={data.diff === 'removed' ? 'Add this claim back to the graph' : 'Put the older text back'}
+                                >
+                                    ↩ Bring back
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {data.previousLabel !== undefined && (
+                        <div className="text-xs text-red-700 line-through mb-1">{data.previousLabel}</div>
+                    )}
+                    {data.title && <div className="text-xs font-semibold text-gray-500 mb-1">[{data.title}]</div>}
+                    {data.pending && !data.label ? (
+                        <span className="italic text-gray-400">Thinking...</span>
+                    ) : data.label}
+                    {data.pending && <span className="animate-pulse">▍</span>}
                 </div>
             )}
 
-            <div className="text-xs text-gray-500 mt-2">
-                {data.author === 'user' ? '👤 You' : '🤖 AI'}
+            <div className="flex justify-between items-center text-xs text-gray-500 mt-2">
+                <span title={data.rationale}>
+                    {data.author === 'user' ? '👤 You' : '🤖 AI'}
+                    {data.rationale && <span className="ml-1 cursor-help">ⓘ</span>}
+                </span>
+                <button
+                    onClick={handleTogglePinned}
+                    className={data.pinned ? '' : 'opacity-30 hover:opacity-70'}
+                    title={data.pinned ? 'Pinned: automatic layout leaves this claim in place' : 'Pin in place during automatic layout'}
+                >
+                    📌
+                </button>
             </div>
 
             <Handle type="source" position={Position.Bottom} className="w-3 h-3" />
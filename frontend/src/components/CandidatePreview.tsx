@@ -0,0 +1,71 @@
+import React from 'react';
+
+export interface CandidateDraft {
+    id: string; // Id of the candidate's node
+    label: string; // Possibly edited by the user
+    selected: boolean;
+}
+
+interface CandidatePreviewProps {
+    candidates: CandidateDraft[];
+    onChange: (candidates: CandidateDraft[]) => void;
+    onAccept: () => void;
+    onDiscard: () => void;
+}
+
+export default function CandidatePreview({ candidates, onChange, onAccept, onDiscard }: CandidatePreviewProps) {
+    const updateCandidate = (id: string, updates: Partial<CandidateDraft>) => {
+        onChange(candidates.map(c => (c.id === id ? { ...c, ...updates } : c)));
+    };
+
+    const selectedCount = candidates.filter(c => c.selected && c.label.trim()).length;
+
+    return (
+        <div className="mt-3 border-t border-gray-200 pt-3 w-72">
+            <h4 className="text-xs font-semibold text-gray-600 mb-2">
+                Pick the claims to add ({candidates.length} candidates):
+            </h4>
+
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+                {candidates.map((candidate, index) => (
+                    <div
+                        key={candidate.id}
+                        className={`border rounded p-2 ${candidate.selected ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                    >
+                        <label className="flex items-center text-xs text-gray-500 mb-1">
+                            <input
+                                type="checkbox"
+                                checked={candidate.selected}
+                                onChange={(e) => updateCandidate(candidate.id, { selected: e.target.checked })}
+                                className="mr-2"
+                            />
+                            Option {index + 1}
+                        </label>
+                        <textarea
+                            value={candidate.label}
+                            onChange={(e) => updateCandidate(candidate.id, { label: e.target.value })}
+                            className="w-full text-sm p-1 border border-gray-200 rounded resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            rows={3}
+                        />
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex space-x-2 mt-2">
+                <button
+                    onClick={onAccept}
+                    disabled={selectedCount === 0}
+                    className="flex-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white text-sm font-medium py-1 px-2 rounded transition-colors"
+                >
+                    ✔ Add {selectedCount || ''}
+                </button>
+                <button
+                    onClick={onDiscard}
+                    className="flex-1 border border-gray-300 hover:bg-gray-100 text-gray-700 text-sm py-1 px-2 rounded transition-colors"
+                >
+                    ✖ Discard all
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { useStore } from '../store/useStore';
+import { ComparisonSource, GraphComparison } from '../utils/graphDiff';
+
+interface CompareBannerProps {
+    source: ComparisonSource;
+    comparison: GraphComparison;
+}
+
+// Shown over the canvas while two versions are compared; the canvas is read-only meanwhile
+export default function CompareBanner({ source, comparison }: CompareBannerProps) {
+    const { replaceGraph, setComparison } = useStore();
+    const { added, removed, relabelled, edgesChanged } = comparison.counts;
+    const unchanged = added + removed + relabelled + edgesChanged === 0;
+
+    const handleRestore = () => {
+        if (!window.confirm(`Replace the graph with "${source.from.name}"? You can undo this.`)) return;
+        replaceGraph(source.from.nodes, source.from.edges, `Restore "${source.from.name}"`);
+        setComparison(null);
+    };
+
+    return (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-white border border-gray-300 rounded-lg shadow-lg p-3 z-10 text-sm max-w-2xl">
+            <div className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                    <div className="font-semibold text-gray-700 truncate">
+                        {source.from.name} → {source.to ? source.to.name : 'current graph'}
+                    </div>
+                    <div className="text-xs text-gray-600">
+                        {unchanged ? 'No differences' : (
+                            <>
+                                <span className="text-green-700">+{added} added</span>
+                                {' · '}
+                                <span className="text-red-700">−{removed} removed</span>
+                                {' · '}
+                                <span className="text-amber-700">{relabelled} relabelled</span>
+                                {' · '}
+                                <span className="text-gray-700">{edgesChanged} relations changed</span>
+                            </>
+                        )}
+                    </div>
+                    {!source.to && (removed > 0 || relabelled > 0) && (
+                        <div className="text-xs text-gray-500">Use ↩ on a removed or relabelled claim to bring it back</div>
+                    )}
+                </div>
+                <button
+                    onClick={handleRestore}
+                    className="border border-gray-300 hover:bg-gray-100 text-gray-700 py-1 px-3 rounded"
+                    title={`Replace the open graph with "${source.from.name}"`}
+                >
+                    Restore “{source.from.name}”
+                </button>
+                <button
+                    onClick={() => setComparison(null)}
+                    className="bg-blue-500 hover:bg-blue-600 text-white py-1 px-3 rounded"
+                >
+                    Done
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -1,17 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { debug } from '../utils/debug';
+import { debug, LogEntry } from '../shared/debug';
+import { fetchBackendTrace } from '../services/api';
+import PerformanceView from './PerformanceView';
 
 interface DebugPanelProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
+type TraceEntry = LogEntry & { side: 'browser' | 'server' };
+
+function requestIdOf(entry: LogEntry): string | undefined {
+    return entry.context?.requestId;
+}
+
+// Both sides of one request in time order: this tab's entries and the backend's own. The
+// copies the backend got from the frontend are only used once this tab no longer has them.
+function mergeTrace(local: LogEntry[], backend: LogEntry[]): TraceEntry[] {
+    const shipped = backend.filter(entry => entry.context?.source === 'frontend');
+    const browser: TraceEntry[] = (local.length > 0 ? local : shipped).map(entry => ({ ...entry, side: 'browser' }));
+    const server: TraceEntry[] = backend
+        .filter(entry => entry.context?.source !== 'frontend')
+        .map(entry => ({ ...entry, side: 'server' }));
+
+    return browser.concat(server).sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+}
+
 const DebugPanel: React.FC<DebugPanelProps> = ({ isOpen, onClose }) => {
     const [logs, setLogs] = useState<any[]>([]);
     const [config, setConfig] = useState<any>({});
     const [autoRefresh, setAutoRefresh] = useState(true);
     const [filterLevel, setFilterLevel] = useState<string>('all');
     const [filterComponent, setFilterComponent] = useState<string>('all');
+    const [view, setView] = useState<'logs' | 'requests' | 'performance'>('logs');
+    const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+    const [trace, setTrace] = useState<TraceEntry[]>([]);
+    const [traceError, setTraceError] = useState<string | null>(null);
+    const [traceLoading, setTraceLoading] = useState(false);
 
     // Refresh logs periodically
     useEffect(() => {
@@ -62,6 +87,32 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ isOpen, onClose }) => {
         setConfig(debug.getConfig());
     };
 
+    const handleSelectRequest = async (requestId: string) => {
+        setSelectedRequestId(requestId);
+        setTraceLoading(true);
+        setTraceError(null);
+
+        const local = debug.getLogs().filter(entry => requestIdOf(entry) === requestId);
+        try {
+            setTrace(mergeTrace(local, await fetchBackendTrace(requestId)));
+        } catch (error) {
+            setTrace(mergeTrace(local, []));
+            setTraceError((error as Error).message);
+        } finally {
+            setTraceLoading(false);
+        }
+    };
+
+    // Requests made from this tab, newest first
+    const requests = logs
+        .filter(log => log.component === 'api' && log.action === 'request' && requestIdOf(log))
+        .reverse();
+
+    const statusOf = (requestId: string): number | undefined => {
+        const response = logs.find(log => log.component === 'api' && log.action === 'response' && requestIdOf(log) === requestId);
+        return response?.data?.status;
+    };
+
     const filteredLogs = logs.filter(log => {
         if (filterLevel !== 'all' && log.level !== filterLevel) return false;
         if (filterComponent !== 'all' && log.component !== filterComponent) return false;
@@ -212,59 +263,150 @@ const DebugPanel: React.FC<DebugPanelProps> = ({ isOpen, onClose }) => {
 
                     {/* Logs Display */}
                     <div className="flex-1 flex flex-col">
-                        <div className="p-4 border-b">
-                            <h3 className="font-semibold">Debug Logs</h3>
+                        <div className="p-4 border-b flex gap-4">
+                            <button
+                                onClick={() => setView('logs')}
+                                className={`font-semibold ${view === 'logs' ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                Debug Logs
+                            </button>
+                            <button
+                                onClick={() => setView('requests')}
+                                className={`font-semibold ${view === 'requests' ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                Requests
+                            </button>
+                            <button
+                                onClick={() => setView('performance')}
+                                className={`font-semibold ${view === 'performance' ? 'text-blue-600' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                Performance
+                            </button>
                         </div>
-                        <div className="flex-1 overflow-auto p-4">
-                            <div className="space-y-2">
-                                {filteredLogs.length === 0 ? (
-                                    <div className="text-gray-500 text-center py-8">
-                                        No logs to display
-                                    </div>
-                                ) : (
-                                    filteredLogs.map((log, index) => (
-                                        <div
-                                            key={index}
-                                            className={`p-3 rounded border ${getLevelColor(log.level)}`}
-                                        >
-                                            <div className="flex justify-between items-start mb-1">
-                                                <div className="font-mono text-xs">
-                                                    [{log.timestamp}] [{log.level.toUpperCase()}] [{log.component}]
-                                                </div>
-                                                <div className="text-xs opacity-75">
-                                                    {log.action}
+                        {view === 'performance' ? (
+                            <div className="flex-1 overflow-auto p-4">
+                                <PerformanceView />
+                            </div>
+                        ) : view === 'requests' ? (
+                            <div className="flex-1 flex min-h-0">
+                                <div className="w-1/3 border-r overflow-auto">
+                                    {requests.length === 0 ? (
+                                        <div className="text-gray-500 text-center py-8">
+                                            No requests logged
+                                        </div>
+                                    ) : (
+                                        requests.map(request => {
+                                            const requestId = requestIdOf(request) as string;
+                                            const status = statusOf(requestId);
+                                            return (
+                                                <button
+                                                    key={requestId}
+                                                    onClick={() => handleSelectRequest(requestId)}
+                                                    className={`w-full text-left px-3 py-2 border-b text-xs hover:bg-gray-50 ${selectedRequestId === requestId ? 'bg-blue-50' : ''}`}
+                                                >
+                                                    <div className="flex justify-between">
+                                                        <span className="font-mono text-gray-500">{request.timestamp.slice(11, 23)}</span>
+                                                        <span className={status && status >= 400 ? 'text-red-600' : 'text-gray-600'}>
+                                                            {status || '…'}
+                                                        </span>
+                                                    </div>
+                                                    <div className="truncate" title={request.message}>{request.message}</div>
+                                                </button>
+                                            );
+                                        })
+                                    )}
+                                </div>
+                                <div className="flex-1 overflow-auto p-4">
+                                    {!selectedRequestId ? (
+                                        <div className="text-gray-500 text-center py-8">
+                                            Select a request to see what the browser and the backend did for it
+                                        </div>
+                                    ) : traceLoading ? (
+                                        <div className="text-gray-500 text-center py-8">Loading trace…</div>
+                                    ) : (
+                                        <div className="space-y-1">
+                                            <div className="font-mono text-xs text-gray-500 mb-2">{selectedRequestId}</div>
+                                            {traceError && (
+                                                <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-2 mb-2">
+                                                    {traceError}; showing the browser side only.
                                                 </div>
-                                            </div>
-                                            <div className="text-sm mb-2">{log.message}</div>
-                                            {log.data && (
-                                                <details className="text-xs">
-                                                    <summary className="cursor-pointer">Data</summary>
-                                                    <pre className="mt-1 bg-white bg-opacity-50 p-2 rounded overflow-auto">
-                                                        {JSON.stringify(log.data, null, 2)}
-                                                    </pre>
-                                                </details>
-                                            )}
-                                            {log.context && (
-                                                <details className="text-xs">
-                                                    <summary className="cursor-pointer">Context</summary>
-                                                    <pre className="mt-1 bg-white bg-opacity-50 p-2 rounded overflow-auto">
-                                                        {JSON.stringify(log.context, null, 2)}
-                                                    </pre>
-                                                </details>
                                             )}
-                                            {log.error && (
-                                                <details className="text-xs">
-                                                    <summary className="cursor-pointer text-red-600">Error Details</summary>
-                                                    <pre className="mt-1 bg-red-50 p-2 rounded overflow-auto">
-                                                        {JSON.stringify(log.error, null, 2)}
+                                            {trace.map((entry, index) => (
+                                                <details key={index} className="text-xs">
+                                                    <summary className={`cursor-pointer flex gap-2 items-baseline p-1 rounded ${entry.component === 'performance' ? 'bg-purple-50' : ''}`}>
+                                                        <span className="w-20 text-right font-mono text-gray-500">
+                                                            +{Date.parse(entry.timestamp) - Date.parse(trace[0].timestamp)}ms
+                                                        </span>
+                                                        <span className={`w-16 text-center rounded ${entry.side === 'browser' ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'}`}>
+                                                            {entry.side === 'browser' ? 'Browser' : 'Backend'}
+                                                        </span>
+                                                        <span className="font-mono">[{entry.component}] {entry.action}</span>
+                                                        <span className="flex-1">{entry.message}</span>
+                                                        {entry.data?.duration && (
+                                                            <span className="text-purple-700 font-mono">{entry.data.duration}</span>
+                                                        )}
+                                                    </summary>
+                                                    <pre className="mt-1 ml-24 bg-gray-50 p-2 rounded overflow-auto">
+                                                        {JSON.stringify({ data: entry.data, error: entry.error, context: entry.context }, null, 2)}
                                                     </pre>
                                                 </details>
-                                            )}
+                                            ))}
                                         </div>
-                                    ))
-                                )}
+                                    )}
+                                </div>
                             </div>
-                        </div>
+                        ) : (
+                            <div className="flex-1 overflow-auto p-4">
+                                <div className="space-y-2">
+                                    {filteredLogs.length === 0 ? (
+                                        <div className="text-gray-500 text-center py-8">
+                                            No logs to display
+                                        </div>
+                                    ) : (
+                                        filteredLogs.map((log, index) => (
+                                            <div
+                                                key={index}
+                                                className={`p-3 rounded border ${getLevelColor(log.level)}`}
+                                            >
+                                                <div className="flex justify-between items-start mb-1">
+                                                    <div className="font-mono text-xs">
+                                                        [{log.timestamp}] [{log.level.toUpperCase()}] [{log.component}]
+                                                    </div>
+                                                    <div className="text-xs opacity-75">
+                                                        {log.action}
+                                                    </div>
+                                                </div>
+                                                <div className="text-sm mb-2">{log.message}</div>
+                                                {log.data && (
+                                                    <details className="text-xs">
+                                                        <summary className="cursor-pointer">Data</summary>
+                                                        <pre className="mt-1 bg-white bg-opacity-50 p-2 rounded overflow-auto">
+                                                            {JSON.stringify(log.data, null, 2)}
+                                                        </pre>
+                                                    </details>
+                                                )}
+                                                {log.context && (
+                                                    <details className="text-xs">
+                                                        <summary className="cursor-pointer">Context</summary>
+                                                        <pre className="mt-1 bg-white bg-opacity-50 p-2 rounded overflow-auto">
+                                                            {JSON.stringify(log.context, null, 2)}
+                                                        </pre>
+                                                    </details>
+                                                )}
+                                                {log.error && (
+                                                    <details className="text-xs">
+                                                        <summary className="cursor-pointer text-red-600">Error Details</summary>
+                                                        <pre className="mt-1 bg-red-50 p-2 rounded overflow-auto">
+                                                            {JSON.stringify(log.error, null, 2)}
+                                                        </pre>
+                                                    </details>
+                                                )}
+                                            </div>
+                                        ))
+                                    )}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ArgumentEdge } from '../types';
+import { useStore } from '../store/useStore';
+import { findRelation } from '../utils/relations';
+
+interface EdgeInspectorProps {
+    edge: ArgumentEdge;
+}
+
+// Details of the selected relation: which claims it links, what kind it is, and removal
+export default function EdgeInspector({ edge }: EdgeInspectorProps) {
+    const { nodes, relations, updateEdgeRelation, removeEdges, setSelectedEdgeId } = useStore();
+    const source = nodes.find(node => node.id === edge.source);
+    const target = nodes.find(node => node.id === edge.target);
+    const relation = findRelation(relations, edge.data.relation);
+
+    return (
+        <div className="absolute top-4 left-4 w-80 bg-white border border-gray-300 rounded-lg shadow-lg p-4 z-10 text-sm">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="font-semibold text-gray-700">Relation</h3>
+                <button
+                    onClick={() => setSelectedEdgeId(null)}
+                    className="text-gray-500 hover:text-gray-700"
+                >
+                    ✕
+                </button>
+            </div>
+
+            <div className="space-y-2 mb-3">
+                <div className="border rounded p-2 bg-gray-50">
+                    <div className="text-xs text-gray-500">Response</div>
+                    <div className="text-gray-800 line-clamp-3">{target?.data.label}</div>
+                </div>
+                <div className="text-center font-medium" style={{ color: relation.color }}>
+                    {relation.icon} {relation.verb}
+                </div>
+                <div className="border rounded p-2 bg-gray-50">
+                    <div className="text-xs text-gray-500">Claim</div>
+                    <div className="text-gray-800 line-clamp-3">{source?.data.label}</div>
+                </div>
+                {target?.data.rationale && (
+                    <div className="text-xs text-gray-500">
+                        <span className="font-medium">Rationale:</span> {target.data.rationale}
+                    </div>
+                )}
+            </div>
+
+            <label className="block text-xs text-gray-600 mb-1">Relation type</label>
+            <div className="grid grid-cols-2 gap-1 mb-3">
+                {relations.map(option => (
+                    <button
+                        key={option.id}
+                        onClick={() => updateEdgeRelation(edge.id, option.id)}
+                        disabled={option.id === edge.data.relation}
+                        style={option.id === edge.data.relation ? { backgroundColor: option.color, borderColor: option.color } : { color: option.color, borderColor: option.color }}
+                        className={`border rounded py-1 px-2 text-xs font-medium ${option.id === edge.data.relation ? 'text-white' : 'bg-white hover:bg-gray-50'}`}
+                    >
+                        {option.icon} {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <button
+                onClick={() => removeEdges([edge.id])}
+                className="w-full border border-red-300 hover:bg-red-50 text-red-600 py-1 px-3 rounded transition-colors"
+            >
+                🗑 Delete relation
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,338 @@
+import React, { useRef, useState } from 'react';
+import { useReactFlow, useStoreApi } from 'reactflow';
+import { useStore } from '../store/useStore';
+import { flushGraph, openNewGraph } from '../store/graphSync';
+import { ArgumentEdge, ArgumentNode } from '../types';
+import { fetchGraphAif, importAif } from '../services/api';
+import { DiagnosticSeverity, parseArgdown, toArgdown } from '../utils/argdown';
+import { layoutNodes } from '../utils/layout';
+import { downloadBlob, downloadText, fileNameFor } from '../utils/download';
+import { Rect, boundsOf, nodeBoxes, svgToPng, toDot, toGraphML, toMermaid, toSvg } from '../utils/diagramExport';
+import { debug } from '../shared/debug';
+
+type ImageArea = 'view' | 'graph';
+type ImageFormat = 'svg' | 'png';
+
+const GRAPH_PADDING = 40;
+
+interface ImportDiagnostic {
+    line?: number; // Only for line-based formats such as Argdown
+    severity: DiagnosticSeverity;
+    message: string;
+}
+
+interface ImportReport {
+    fileName: string;
+    imported: boolean;
+    nodeCount: number;
+    edgeCount: number;
+    diagnostics: ImportDiagnostic[];
+}
+
+// Header menu for moving graphs in and out of other formats
+const FileMenu: React.FC = () => {
+    const { nodes, edges, relations, graphName } = useStore();
+    const [menuOpen, setMenuOpen] = useState(false);
+    const [report, setReport] = useState<ImportReport | null>(null);
+    const [error, setError] = useState('');
+    const reactFlow = useReactFlow();
+    const flowStore = useStoreApi();
+    const argdownInput = useRef<HTMLInputElement>(null);
+    const aifInput = useRef<HTMLInputElement>(null);
+
+    const chooseFile = (input: React.RefObject<HTMLInputElement>) => {
+        setMenuOpen(false);
+        input.current?.click();
+    };
+
+    // Each imported file becomes a new, laid out graph; the open one is saved first. The
+    // report only appears when something was skipped or nothing could be imported.
+    const importGraph = async (
+        fileName: string,
+        name: string,
+        nodes: ArgumentNode[],
+        edges: ArgumentEdge[],
+        diagnostics: ImportDiagnostic[]
+    ) => {
+        const imported = nodes.length > 0;
+        if (imported) {
+            await openNewGraph({
+                name: name || fileName.replace(/\.[^.]+$/, ''),
+                nodes: layoutNodes(nodes, edges, relations),
+                edges
+            });
+        }
+
+        if (!imported || diagnostics.length > 0) {
+            setReport({ fileName, imported, nodeCount: nodes.length, edgeCount: edges.length, diagnostics });
+        }
+    };
+
+    // Reads the chosen file and clears the input so the same file can be picked again
+    const readChosenFile = async (event: React.ChangeEvent<HTMLInputElement>, action: string, load: (file: File, text: string) => Promise<void>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+
+        setError('');
+        try {
+            await load(file, await file.text());
+        } catch (error) {
+            debug.trackError(error as Error, 'file_menu', action);
+            setError((error as Error).message);
+        }
+    };
+
+    const handleArgdownFile = (event: React.ChangeEvent<HTMLInputElement>) =>
+        readChosenFile(event, 'argdown_import_error', async (file, text) => {
+            const result = parseArgdown(text, relations);
+
+            debug.info('file_menu', 'argdown_parsed', 'Parsed Argdown file', {
+                fileName: file.name,
+                nodesCount: result.nodes.length,
+                edgesCount: result.edges.length,
+                diagnosticsCount: result.diagnostics.length
+            });
+
+            await importGraph(file.name, result.title || '', result.nodes, result.edges, result.diagnostics);
+        });
+
+    // AIF is converted by the backend, which shares the converter with the export
+    const handleAifFile = (event: React.ChangeEvent<HTMLInputElement>) =>
+        readChosenFile(event, 'aif_import_error', async (file, text) => {
+            let aif: unknown;
+            try {
+                aif = JSON.parse(text);
+            } catch (error) {
+                throw new Error(`${file.name} is not valid JSON`);
+            }
+
+            const result = await importAif(aif);
+
+            debug.info('file_menu', 'aif_converted', 'Converted AIF file', {
+                fileName: file.name,
+                nodesCount: result.nodes.length,
+                edgesCount: result.edges.length,
+                warningsCount: result.warnings.length
+            });
+
+            await importGraph(file.name, '', result.nodes, result.edges,
+                result.warnings.map(message => ({ severity: 'warning' as const, message })));
+        });
+
+    const exportArgdown = () => {
+        setMenuOpen(false);
+        downloadText(fileNameFor(graphName, 'argdown'), toArgdown(graphName, nodes, edges, relations));
+
+        debug.info('file_menu', 'argdown_exported', 'Exported graph as Argdown', {
+            nodesCount: nodes.length,
+            edgesCount: edges.length
+        });
+    };
+
+    // Exported from the backend copy, so outstanding edits are saved first
+    const exportAif = async () => {
+        setMenuOpen(false);
+        setError('');
+        try {
+            await flushGraph();
+            const graphId = useStore.getState().graphId;
+            if (!graphId) throw new Error('The graph has not been saved yet');
+
+            const aif = await fetchGraphAif(graphId);
+            downloadText(fileNameFor(graphName, 'aif.json'), JSON.stringify(aif, null, 2), 'application/json');
+
+            debug.info('file_menu', 'aif_exported', 'Exported graph as AIF', { graphId });
+        } catch (error) {
+            debug.trackError(error as Error, 'file_menu', 'aif_export_error');
+            setError((error as Error).message);
+        }
+    };
+
+    const exportText = (format: string, extension: string, text: string, mimeType?: string) => {
+        setMenuOpen(false);
+        downloadText(fileNameFor(graphName, extension), text, mimeType);
+
+        debug.info('file_menu', 'diagram_exported', 'Exported graph as a diagram', {
+            format,
+            nodesCount: nodes.length,
+            edgesCount: edges.length
+        });
+    };
+
+    // Draws the canvas from the graph itself rather than copying the DOM, using the node
+    // sizes React Flow measured. 'view' is what is on screen right now.
+    const exportImage = async (area: ImageArea, format: ImageFormat) => {
+        setMenuOpen(false);
+        setError('');
+        try {
+            const measured = new Map(reactFlow.getNodes().map(node => [node.id, node] as [string, typeof node]));
+            const boxes = nodeBoxes(nodes.map(node => ({
+                ...node,
+                width: measured.get(node.id)?.width,
+                height: measured.get(node.id)?.height
+            })));
+
+            let rect: Rect;
+            if (area === 'view') {
+                const { x, y, zoom } = reactFlow.getViewport();
+                const { width, height } = flowStore.getState();
+                rect = { x: -x / zoom, y: -y / zoom, width: width / zoom, height: height / zoom };
+            } else {
+                rect = boundsOf(boxes, GRAPH_PADDING);
+            }
+
+            const svg = toSvg(boxes, edges, relations, rect);
+            const suffix = area === 'view' ? ' (view)' : '';
+            if (format === 'svg') {
+                downloadText(fileNameFor(`${graphName}${suffix}`, 'svg'), svg, 'image/svg+xml');
+            } else {
+                downloadBlob(fileNameFor(`${graphName}${suffix}`, 'png'), await svgToPng(svg, rect.width, rect.height));
+            }
+
+            debug.info('file_menu', 'image_exported', 'Exported graph as an image', {
+                area,
+                format,
+                width: Math.round(rect.width),
+                height: Math.round(rect.height)
+            });
+        } catch (error) {
+            debug.trackError(error as Error, 'file_menu', 'image_export_error');
+            setError((error as Error).message);
+        }
+    };
+
+    const headingClass = 'px-4 pt-1 pb-1 text-xs uppercase tracking-wide text-gray-400';
+    const itemClass = 'block w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white';
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setMenuOpen(!menuOpen)}
+                className="bg-gray-500 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-lg transition-colors"
+            >
+                📁 File
+            </button>
+
+            {menuOpen && (
+                <>
+                    <div className="fixed inset-0 z-40" onClick={() => setMenuOpen(false)} />
+                    <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50">
+                        <button onClick={() => chooseFile(argdownInput)} className={itemClass}>
+                            Import Argdown…
+                        </button>
+                        <button onClick={() => chooseFile(aifInput)} className={itemClass}>
+                            Import AIF…
+                        </button>
+                        <div className="border-t my-1" />
+                        <button onClick={exportArgdown} disabled={nodes.length === 0} className={itemClass}>
+                            Export Argdown
+                        </button>
+                        <button onClick={exportAif} disabled={nodes.length === 0} className={itemClass}>
+                            Export AIF
+                        </button>
+                        <div className="border-t my-1" />
+                        <div className={headingClass}>Image</div>
+                        <button onClick={() => exportImage('view', 'svg')} disabled={nodes.length === 0} className={itemClass}>
+                            Image of view (SVG)
+                        </button>
+                        <button onClick={() => exportImage('view', 'png')} disabled={nodes.length === 0} className={itemClass}>
+                            Image of view (PNG)
+                        </button>
+                        <button onClick={() => exportImage('graph', 'svg')} disabled={nodes.length === 0} className={itemClass}>
+                            Image of whole graph (SVG)
+                        </button>
+                        <button onClick={() => exportImage('graph', 'png')} disabled={nodes.length === 0} className={itemClass}>
+                            Image of whole graph (PNG)
+                        </button>
+                        <div className="border-t my-1" />
+                        <div className={headingClass}>Diagram</div>
+                        <button
+                            onClick={() => exportText('dot', 'dot', toDot(graphName, nodes, edges, relations), 'text/vnd.graphviz')}
+                            disabled={nodes.length === 0}
+                            className={itemClass}
+                        >
+                            Graphviz DOT
+                        </button>
+                        <button
+                            onClick={() => exportText('mermaid', 'mmd', toMermaid(nodes, edges, relations))}
+                            disabled={nodes.length === 0}
+                            className={itemClass}
+                        >
+                            Mermaid flowchart
+                        </button>
+                        <button
+                            onClick={() => exportText('graphml', 'graphml', toGraphML(graphName, nodes, edges, relations), 'application/xml')}
+                            disabled={nodes.length === 0}
+                            className={itemClass}
+                        >
+                            GraphML
+                        </button>
+                    </div>
+                </>
+            )}
+
+            <input
+                ref={argdownInput}
+                type="file"
+                accept=".argdown,.ad,.txt,text/plain"
+                onChange={handleArgdownFile}
+                className="hidden"
+            />
+            <input
+                ref={aifInput}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleAifFile}
+                className="hidden"
+            />
+
+            {(report || error) && (
+                <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+                    <div className="bg-white rounded-lg shadow-xl w-11/12 max-w-2xl max-h-[85vh] flex flex-col">
+                        <div className="flex justify-between items-center p-4 border-b">
+                            <h2 className="text-xl font-bold">{report ? `Import ${report.fileName}` : 'File'}</h2>
+                            <button
+                                onClick={() => { setReport(null); setError(''); }}
+                                className="text-gray-500 hover:text-gray-700"
+                            >
+                                ✕
+                            </button>
+                        </div>
+
+                        <div className="p-4 overflow-y-auto text-sm">
+                            {error && (
+                                <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+                                    {error}
+                                </div>
+                            )}
+
+                            {report && (
+                                <>
+                                    <p className="mb-3 text-gray-700">
+                                        {report.imported
+                                            ? `Imported ${report.nodeCount} claims and ${report.edgeCount} relations into a new graph.`
+                                            : 'Nothing was imported.'}
+                                    </p>
+                                    <ul className="space-y-1">
+                                        {report.diagnostics.map((diagnostic, index) => (
+                                            <li
+                                                key={index}
+                                                className={`p-2 rounded border ${diagnostic.severity === 'error' ? 'bg-red-50 border-red-300 text-red-700' : 'bg-amber-50 border-amber-300 text-amber-800'}`}
+                                            >
+                                                {diagnostic.line !== undefined && <span className="font-mono mr-2">Line {diagnostic.line}</span>}
+                                                {diagnostic.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FileMenu;
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useStore } from '../store/useStore';
+import { closeGraph, openGraph, openNewGraph } from '../store/graphSync';
+import { GraphSummary } from '../types';
+import { fetchGraphs, updateGraph, duplicateGraph, deleteGraph } from '../services/api';
+import { debug } from '../shared/debug';
+
+interface GraphLibraryProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const GraphLibrary: React.FC<GraphLibraryProps> = ({ isOpen, onClose }) => {
+    const { graphId, setGraphName } = useStore();
+    const [graphs, setGraphs] = useState<GraphSummary[]>([]);
+    const [query, setQuery] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadGraphs = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setGraphs(await fetchGraphs());
+        } catch (error) {
+            debug.trackError(error as Error, 'graph_library', 'load_error');
+            setError((error as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        debug.info('graph_library', 'opened', 'Graph library opened');
+        setError('');
+        setQuery('');
+        setRenamingId(null);
+        loadGraphs();
+    }, [isOpen, loadGraphs]);
+
+    // Every action reports failures inline rather than closing the library
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (error) {
+            debug.trackError(error as Error, 'graph_library', 'action_error');
+            setError((error as Error).message);
+        }
+    };
+
+    const handleOpen = (id: string) => run(async () => {
+        await openGraph(id);
+        onClose();
+    });
+
+    const handleNew = () => run(async () => {
+        const name = window.prompt('Name of the new graph', 'Untitled argument');
+        if (name === null) return;
+
+        await openNewGraph({ name: name.trim() || 'Untitled argument' });
+        onClose();
+    });
+
+    const startRename = (graph: GraphSummary) => {
+        setRenamingId(graph.id);
+        setRenameValue(graph.name);
+    };
+
+    const handleRename = (id: string) => run(async () => {
+        const name = renameValue.trim();
+        if (!name) return;
+
+        // The open graph is renamed through the store so the next sync doesn't overwrite it
+        if (id === graphId) {
+            setGraphName(name);
+        } else {
+            await updateGraph(id, { name });
+        }
+        setGraphs(graphs.map(graph => graph.id === id ? { ...graph, name } : graph));
+        setRenamingId(null);
+    });
+
+    const handleDuplicate = (graph: GraphSummary) => run(async () => {
+        await duplicateGraph(graph.id);
+        await loadGraphs();
+    });
+
+    const handleDelete = (graph: GraphSummary) => run(async () => {
+        if (!window.confirm(`Delete the graph "${graph.name}"? This cannot be undone.`)) return;
+
+        await deleteGraph(graph.id);
+        if (graph.id === graphId) closeGraph();
+        await loadGraphs();
+    });
+
+    if (!isOpen) return null;
+
+    const needle = query.trim().toLowerCase();
+    const visibleGraphs = needle ? graphs.filter(graph => graph.name.toLowerCase().includes(needle)) : graphs;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-11/12 h-5/6 max-w-4xl flex flex-col">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold">📚 Graph Library</h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                {/* Controls */}
+                <div className="flex gap-2 p-4 border-b">
+                    <input
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search by title..."
+                        className="flex-1 border rounded px-2 py-1"
+                    />
+                    <button
+                        onClick={handleNew}
+                        className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded"
+                    >
+                        ➕ New graph
+                    </button>
+                </div>
+
+                {error && (
+                    <div className="mx-4 mt-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+                )}
+
+                {/* Graph list */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {isLoading && graphs.length === 0 && (
+                        <div className="text-sm text-gray-500">Loading graphs...</div>
+                    )}
+                    {!isLoading && visibleGraphs.length === 0 && (
+                        <div className="text-sm text-gray-500">
+                            {needle ? 'No graphs match your search.' : 'No saved graphs yet.'}
+                        </div>
+                    )}
+                    {visibleGraphs.map(graph => (
+                        <div
+                            key={graph.id}
+                            className={`border rounded p-3 ${graph.id === graphId ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                        >
+                            <div className="flex justify-between items-start gap-4">
+                                <div className="flex-1 min-w-0">
+                                    {renamingId === graph.id ? (
+                                        <div className="flex gap-2">
+                                            <input
+                                                value={renameValue}
+                                                autoFocus
+                                                onChange={(e) => setRenameValue(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') handleRename(graph.id);
+                                                    if (e.key === 'Escape') setRenamingId(null);
+                                                }}
+                                                className="flex-1 border rounded px-2 py-1 text-sm"
+                                            />
+                                            <button
+                                                onClick={() => handleRename(graph.id)}
+                                                className="bg-blue-500 hover:bg-blue-600 text-white text-sm px-2 py-1 rounded"
+                                            >
+                                                Save
+                                            </button>
+                                        </div>
+                                    ) : (
+                                        <div className="font-medium text-gray-800 truncate">
+                                            {graph.name} {graph.id === graphId && <span className="text-xs text-blue-600">(open)</span>}
+                                        </div>
+                                    )}
+                                    <div className="text-sm text-gray-600 truncate">
+                                        {graph.rootClaim || <span className="italic text-gray-400">No claims yet</span>}
+                                    </div>
+                                    <div className="text-xs text-gray-500">
+                                        {graph.nodeCount} {graph.nodeCount === 1 ? 'claim' : 'claims'} · Last edited {new Date(graph.updatedAt).toLocaleString()}
+                                    </div>
+                                </div>
+                                <div className="flex gap-1 flex-shrink-0">
+                                    <button
+                                        onClick={() => handleOpen(graph.id)}
+                                        disabled={graph.id === graphId}
+                                        className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white text-sm px-2 py-1 rounded"
+                                    >
+                                        Open
+                                    </button>
+                                    <button
+                                        onClick={() => startRename(graph)}
+                                        className="border border-gray-300 hover:bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded"
+                                    >
+                                        Rename
+                                    </button>
+                                    <button
+                                        onClick={() => handleDuplicate(graph)}
+                                        className="border border-gray-300 hover:bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded"
+                                    >
+                                        Duplicate
+                                    </button>
+                                    <button
+                                        onClick={() => handleDelete(graph)}
+                                        className="bg-red-500 hover:bg-red-600 text-white text-sm px-2 py-1 rounded"
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GraphLibrary;
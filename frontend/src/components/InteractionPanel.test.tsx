@@ -0,0 +1,124 @@
+import React from 'react';
+import { TextDecoder, TextEncoder } from 'util';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import InteractionPanel from './InteractionPanel';
+import { useStore } from '../store/useStore';
+import { EMPTY_HISTORY } from '../store/history';
+import { debug } from '../shared/debug';
+import { ArgumentNode, RelationInfo } from '../types';
+import recorded from '../fixtures/generate.json';
+
+// The generate flows end to end in the browser, against responses the backend gave while
+// replaying the mock provider's recordings in backend/fixtures/llm/mock. To capture them
+// again, run the backend with LLM_FIXTURES=replay, LLM_FIXTURES_DIR=fixtures/llm/mock and
+// LLM_PROVIDER=mock, and save the bodies of the requests below.
+
+interface RecordedExchange {
+    method: string;
+    path: string;
+    status: number;
+    body: string;
+}
+
+const SUPPORTS: RelationInfo = {
+    id: 'supports',
+    label: 'Support',
+    verb: 'supports',
+    color: '#22c55e',
+    icon: '➕',
+    polarity: 'pro',
+    dashed: false
+};
+
+const THESIS: ArgumentNode = {
+    id: 'thesis',
+    type: 'argumentNode',
+    position: { x: 0, y: 0 },
+    data: { label: 'Cities should ban cars from their centres.', author: 'user' }
+};
+
+// jsdom has no streaming fetch, so responses are served as the few parts api.ts reads
+function replayResponse(exchange: RecordedExchange) {
+    const chunks = [new TextEncoder().encode(exchange.body)];
+    return {
+        ok: exchange.status >= 200 && exchange.status < 300,
+        status: exchange.status,
+        json: async () => JSON.parse(exchange.body),
+        body: {
+            getReader: () => ({
+                read: async () => (chunks.length > 0 ? { done: false, value: chunks.shift() } : { done: true, value: undefined })
+            })
+        }
+    };
+}
+
+function recordedClaims(path: string): string[] {
+    const exchange = (recorded as RecordedExchange[]).find(e => e.path === path)!;
+    if (path === '/api/generate') {
+        return JSON.parse(exchange.body).candidates.map((c: { newNode: ArgumentNode }) => c.newNode.data.label);
+    }
+    const done = exchange.body.split('\n\n').find(block => block.startsWith('event: done'))!;
+    return [JSON.parse(done.split('\ndata: ')[1]).newNode.data.label];
+}
+
+describe('InteractionPanel replaying recorded generations', () => {
+    beforeAll(() => {
+        debug.updateConfig({ enabled: false });
+        Object.assign(global, { TextDecoder, TextEncoder });
+    });
+
+    beforeEach(() => {
+        localStorage.clear();
+        useStore.setState({ nodes: [THESIS], edges: [], history: EMPTY_HISTORY, relations: [SUPPORTS], isLoading: false });
+        global.fetch = jest.fn(async (url: RequestInfo | URL) => {
+            const exchange = (recorded as RecordedExchange[]).find(e => String(url).endsWith(e.path));
+            if (!exchange) throw new Error(`Nothing recorded for ${url}`);
+            return replayResponse(exchange) as unknown as Response;
+        });
+    });
+
+    it('streams a claim in through generateAndAddNode and undoes it as one step', async () => {
+        const [claim] = recordedClaims('/api/generate/stream');
+        render(<InteractionPanel selectedNode={THESIS} />);
+
+        fireEvent.click(screen.getByText(/Support/));
+        await waitFor(() => expect(useStore.getState().history.past).toHaveLength(1));
+
+        const { nodes, edges, history } = useStore.getState();
+        expect(nodes.map(node => node.data.label)).toEqual([THESIS.data.label, claim]);
+        expect(nodes[1].data).toMatchObject({ author: 'llm', pending: false });
+        expect(edges).toMatchObject([{ source: 'thesis', target: nodes[1].id, data: { relation: 'supports' } }]);
+        expect(history.past.map(step => step.label)).toEqual(['Generate claim']);
+
+        act(() => useStore.getState().undo());
+        expect(useStore.getState().nodes).toEqual([THESIS]);
+        expect(useStore.getState().edges).toEqual([]);
+    });
+
+    it('previews candidates and adds the chosen ones, edited, as one step', async () => {
+        const claims = recordedClaims('/api/generate');
+        render(<InteractionPanel selectedNode={THESIS} />);
+
+        fireEvent.change(screen.getByRole('combobox'), { target: { value: '3' } });
+        fireEvent.click(screen.getByText(/Support/));
+
+        const drafts = (await screen.findAllByRole('textbox')) as HTMLTextAreaElement[];
+        expect(drafts.map(draft => draft.value)).toEqual(claims);
+
+        const checkboxes = screen.getAllByRole('checkbox');
+        fireEvent.click(checkboxes[0]);
+        fireEvent.click(checkboxes[2]);
+        fireEvent.change(drafts[2], { target: { value: 'Studies agree that car-free centres are good for cities.' } });
+        fireEvent.click(screen.getByText(/Add 2/));
+
+        const { nodes, edges, history } = useStore.getState();
+        expect(nodes.map(node => node.data.label)).toEqual([
+            THESIS.data.label,
+            claims[0],
+            'Studies agree that car-free centres are good for cities.'
+        ]);
+        expect(edges.every(edge => edge.source === 'thesis' && edge.data.relation === 'supports')).toBe(true);
+        expect(history.past.map(step => step.label)).toEqual(['Add generated claims']);
+        expect(screen.queryAllByRole('textbox')).toEqual([]);
+    });
+});
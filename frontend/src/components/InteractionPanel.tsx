@@ -1,69 +1,301 @@
-import React from 'react';
-import { ArgumentNode, Action } from '../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { ArgumentNode, ArgumentEdge, Action } from '../types';
 import { useStore } from '../store/useStore';
-import { generateAndAddNode } from '../services/api';
+import { generateAndAddNode, generateCandidates, GeneratedElements, RetryInfo } from '../services/api';
+import { buildGraphContext } from '../utils/graphContext';
+import { placeNewNode } from '../utils/layout';
+import { describeGenerationError, formatFallback, formatRetry, needsKeySetup } from '../utils/generationStatus';
+import CandidatePreview, { CandidateDraft } from './CandidatePreview';
 import { nanoid } from 'nanoid';
 
+const MAX_CANDIDATES = 5;
+
 interface InteractionPanelProps {
     selectedNode: ArgumentNode;
 }
 
 export default function InteractionPanel({ selectedNode }: InteractionPanelProps) {
-    const { addNode, addEdge, setLoading, isLoading } = useStore();
+    const {
+        addResponse,
+        addPendingResponse,
+        finishPendingResponse,
+        discardPendingResponse,
+        updateNodeData,
+        removeNodes,
+        edges,
+        setLoading,
+        isLoading,
+        relations,
+        beginHistoryGroup,
+        endHistoryGroup,
+        setKeySetupReason
+    } = useStore();
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [candidateCount, setCandidateCount] = useState(1);
+    const [generated, setGenerated] = useState<GeneratedElements[]>([]);
+    const [drafts, setDrafts] = useState<CandidateDraft[]>([]);
+    const [error, setError] = useState('');
+    // Progress notice while the backend retries or switches provider
+    const [notice, setNotice] = useState('');
+    const [retry, setRetry] = useState<{ info: RetryInfo; until: number } | null>(null);
+    const [now, setNow] = useState(Date.now());
+
+    // Stop any in-flight stream if the panel goes away
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    // Candidates belong to the node they were generated for
+    useEffect(() => {
+        setGenerated([]);
+        setDrafts([]);
+        setError('');
+    }, [selectedNode.id]);
+
+    // Tick while a retry countdown is showing
+    useEffect(() => {
+        if (!retry) return;
+        const interval = setInterval(() => setNow(Date.now()), 250);
+        return () => clearInterval(interval);
+    }, [retry]);
+
+    const clearProgress = () => {
+        setNotice('');
+        setRetry(null);
+    };
+
+    // Several alternatives are previewed in the panel rather than committed straight away
+    const handleGenerateCandidates = async (action: Action) => {
+        const { nodes, edges, templateSetId } = useStore.getState();
+        const context = buildGraphContext(nodes, edges, selectedNode.id, action);
+
+        setLoading(true);
+        setError('');
+        try {
+            const candidates = await generateCandidates(
+                selectedNode,
+                action,
+                candidateCount,
+                context,
+                templateSetId || undefined
+            );
+            setGenerated(candidates);
+            setDrafts(candidates.map(({ newNode }) => ({
+                id: newNode.id,
+                label: newNode.data.label,
+                selected: false
+            })));
+        } catch (error) {
+            console.error('Failed to generate candidates:', error);
+            setError(describeGenerationError(error));
+            if (needsKeySetup(error)) setKeySetupReason(describeGenerationError(error));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const handleAcceptCandidates = () => {
+        beginHistoryGroup('Add generated claims');
+        drafts
+            .filter(draft => draft.selected && draft.label.trim())
+            .forEach(draft => {
+                const candidate = generated.find(c => c.newNode.id === draft.id);
+                if (!candidate) return;
+
+                addResponse({
+                    ...candidate.newNode,
+                    position: placeNewNode(useStore.getState().nodes, selectedNode.id, candidate.newEdge.data.relation, relations),
+                    data: { ...candidate.newNode.data, label: draft.label.trim() }
+                }, candidate.newEdge);
+            });
+        endHistoryGroup();
+
+        setGenerated([]);
+        setDrafts([]);
+    };
+
+    const handleDiscardCandidates = () => {
+        setGenerated([]);
+        setDrafts([]);
+    };
 
     const handleAction = async (action: Action) => {
         if (isLoading) return;
 
+        if (candidateCount > 1) {
+            await handleGenerateCandidates(action);
+            return;
+        }
+
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        // Assigned inside the stream callbacks, so TypeScript can't narrow it
+        let placeholder = null as { node: ArgumentNode; edge: ArgumentEdge } | null;
+
+        const { nodes, edges, templateSetId } = useStore.getState();
+        const context = buildGraphContext(nodes, edges, selectedNode.id, action);
+
+        // The placeholder, its edge and the final text undo as one step, recorded when the
+        // stream finishes
         setLoading(true);
+        setError('');
         try {
-            const result = await generateAndAddNode(selectedNode, action);
-            addNode(result.newNode);
-            addEdge(result.newEdge);
+            const result = await generateAndAddNode(selectedNode, action, context, {
+                signal: abortController.signal,
+                onStart: (newNode, newEdge) => {
+                    placeholder = { node: newNode, edge: newEdge };
+                    addPendingResponse({
+                        ...newNode,
+                        position: placeNewNode(useStore.getState().nodes, selectedNode.id, action, relations),
+                        data: { ...newNode.data, pending: true }
+                    }, newEdge);
+                },
+                onToken: (token, text) => {
+                    clearProgress();
+                    if (placeholder) {
+                        updateNodeData(placeholder.node.id, { label: text });
+                    }
+                },
+                onRetry: (info) => {
+                    setRetry({ info, until: Date.now() + info.delayMs });
+                    setNow(Date.now());
+                    if (placeholder) updateNodeData(placeholder.node.id, { label: '' });
+                },
+                onFallback: (info) => {
+                    setRetry(null);
+                    setNotice(formatFallback(info));
+                    if (placeholder) updateNodeData(placeholder.node.id, { label: '' });
+                }
+            }, templateSetId || undefined);
+            finishPendingResponse(result.newNode.id, {
+                label: result.newNode.data.label,
+                rationale: result.newNode.data.rationale,
+                pending: false
+            });
         } catch (error) {
-            console.error('Failed to generate argument:', error);
-            alert('Failed to generate argument. Please try again.');
+            if (placeholder) {
+                discardPendingResponse(placeholder.node.id);
+            }
+            if (!abortController.signal.aborted) {
+                console.error('Failed to generate argument:', error);
+                setError(describeGenerationError(error));
+                if (needsKeySetup(error)) setKeySetupReason(describeGenerationError(error));
+            }
         } finally {
+            clearProgress();
+            abortControllerRef.current = null;
             setLoading(false);
         }
     };
 
+    const handleCancel = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const hasParent = edges.some(edge => edge.target === selectedNode.id);
+    const hasResponses = edges.some(edge => edge.source === selectedNode.id);
+
     return (
         <div className="absolute top-4 right-4 bg-white border border-gray-300 rounded-lg shadow-lg p-4 z-10">
             <h3 className="text-sm font-semibold text-gray-700 mb-3">
                 Generate new argument:
             </h3>
 
-            <div className="space-y-2">
-                <button
-                    onClick={() => handleAction('supports')}
-                    disabled={isLoading}
-                    className="w-full bg-green-500 hover:bg-green-600 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded transition-colors"
-                >
-                    {isLoading ? '⏳' : '➕'} Support
-                </button>
+            {relations.length === 0 && (
+                <div className="text-sm text-gray-500">Loading relations...</div>
+            )}
 
-                <button
-                    onClick={() => handleAction('refutes')}
-                    disabled={isLoading}
-                    className="w-full bg-red-500 hover:bg-red-600 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded transition-colors"
-                >
-                    {isLoading ? '⏳' : '➖'} Refute
-                </button>
+            <div className="grid grid-cols-2 gap-2">
+                {relations.map(relation => (
+                    <button
+                        key={relation.id}
+                        onClick={() => handleAction(relation.id)}
+                        disabled={isLoading}
+                        style={{ backgroundColor: isLoading ? undefined : relation.color }}
+                        className="w-full hover:opacity-90 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded transition-colors"
+                    >
+                        {isLoading ? '⏳' : relation.icon} {relation.label}
+                    </button>
+                ))}
+            </div>
 
-                <button
-                    onClick={() => handleAction('unpacks')}
+            <label className="flex items-center justify-between mt-3 text-xs text-gray-600">
+                Alternatives to preview:
+                <select
+                    value={candidateCount}
+                    onChange={(e) => setCandidateCount(Number(e.target.value))}
                     disabled={isLoading}
-                    className="w-full bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white font-medium py-2 px-4 rounded transition-colors"
+                    className="ml-2 border rounded px-1 py-0.5"
                 >
-                    {isLoading ? '⏳' : '❓'} Unpack
-                </button>
-            </div>
+                    {Array.from({ length: MAX_CANDIDATES }, (_, i) => i + 1).map(n => (
+                        <option key={n} value={n}>{n === 1 ? '1 (add directly)' : n}</option>
+                    ))}
+                </select>
+            </label>
 
             {isLoading && (
                 <div className="mt-3 text-center text-sm text-gray-500">
-                    Generating argument...
+                    {candidateCount > 1 ? `Generating ${candidateCount} alternatives...` : 'Generating argument...'}
+                    {(retry || notice) && (
+                        <div className="mt-1 text-xs text-amber-600">
+                            {retry ? formatRetry(retry.info, retry.until - now) : notice}
+                        </div>
+                    )}
+                    {candidateCount === 1 && (
+                        <button
+                            onClick={handleCancel}
+                            className="block w-full mt-2 border border-gray-300 hover:bg-gray-100 text-gray-700 py-1 px-4 rounded transition-colors"
+                        >
+                            ✖ Cancel
+                        </button>
+                    )}
+                </div>
+            )}
+
+            {error && !isLoading && (
+                <div className="mt-3 w-72 text-xs text-red-600 bg-red-50 border border-red-200 rounded p-2">
+                    {error}
+                    <button onClick={() => setError('')} className="float-right text-red-400 hover:text-red-600">✕</button>
                 </div>
             )}
+
+            <div className="mt-3 pt-3 border-t border-gray-200 space-y-1">
+                {hasParent && hasResponses ? (
+                    <>
+                        <button
+                            onClick={() => removeNodes([selectedNode.id], 'reparent')}
+                            disabled={isLoading}
+                            className="w-full text-sm border border-red-300 hover:bg-red-50 disabled:text-gray-400 text-red-600 py-1 px-4 rounded transition-colors"
+                            title="Its responses are linked to its parent claim instead"
+                        >
+                            🗑 Delete, keep responses
+                        </button>
+                        <button
+                            onClick={() => removeNodes([selectedNode.id], 'cascade')}
+                            disabled={isLoading}
+                            className="w-full text-sm border border-red-300 hover:bg-red-50 disabled:text-gray-400 text-red-600 py-1 px-4 rounded transition-colors"
+                            title="Its responses are left unconnected"
+                        >
+                            🗑 Delete with its links
+                        </button>
+                    </>
+                ) : (
+                    <button
+                        onClick={() => removeNodes([selectedNode.id], 'cascade')}
+                        disabled={isLoading}
+                        className="w-full text-sm border border-red-300 hover:bg-red-50 disabled:text-gray-400 text-red-600 py-1 px-4 rounded transition-colors"
+                    >
+                        🗑 Delete claim
+                    </button>
+                )}
+            </div>
+
+            {drafts.length > 0 && (
+                <CandidatePreview
+                    candidates={drafts}
+                    onChange={setDrafts}
+                    onAccept={handleAcceptCandidates}
+                    onDiscard={handleDiscardCandidates}
+                />
+            )}
         </div>
     );
 } 
\ No newline at end of file
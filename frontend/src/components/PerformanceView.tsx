@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { debug, OperationStats, PerformanceSnapshot, TimingSample } from '../shared/debug';
+import { fetchBackendPerformance } from '../services/api';
+
+type Side = 'browser' | 'server';
+type SideStats = OperationStats & { side: Side };
+type SideTiming = TimingSample & { side: Side };
+
+const TIMELINE_SIZE = 40;
+
+function formatMs(ms: number): string {
+    return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+}
+
+function sideLabel(side: Side): string {
+    return side === 'browser' ? 'Browser' : 'Backend';
+}
+
+function sideColor(side: Side): string {
+    return side === 'browser' ? 'bg-blue-400' : 'bg-green-500';
+}
+
+// Timing statistics per operation, and the latest timed operations on a shared time axis, for
+// this tab (debug.startTimer/endTimer) and the backend (/debug/metrics)
+export default function PerformanceView() {
+    const [local, setLocal] = useState<PerformanceSnapshot>(() => debug.getPerformance());
+    const [backend, setBackend] = useState<PerformanceSnapshot | null>(null);
+    const [backendError, setBackendError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setLocal(debug.getPerformance());
+        try {
+            setBackend(await fetchBackendPerformance());
+            setBackendError(null);
+        } catch (error) {
+            setBackendError((error as Error).message);
+        }
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const stats: SideStats[] = local.operations
+        .map(operation => ({ ...operation, side: 'browser' as Side }))
+        .concat((backend ? backend.operations : []).map(operation => ({ ...operation, side: 'server' as Side })));
+
+    const timings: SideTiming[] = local.recent
+        .map(timing => ({ ...timing, side: 'browser' as Side }))
+        .concat((backend ? backend.recent : []).map(timing => ({ ...timing, side: 'server' as Side })))
+        .sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))
+        .slice(-TIMELINE_SIZE);
+
+    const windowStart = timings.length > 0 ? Math.min(...timings.map(timing => Date.parse(timing.startedAt))) : 0;
+    const windowEnd = timings.length > 0
+        ? Math.max(...timings.map(timing => Date.parse(timing.startedAt) + timing.durationMs))
+        : 0;
+    const windowSpan = Math.max(windowEnd - windowStart, 1);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex justify-between items-center">
+                <span className="text-sm text-gray-500">Quantiles are over each operation's latest 1000 timings</span>
+                <button
+                    onClick={refresh}
+                    className="bg-blue-500 text-white px-3 py-1 rounded text-sm hover:bg-blue-600"
+                >
+                    Refresh
+                </button>
+            </div>
+
+            {backendError && (
+                <div className="bg-red-50 border border-red-200 text-red-700 text-sm rounded p-2">
+                    {backendError}; showing browser timings only.
+                </div>
+            )}
+
+            <div>
+                <h4 className="font-semibold mb-2">Operations</h4>
+                {stats.length === 0 ? (
+                    <div className="text-gray-500 text-sm">Nothing timed yet</div>
+                ) : (
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-left text-gray-500 border-b">
+                                <th className="py-1">Operation</th>
+                                <th>Where</th>
+                                <th className="text-right">Count</th>
+                                <th className="text-right">p50</th>
+                                <th className="text-right">p95</th>
+                                <th className="text-right">p99</th>
+                                <th className="text-right">Max</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {stats.map(operation => (
+                                <tr key={`${operation.side}:${operation.operation}`} className="border-b">
+                                    <td className="py-1 font-mono">{operation.operation}</td>
+                                    <td>{sideLabel(operation.side)}</td>
+                                    <td className="text-right">{operation.count}</td>
+                                    <td className="text-right">{formatMs(operation.p50Ms)}</td>
+                                    <td className="text-right">{formatMs(operation.p95Ms)}</td>
+                                    <td className="text-right">{formatMs(operation.p99Ms)}</td>
+                                    <td className="text-right">{formatMs(operation.maxMs)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+
+            <div>
+                <h4 className="font-semibold mb-2">Timeline</h4>
+                {timings.length === 0 ? (
+                    <div className="text-gray-500 text-sm">Nothing timed yet</div>
+                ) : (
+                    <div className="space-y-1">
+                        {timings.map((timing, index) => {
+                            const left = ((Date.parse(timing.startedAt) - windowStart) / windowSpan) * 100;
+                            const width = Math.max((timing.durationMs / windowSpan) * 100, 0.5);
+                            return (
+                                <div key={index} className="flex items-center gap-2 text-xs">
+                                    <span className="w-48 truncate font-mono" title={timing.operation}>{timing.operation}</span>
+                                    <div className="flex-1 relative h-3 bg-gray-100 rounded">
+                                        <div
+                                            className={`absolute h-3 rounded ${sideColor(timing.side)}`}
+                                            style={{ left: `${left}%`, width: `${width}%` }}
+                                            title={`${sideLabel(timing.side)}: ${formatMs(timing.durationMs)}${timing.context?.requestId ? ` (${timing.context.requestId})` : ''}`}
+                                        />
+                                    </div>
+                                    <span className="w-16 text-right font-mono">{formatMs(timing.durationMs)}</span>
+                                </div>
+                            );
+                        })}
+                        <div className="flex gap-4 text-xs text-gray-500 pt-1">
+                            <span><span className="inline-block w-3 h-3 rounded bg-blue-400 mr-1 align-middle" />Browser</span>
+                            <span><span className="inline-block w-3 h-3 rounded bg-green-500 mr-1 align-middle" />Backend</span>
+                            <span>{formatMs(windowSpan)} shown</span>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { CollabStatus, useStore } from '../store/useStore';
+import { getCollabName, setCollabName } from '../store/collab';
+import { CollabPeer } from '../shared/collab';
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+    off: '',
+    connecting: 'Connecting…',
+    live: 'Live',
+    offline: 'Reconnecting…'
+};
+
+function initials(name: string): string {
+    const words = name.trim().split(/\s+/).filter(Boolean);
+    return (words.length > 1 ? words[0][0] + words[1][0] : name.slice(0, 2)).toUpperCase() || '?';
+}
+
+// Who else has the open graph open, and which claim each of them has selected
+export default function PresenceBar() {
+    const { collabStatus, peers, nodes } = useStore();
+    const [name, setName] = useState(getCollabName);
+
+    if (collabStatus === 'off') return null;
+
+    const describe = (peer: CollabPeer) => {
+        const node = peer.selectedNodeId ? nodes.find(candidate => candidate.id === peer.selectedNodeId) : undefined;
+        return node ? `${peer.name} is looking at "${node.data.label}"` : peer.name;
+    };
+
+    const handleRename = () => {
+        const newName = window.prompt('Your name, as collaborators see it', name);
+        if (newName === null) return;
+        setCollabName(newName);
+        setName(getCollabName());
+    };
+
+    return (
+        <div className="flex items-center gap-2">
+            <span className={`text-sm ${collabStatus === 'live' ? 'text-green-600' : 'text-amber-600'}`}>
+                ● {STATUS_LABELS[collabStatus]}
+            </span>
+            <div className="flex -space-x-2">
+                {peers.map(peer => (
+                    <span
+                        key={peer.clientId}
+                        className="w-8 h-8 rounded-full border-2 border-white text-white text-xs font-semibold flex items-center justify-center"
+                        style={{ backgroundColor: peer.color }}
+                        title={describe(peer)}
+                    >
+                        {initials(peer.name)}
+                    </span>
+                ))}
+            </div>
+            <button
+                onClick={handleRename}
+                className="text-sm text-gray-500 hover:text-gray-700 underline"
+                title="Change the name collaborators see"
+            >
+                {name}
+            </button>
+        </div>
+    );
+}
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useStore } from '../store/useStore';
+import { ChatMessage, PromptTemplateSet } from '../types';
+import { fetchTemplateSets, saveTemplateSet, deleteTemplateSet, previewPrompt, TemplateSetInput } from '../services/api';
+import { buildGraphContext } from '../utils/graphContext';
+import { debug } from '../shared/debug';
+
+interface PromptTemplateSettingsProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+const DEFAULT_TEMPLATE_SET_ID = 'default';
+const SAMPLE_CLAIM = 'Remote work makes teams more productive.';
+
+function toDraft(set: PromptTemplateSet): TemplateSetInput {
+    return {
+        name: set.name,
+        description: set.description || '',
+        baseInstruction: set.baseInstruction,
+        relations: { ...set.relations }
+    };
+}
+
+const PromptTemplateSettings: React.FC<PromptTemplateSettingsProps> = ({ isOpen, onClose }) => {
+    const { relations, selectedNode, templateSetId, setTemplateSetId } = useStore();
+    const [templateSets, setTemplateSets] = useState<PromptTemplateSet[]>([]);
+    const [editingId, setEditingId] = useState<string | null>(null); // null while drafting a new set
+    const [draft, setDraft] = useState<TemplateSetInput | null>(null);
+    const [previewAction, setPreviewAction] = useState('supports');
+    const [previewClaim, setPreviewClaim] = useState(SAMPLE_CLAIM);
+    const [preview, setPreview] = useState<ChatMessage[]>([]);
+    const [error, setError] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const defaultSet = templateSets.find(set => set.id === DEFAULT_TEMPLATE_SET_ID);
+    const editingSet = templateSets.find(set => set.id === editingId);
+    const readOnly = !!editingSet?.builtIn;
+
+    const selectSet = useCallback((set: PromptTemplateSet) => {
+        setEditingId(set.id);
+        setDraft(toDraft(set));
+        setPreview([]);
+        setError('');
+    }, []);
+
+    const loadTemplateSets = useCallback(async () => {
+        try {
+            const sets = await fetchTemplateSets();
+            setTemplateSets(sets);
+            return sets;
+        } catch (error) {
+            debug.trackError(error as Error, 'template_settings', 'load_error');
+            setError((error as Error).message);
+            return [];
+        }
+    }, []);
+
+    // Read the store directly so pinning a set doesn't reload the editor and drop unsaved edits
+    useEffect(() => {
+        if (!isOpen) return;
+
+        const { templateSetId: pinnedId, selectedNode: node } = useStore.getState();
+        debug.info('template_settings', 'opened', 'Prompt template settings opened', { templateSetId: pinnedId });
+
+        loadTemplateSets().then(sets => {
+            const initial = sets.find(set => set.id === (pinnedId || DEFAULT_TEMPLATE_SET_ID)) || sets[0];
+            if (initial) selectSet(initial);
+        });
+        if (node) setPreviewClaim(node.data.label);
+    }, [isOpen, loadTemplateSets, selectSet]);
+
+    const handleNew = () => {
+        setEditingId(null);
+        setDraft({
+            name: 'Untitled template set',
+            description: '',
+            baseInstruction: defaultSet?.baseInstruction || '',
+            relations: {}
+        });
+        setPreview([]);
+        setError('');
+    };
+
+    const handleDuplicate = () => {
+        if (!draft) return;
+        setEditingId(null);
+        setDraft({ ...draft, name: `${draft.name} (copy)`, relations: { ...draft.relations } });
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+
+        setIsSaving(true);
+        setError('');
+        try {
+            const saved = await saveTemplateSet(draft, editingId || undefined);
+            await loadTemplateSets();
+            selectSet(saved);
+        } catch (error) {
+            setError((error as Error).message);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (!editingSet || editingSet.builtIn) return;
+        if (!window.confirm(`Delete the template set "${editingSet.name}"?`)) return;
+
+        try {
+            await deleteTemplateSet(editingSet.id);
+            if (templateSetId === editingSet.id) setTemplateSetId(null);
+            const sets = await loadTemplateSets();
+            if (sets[0]) selectSet(sets[0]);
+        } catch (error) {
+            setError((error as Error).message);
+        }
+    };
+
+    const handlePin = () => {
+        if (!editingId) return;
+        setTemplateSetId(editingId === DEFAULT_TEMPLATE_SET_ID ? null : editingId);
+    };
+
+    const handlePreview = async () => {
+        if (!draft) return;
+
+        const { nodes, edges } = useStore.getState();
+        const context = selectedNode ? buildGraphContext(nodes, edges, selectedNode.id, previewAction) : undefined;
+
+        setError('');
+        try {
+            setPreview(await previewPrompt(draft, previewAction, previewClaim, context));
+        } catch (error) {
+            setError((error as Error).message);
+        }
+    };
+
+    const updateRelation = (relationId: string, template: string) => {
+        if (!draft) return;
+        setDraft({ ...draft, relations: { ...draft.relations, [relationId]: template } });
+    };
+
+    if (!isOpen) return null;
+
+    const pinnedId = templateSetId || DEFAULT_TEMPLATE_SET_ID;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-11/12 h-5/6 max-w-6xl flex flex-col">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold">📝 Prompt Templates</h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                <div className="flex-1 flex overflow-hidden">
+                    {/* Template set list */}
+                    <div className="w-64 border-r p-4 space-y-2 overflow-y-auto">
+                        {templateSets.map(set => (
+                            <button
+                                key={set.id}
+                                onClick={() => selectSet(set)}
+                                className={`w-full text-left px-3 py-2 rounded border ${set.id === editingId ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+                            >
+                                <div className="text-sm font-medium text-gray-800">
+                                    {set.name} {set.id === pinnedId && <span title="Used for this graph">📌</span>}
+                                </div>
+                                {set.description && (
+                                    <div className="text-xs text-gray-500 truncate">{set.description}</div>
+                                )}
+                            </button>
+                        ))}
+                        <button
+                            onClick={handleNew}
+                            className="w-full border border-dashed border-gray-300 hover:bg-gray-50 text-gray-600 text-sm py-2 rounded"
+                        >
+                            ➕ New template set
+                        </button>
+                    </div>
+
+                    {/* Editor */}
+                    {draft && (
+                        <div className="flex-1 p-4 overflow-y-auto space-y-4">
+                            {readOnly && (
+                                <div className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded p-2">
+                                    Built-in template sets are read-only. Duplicate this set to customise it.
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Name</label>
+                                    <input
+                                        value={draft.name}
+                                        disabled={readOnly}
+                                        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                        className="w-full border rounded px-2 py-1"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium mb-1">Description</label>
+                                    <input
+                                        value={draft.description || ''}
+                                        disabled={readOnly}
+                                        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                                        className="w-full border rounded px-2 py-1"
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="text-xs text-gray-500">
+                                Variables: <code>{'{{claim}}'}</code>, <code>{'{{context}}'}</code> (ancestor chain and
+                                existing siblings, appended after the base instruction when not used),{' '}
+                                <code>{'{{root}}'}</code>, <code>{'{{relation}}'}</code> and <code>{'{{relationLabel}}'}</code>.
+                                The JSON reply format is always added to the system message.
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-1">Base instruction</label>
+                                <textarea
+                                    value={draft.baseInstruction}
+                                    disabled={readOnly}
+                                    onChange={(e) => setDraft({ ...draft, baseInstruction: e.target.value })}
+                                    className="w-full border rounded px-2 py-1 text-sm font-mono"
+                                    rows={4}
+                                />
+                            </div>
+
+                            {relations.map(relation => (
+                                <div key={relation.id}>
+                                    <label className="block text-sm font-medium mb-1">
+                                        {relation.icon} {relation.label}
+                                    </label>
+                                    <textarea
+                                        value={draft.relations[relation.id] || ''}
+                                        placeholder={defaultSet?.relations[relation.id]}
+                                        disabled={readOnly}
+                                        onChange={(e) => updateRelation(relation.id, e.target.value)}
+                                        className="w-full border rounded px-2 py-1 text-sm font-mono"
+                                        rows={3}
+                                    />
+                                </div>
+                            ))}
+
+                            <div className="flex flex-wrap gap-2">
+                                {!readOnly && (
+                                    <button
+                                        onClick={handleSave}
+                                        disabled={isSaving}
+                                        className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-400 text-white px-3 py-2 rounded"
+                                    >
+                                        {isSaving ? 'Saving...' : 'Save'}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={handleDuplicate}
+                                    className="border border-gray-300 hover:bg-gray-100 text-gray-700 px-3 py-2 rounded"
+                                >
+                                    Duplicate
+                                </button>
+                                {editingId && (
+                                    <button
+                                        onClick={handlePin}
+                                        disabled={editingId === pinnedId}
+                                        className="border border-gray-300 hover:bg-gray-100 disabled:text-gray-400 text-gray-700 px-3 py-2 rounded"
+                                    >
+                                        📌 {editingId === pinnedId ? 'Used for this graph' : 'Use for this graph'}
+                                    </button>
+                                )}
+                                {editingId && !readOnly && (
+                                    <button
+                                        onClick={handleDelete}
+                                        className="bg-red-500 hover:bg-red-600 text-white px-3 py-2 rounded"
+                                    >
+                                        Delete
+                                    </button>
+                                )}
+                            </div>
+
+                            {error && (
+                                <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+                            )}
+
+                            {/* Preview */}
+                            <div className="border-t pt-4">
+                                <h3 className="font-semibold mb-2">Preview</h3>
+                                <div className="flex gap-2 mb-2">
+                                    <select
+                                        value={previewAction}
+                                        onChange={(e) => setPreviewAction(e.target.value)}
+                                        className="border rounded px-2 py-1"
+                                    >
+                                        {relations.map(relation => (
+                                            <option key={relation.id} value={relation.id}>{relation.label}</option>
+                                        ))}
+                                    </select>
+                                    <input
+                                        value={previewClaim}
+                                        onChange={(e) => setPreviewClaim(e.target.value)}
+                                        className="flex-1 border rounded px-2 py-1"
+                                    />
+                                    <button
+                                        onClick={handlePreview}
+                                        className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded"
+                                    >
+                                        Render
+                                    </button>
+                                </div>
+                                {preview.map((message, index) => (
+                                    <div key={index} className="mb-2">
+                                        <div className="text-xs font-semibold text-gray-500 uppercase">{message.role}</div>
+                                        <pre className="bg-gray-50 border rounded p-2 text-xs whitespace-pre-wrap">{message.content}</pre>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptTemplateSettings;
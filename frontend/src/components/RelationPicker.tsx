@@ -0,0 +1,48 @@
+import React from 'react';
+import { Action, RelationInfo } from '../types';
+
+interface RelationPickerProps {
+    sourceLabel: string; // The claim being responded to
+    targetLabel: string; // The responding claim
+    relations: RelationInfo[];
+    onPick: (relation: Action) => void;
+    onCancel: () => void;
+}
+
+// Shown after dragging a connection between two claims, to say how they relate
+const RelationPicker: React.FC<RelationPickerProps> = ({ sourceLabel, targetLabel, relations, onPick, onCancel }) => {
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onCancel}>
+            <div className="bg-white rounded-lg shadow-xl w-96 p-4" onClick={(e) => e.stopPropagation()}>
+                <h2 className="text-lg font-bold mb-2">How do these claims relate?</h2>
+                <div className="text-sm text-gray-600 mb-3 space-y-1">
+                    <div className="truncate"><span className="font-medium">Claim:</span> {sourceLabel}</div>
+                    <div className="truncate"><span className="font-medium">Response:</span> {targetLabel}</div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    {relations.map(relation => (
+                        <button
+                            key={relation.id}
+                            onClick={() => onPick(relation.id)}
+                            style={{ backgroundColor: relation.color }}
+                            className="w-full hover:opacity-90 text-white font-medium py-2 px-4 rounded transition-colors"
+                            title={`The response ${relation.verb} the claim`}
+                        >
+                            {relation.icon} {relation.label}
+                        </button>
+                    ))}
+                </div>
+
+                <button
+                    onClick={onCancel}
+                    className="block w-full mt-3 border border-gray-300 hover:bg-gray-100 text-gray-700 py-1 px-4 rounded transition-colors"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RelationPicker;
@@ -0,0 +1,212 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useStore } from '../store/useStore';
+import { flushGraph } from '../store/graphSync';
+import { SnapshotSummary } from '../types';
+import { createSnapshot, deleteSnapshot, fetchSnapshot, fetchSnapshots } from '../services/api';
+import { debug } from '../shared/debug';
+
+interface SnapshotPanelProps {
+    isOpen: boolean;
+    onClose: () => void;
+}
+
+// Checkpoints and automatic snapshots of the open graph, with compare and restore
+const SnapshotPanel: React.FC<SnapshotPanelProps> = ({ isOpen, onClose }) => {
+    const { graphId, replaceGraph, setComparison } = useStore();
+    const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(false);
+
+    const loadSnapshots = useCallback(async () => {
+        if (!graphId) {
+            setSnapshots([]);
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            setSnapshots(await fetchSnapshots(graphId));
+        } catch (error) {
+            debug.trackError(error as Error, 'snapshot_panel', 'load_error');
+            setError((error as Error).message);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [graphId]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+
+        debug.info('snapshot_panel', 'opened', 'Snapshot panel opened', { graphId });
+        setError('');
+        setSelectedIds([]);
+        loadSnapshots();
+    }, [isOpen, graphId, loadSnapshots]);
+
+    // Every action reports failures inline rather than closing the panel
+    const run = async (action: () => Promise<void>) => {
+        setError('');
+        try {
+            await action();
+        } catch (error) {
+            debug.trackError(error as Error, 'snapshot_panel', 'action_error');
+            setError((error as Error).message);
+        }
+    };
+
+    // Snapshots are taken from the backend copy, so outstanding edits are saved first
+    const handleCheckpoint = () => run(async () => {
+        if (!graphId) return;
+        const name = window.prompt('Name of the checkpoint', `Checkpoint ${new Date().toLocaleString()}`);
+        if (name === null) return;
+
+        await flushGraph();
+        await createSnapshot(graphId, name.trim() || 'Checkpoint');
+        await loadSnapshots();
+    });
+
+    const toggleSelected = (id: string) => {
+        setSelectedIds(selectedIds.indexOf(id) !== -1
+            ? selectedIds.filter(selected => selected !== id)
+            : [...selectedIds.slice(-1), id]);
+    };
+
+    const handleCompareWithCurrent = (summary: SnapshotSummary) => run(async () => {
+        if (!graphId) return;
+        const snapshot = await fetchSnapshot(graphId, summary.id);
+        setComparison({ from: snapshot, to: null });
+        onClose();
+    });
+
+    // The older snapshot is always the "from" side
+    const handleCompareSelected = () => run(async () => {
+        if (!graphId || selectedIds.length !== 2) return;
+        const [first, second] = await Promise.all(selectedIds.map(id => fetchSnapshot(graphId, id)));
+        const [from, to] = first.createdAt <= second.createdAt ? [first, second] : [second, first];
+        setComparison({ from, to });
+        onClose();
+    });
+
+    const handleRestore = (summary: SnapshotSummary) => run(async () => {
+        if (!graphId) return;
+        if (!window.confirm(`Replace the graph with "${summary.name}"? You can undo this.`)) return;
+
+        const snapshot = await fetchSnapshot(graphId, summary.id);
+        replaceGraph(snapshot.nodes, snapshot.edges, `Restore "${snapshot.name}"`);
+        setComparison(null);
+        onClose();
+    });
+
+    const handleDelete = (summary: SnapshotSummary) => run(async () => {
+        if (!graphId) return;
+        if (!window.confirm(`Delete the snapshot "${summary.name}"?`)) return;
+
+        await deleteSnapshot(graphId, summary.id);
+        setSelectedIds(selectedIds.filter(id => id !== summary.id));
+        await loadSnapshots();
+    });
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-lg shadow-xl w-11/12 h-5/6 max-w-3xl flex flex-col">
+                {/* Header */}
+                <div className="flex justify-between items-center p-4 border-b">
+                    <h2 className="text-xl font-bold">🕓 Versions</h2>
+                    <button
+                        onClick={onClose}
+                        className="text-gray-500 hover:text-gray-700"
+                    >
+                        ✕
+                    </button>
+                </div>
+
+                {/* Controls */}
+                <div className="flex gap-2 p-4 border-b items-center">
+                    <button
+                        onClick={handleCheckpoint}
+                        disabled={!graphId}
+                        className="bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white px-3 py-1 rounded"
+                    >
+                        📍 Checkpoint
+                    </button>
+                    <button
+                        onClick={handleCompareSelected}
+                        disabled={selectedIds.length !== 2}
+                        className="border border-gray-300 hover:bg-gray-100 disabled:text-gray-300 disabled:hover:bg-white text-gray-700 px-3 py-1 rounded"
+                    >
+                        Compare selected
+                    </button>
+                    <span className="text-xs text-gray-500">
+                        Automatic snapshots are taken while you edit, at most every few minutes
+                    </span>
+                </div>
+
+                {error && (
+                    <div className="mx-4 mt-4 text-sm text-red-600 bg-red-50 border border-red-200 rounded p-2">{error}</div>
+                )}
+
+                {/* Snapshot list */}
+                <div className="flex-1 overflow-y-auto p-4 space-y-2">
+                    {!graphId && (
+                        <div className="text-sm text-gray-500">Add a claim first; versions are kept once the graph is saved.</div>
+                    )}
+                    {graphId && isLoading && snapshots.length === 0 && (
+                        <div className="text-sm text-gray-500">Loading versions...</div>
+                    )}
+                    {graphId && !isLoading && snapshots.length === 0 && (
+                        <div className="text-sm text-gray-500">No versions yet. Create a checkpoint before trying something out.</div>
+                    )}
+                    {snapshots.map(snapshot => (
+                        <div
+                            key={snapshot.id}
+                            className={`border rounded p-3 flex items-center gap-3 ${selectedIds.indexOf(snapshot.id) !== -1 ? 'border-blue-400 bg-blue-50' : 'border-gray-200'}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={selectedIds.indexOf(snapshot.id) !== -1}
+                                onChange={() => toggleSelected(snapshot.id)}
+                                title="Select two versions to compare them"
+                            />
+                            <div className="flex-1 min-w-0">
+                                <div className="font-medium text-gray-800 truncate">
+                                    {snapshot.name}
+                                    {snapshot.kind === 'auto' && (
+                                        <span className="ml-2 text-xs bg-gray-100 text-gray-600 rounded px-1">auto</span>
+                                    )}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.nodeCount} {snapshot.nodeCount === 1 ? 'claim' : 'claims'}, {snapshot.edgeCount} {snapshot.edgeCount === 1 ? 'relation' : 'relations'}
+                                </div>
+                            </div>
+                            <div className="flex gap-1 flex-shrink-0">
+                                <button
+                                    onClick={() => handleCompareWithCurrent(snapshot)}
+                                    className="bg-blue-500 hover:bg-blue-600 text-white text-sm px-2 py-1 rounded"
+                                >
+                                    Compare
+                                </button>
+                                <button
+                                    onClick={() => handleRestore(snapshot)}
+                                    className="border border-gray-300 hover:bg-gray-100 text-gray-700 text-sm px-2 py-1 rounded"
+                                >
+                                    Restore
+                                </button>
+                                <button
+                                    onClick={() => handleDelete(snapshot)}
+                                    className="bg-red-500 hover:bg-red-600 text-white text-sm px-2 py-1 rounded"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default SnapshotPanel;
@@ -1,60 +1,291 @@
-import { ArgumentNode, Action } from '../types';
-import { debug } from '../utils/debug';
+import { ArgumentNode, ArgumentEdge, Action, ChatMessage, GraphContext, GraphRecord, GraphSnapshot, GraphSummary, PromptTemplateSet, ProviderInfo, RelationInfo, SessionStatus, SnapshotSummary } from '../types';
+import { debug, LogEntry, PerformanceSnapshot } from '../shared/debug';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000';
 
-// Generate a unique session ID for this browser session
-const sessionId = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
-
 debug.info('api_service', 'initialization', 'API service initialized', {
     apiBaseUrl: API_BASE_URL,
-    sessionId,
     environment: process.env.NODE_ENV || 'development'
 });
 
+// Sent as X-Request-ID: the backend logs its handling of the request under the same id, so
+// DebugPanel can show both sides of it together
+function traceHeaders(requestId: string, headers: Record<string, string> = {}): Record<string, string> {
+    return { ...headers, 'X-Request-ID': requestId };
+}
+
+// Error codes match backend/src/services/errors.ts
+export class APIError extends Error {
+    readonly code?: string;
+    readonly status?: number;
+
+    constructor(message: string, code?: string, status?: number) {
+        super(message);
+        this.name = 'APIError';
+        this.code = code;
+        this.status = status;
+    }
+}
+
+export async function fetchProviders(): Promise<ProviderInfo[]> {
+    const requestId = debug.trackAPIRequest('GET', `${API_BASE_URL}/api/providers`);
+
+    const response = await fetch(`${API_BASE_URL}/api/providers`, { headers: traceHeaders(requestId) });
+
+    debug.trackAPIResponse(requestId, response.status);
+
+    if (!response.ok) {
+        throw new Error(`Failed to load providers (HTTP ${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.providers;
+}
+
+export async function fetchRelations(): Promise<RelationInfo[]> {
+    const requestId = debug.trackAPIRequest('GET', `${API_BASE_URL}/api/relations`);
+
+    const response = await fetch(`${API_BASE_URL}/api/relations`, { headers: traceHeaders(requestId) });
+
+    debug.trackAPIResponse(requestId, response.status);
+
+    if (!response.ok) {
+        throw new Error(`Failed to load relations (HTTP ${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.relations;
+}
+
+export async function fetchModels(providerId: string): Promise<string[]> {
+    const url = `${API_BASE_URL}/api/providers/${encodeURIComponent(providerId)}/models`;
+    const requestId = debug.trackAPIRequest('GET', url);
+
+    const response = await fetch(url, { credentials: 'include', headers: traceHeaders(requestId) });
+
+    debug.trackAPIResponse(requestId, response.status);
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.error || `Failed to load models (HTTP ${response.status})`);
+    }
+
+    const data = await response.json();
+    return data.models;
+}
+
+// Fields of a template set the user can edit
+export type TemplateSetInput = Pick<PromptTemplateSet, 'name' | 'description' | 'baseInstruction' | 'relations'>;
+
+// JSON request against one of the backend's REST resources; throws with the server's message
+async function resourceRequest(method: string, path: string, body?: unknown): Promise<any> {
+    const url = `${API_BASE_URL}${path}`;
+    const requestId = debug.trackAPIRequest(method, url, body);
+
+    const response = await fetch(url, {
+        method,
+        credentials: 'include',
+        headers: traceHeaders(requestId, body ? { 'Content-Type': 'application/json' } : {}),
+        body: body ? JSON.stringify(body) : undefined,
+    });
+
+    debug.trackAPIResponse(requestId, response.status);
+
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        debug.error('api_service', 'resource_request_error', 'API request failed', {
+            method,
+            path,
+            status: response.status,
+            error: errorData
+        }, { requestId });
+        throw new APIError(errorData.message || errorData.error || `Request failed (HTTP ${response.status})`, errorData.code, response.status);
+    }
+
+    return response.status === 204 ? null : response.json();
+}
+
+function templateRequest(method: string, path: string, body?: unknown): Promise<any> {
+    return resourceRequest(method, `/api/prompt-templates${path}`, body);
+}
+
+export async function fetchTemplateSets(): Promise<PromptTemplateSet[]> {
+    const data = await templateRequest('GET', '');
+    return data.templateSets;
+}
+
+// Creates a new set when id is omitted, otherwise replaces the existing one
+export async function saveTemplateSet(input: TemplateSetInput, id?: string): Promise<PromptTemplateSet> {
+    const data = id
+        ? await templateRequest('PUT', `/${encodeURIComponent(id)}`, input)
+        : await templateRequest('POST', '', input);
+
+    debug.info('api_service', 'template_set_saved', 'Prompt template set saved', {
+        templateSetId: data.templateSet.id,
+        created: !id
+    });
+
+    return data.templateSet;
+}
+
+export async function deleteTemplateSet(id: string): Promise<void> {
+    await templateRequest('DELETE', `/${encodeURIComponent(id)}`);
+
+    debug.info('api_service', 'template_set_deleted', 'Prompt template set deleted', { templateSetId: id });
+}
+
+// Renders the messages the backend would send, for an unsaved draft or a saved set
+export async function previewPrompt(
+    template: TemplateSetInput | string,
+    action: Action,
+    claim: string,
+    context?: GraphContext
+): Promise<ChatMessage[]> {
+    const data = await templateRequest('POST', '/preview', {
+        ...(typeof template === 'string' ? { templateSetId: template } : { template }),
+        action,
+        claim,
+        context
+    });
+    return data.messages;
+}
+
+// Fields of a graph that can be saved; omitted fields keep their stored value
+export type GraphInput = Partial<Pick<GraphRecord, 'name' | 'nodes' | 'edges' | 'templateSetId'>>;
+
+export async function fetchGraphs(): Promise<GraphSummary[]> {
+    const data = await resourceRequest('GET', '/api/graphs');
+    return data.graphs;
+}
+
+export async function fetchGraph(id: string): Promise<GraphRecord> {
+    const data = await resourceRequest('GET', `/api/graphs/${encodeURIComponent(id)}`);
+    return data.graph;
+}
+
+export async function createGraph(input: GraphInput): Promise<GraphRecord> {
+    const data = await resourceRequest('POST', '/api/graphs', input);
+
+    debug.info('api_service', 'graph_created', 'Graph created on backend', { graphId: data.graph.id });
+
+    return data.graph;
+}
+
+export async function updateGraph(id: string, input: GraphInput): Promise<GraphRecord> {
+    const data = await resourceRequest('PUT', `/api/graphs/${encodeURIComponent(id)}`, input);
+    return data.graph;
+}
+
+export async function duplicateGraph(id: string, name?: string): Promise<GraphRecord> {
+    const data = await resourceRequest('POST', `/api/graphs/${encodeURIComponent(id)}/duplicate`, name ? { name } : undefined);
+    return data.graph;
+}
+
+export async function deleteGraph(id: string): Promise<void> {
+    await resourceRequest('DELETE', `/api/graphs/${encodeURIComponent(id)}`);
+
+    debug.info('api_service', 'graph_deleted', 'Graph deleted on backend', { graphId: id });
+}
+
+function snapshotPath(graphId: string, snapshotId?: string): string {
+    const base = `/api/graphs/${encodeURIComponent(graphId)}/snapshots`;
+    return snapshotId ? `${base}/${encodeURIComponent(snapshotId)}` : base;
+}
+
+export async function fetchSnapshots(graphId: string): Promise<SnapshotSummary[]> {
+    const data = await resourceRequest('GET', snapshotPath(graphId));
+    return data.snapshots;
+}
+
+export async function fetchSnapshot(graphId: string, snapshotId: string): Promise<GraphSnapshot> {
+    const data = await resourceRequest('GET', snapshotPath(graphId, snapshotId));
+    return data.snapshot;
+}
+
+// A checkpoint of the graph as last saved on the backend
+export async function createSnapshot(graphId: string, name: string): Promise<GraphSnapshot> {
+    const data = await resourceRequest('POST', snapshotPath(graphId), { name });
+
+    debug.info('api_service', 'snapshot_created', 'Snapshot created on backend', {
+        graphId,
+        snapshotId: data.snapshot.id
+    });
+
+    return data.snapshot;
+}
+
+export async function deleteSnapshot(graphId: string, snapshotId: string): Promise<void> {
+    await resourceRequest('DELETE', snapshotPath(graphId, snapshotId));
+}
+
+// WebSocket address of a graph's live collaboration room, on the same host as the API
+export function collabUrl(graphId: string, clientId: string, name: string): string {
+    const params = new URLSearchParams({ graphId, clientId, name });
+    return `${API_BASE_URL.replace(/^http/, 'ws')}/api/collab?${params.toString()}`;
+}
+
+// Claims and relations converted from an AIF corpus (shared/aif.ts), not yet laid out or saved
+export interface AifImport {
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    warnings: string[];
+}
+
+// The saved graph as an AIF JSON document
+export async function fetchGraphAif(id: string): Promise<unknown> {
+    return resourceRequest('GET', `/api/graphs/${encodeURIComponent(id)}/aif`);
+}
+
+export async function importAif(document: unknown): Promise<AifImport> {
+    return resourceRequest('POST', '/api/aif/import', document);
+}
+
 export async function setupAPIKey(
-    provider: 'openai' | 'openrouter',
-    apiKey: string,
-    model?: string
+    provider: string,
+    apiKey?: string,
+    model?: string,
+    baseUrl?: string
 ): Promise<void> {
-    debug.startTimer('setup_api_key');
+    const requestId = debug.createRequestId();
+    const timerId = debug.startTimer('setup_api_key', undefined, { requestId });
 
     try {
         debug.info('api_service', 'setup_key_start', 'Setting up API key', {
             provider,
             model,
-            hasApiKey: !!apiKey,
-            sessionId
-        });
+            baseUrl,
+            hasApiKey: !!apiKey
+        }, { requestId });
 
         const requestBody = {
-            sessionId,
             provider,
             apiKey,
             model,
+            baseUrl,
         };
 
-        debug.trackAPIRequest('POST', `${API_BASE_URL}/api/setup-key`, requestBody);
+        // The key itself stays out of the logs
+        debug.trackAPIRequest('POST', `${API_BASE_URL}/api/setup-key`, { ...requestBody, apiKey: apiKey ? '[REDACTED]' : undefined }, { requestId });
 
         const response = await fetch(`${API_BASE_URL}/api/setup-key`, {
             method: 'POST',
-            headers: {
+            credentials: 'include',
+            headers: traceHeaders(requestId, {
                 'Content-Type': 'application/json',
-            },
+            }),
             body: JSON.stringify(requestBody),
         });
 
-        debug.trackAPIResponse('POST', `${API_BASE_URL}/api/setup-key`, response.status);
+        debug.trackAPIResponse(requestId, response.status);
 
         if (!response.ok) {
             const errorData = await response.json();
             debug.error('api_service', 'setup_key_error', 'API key setup failed', {
                 status: response.status,
                 error: errorData,
-                provider,
-                sessionId
-            });
-            throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
+                provider
+            }, { requestId });
+            throw new Error(errorData.message || errorData.error || `HTTP error! status: ${response.status}`);
         }
 
         // Store the provider info in localStorage for UI display
@@ -63,47 +294,189 @@ export async function setupAPIKey(
 
         debug.info('api_service', 'setup_key_success', 'API key setup completed successfully', {
             provider,
-            model,
-            sessionId
-        });
+            model
+        }, { requestId });
 
     } catch (error) {
-        debug.trackError(error as Error, 'api_service', 'setup_key_failed');
+        debug.trackError(error as Error, 'api_service', 'setup_key_failed', { requestId });
         console.error('Error setting up API key:', error);
         throw error;
     } finally {
-        debug.endTimer('setup_api_key');
+        debug.endTimer(timerId);
+    }
+}
+
+// Which provider generations from this browser will use; validate also checks the key with
+// the provider. The session itself is a cookie the backend sets in setupAPIKey.
+export async function fetchSessionStatus(validate = false): Promise<SessionStatus> {
+    const data = await resourceRequest('GET', `/api/session${validate ? '?validate=true' : ''}`);
+    return data.session;
+}
+
+// Hands a batch of the frontend's log entries to the backend, which logs them with its own.
+// Not logged itself, or every batch would make the next one. keepalive lets the last batch
+// go out while the page is closed.
+export async function shipLogs(entries: LogEntry[], keepalive = false): Promise<void> {
+    const response = await fetch(`${API_BASE_URL}/api/logs`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entries }),
+        keepalive
+    });
+
+    if (!response.ok) {
+        throw new APIError(`Shipping logs failed (HTTP ${response.status})`, undefined, response.status);
+    }
+}
+
+// The backend's debug endpoints only answer on the backend's own machine unless it has an
+// admin token, and not at all in production
+async function debugRequest(path: string): Promise<any> {
+    const response = await fetch(`${API_BASE_URL}${path}`, { credentials: 'include' });
+
+    if (!response.ok) {
+        const message = response.status === 404
+            ? 'Backend debug endpoints are disabled'
+            : `Backend debug endpoints are not available here (HTTP ${response.status})`;
+        throw new APIError(message, undefined, response.status);
+    }
+
+    return response.json();
+}
+
+// The backend's log entries for one request
+export async function fetchBackendTrace(requestId: string): Promise<LogEntry[]> {
+    const data = await debugRequest(`/debug/logs?requestId=${encodeURIComponent(requestId)}`);
+    return data.logs;
+}
+
+// The backend's timing statistics, as served to Prometheus at /metrics
+export async function fetchBackendPerformance(): Promise<PerformanceSnapshot> {
+    const data = await debugRequest('/debug/metrics');
+    return data.performance;
+}
+
+// Makes the backend forget the key set up in this browser
+export async function revokeSession(): Promise<void> {
+    await resourceRequest('DELETE', '/api/session');
+    localStorage.removeItem('dianoia_provider');
+    localStorage.removeItem('dianoia_model');
+
+    debug.info('api_service', 'session_revoked', 'Session key revoked');
+}
+
+// Sent while the backend backs off after a retryable provider error
+export interface RetryInfo {
+    code: string;
+    message: string;
+    provider: string;
+    retry: number;
+    maxRetries: number;
+    delayMs: number;
+}
+
+// Sent when the backend gives up on one provider and moves to the next in its chain
+export interface FallbackInfo {
+    code: string;
+    message: string;
+    from: { provider: string; model: string };
+    to: { provider: string; model: string };
+}
+
+export interface GenerateStreamHandlers {
+    // Called once with the placeholder node/edge before any text arrives
+    onStart?: (newNode: ArgumentNode, newEdge: ArgumentEdge) => void;
+    // Called for every streamed chunk with the text received so far
+    onToken?: (token: string, text: string) => void;
+    // The streamed text restarts after either of these
+    onRetry?: (info: RetryInfo) => void;
+    onFallback?: (info: FallbackInfo) => void;
+    signal?: AbortSignal;
+}
+
+export interface GeneratedElements {
+    newNode: ArgumentNode;
+    newEdge: ArgumentEdge;
+}
+
+interface StreamEvent {
+    event: string;
+    data: any;
+}
+
+// Splits a server-sent event stream body into events as they arrive
+async function readEventStream(response: Response, onEvent: (event: StreamEvent) => void): Promise<void> {
+    if (!response.body) {
+        throw new Error('Streaming is not supported by this browser');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let separatorIndex = buffer.indexOf('\n\n');
+        while (separatorIndex !== -1) {
+            const rawEvent = buffer.slice(0, separatorIndex);
+            buffer = buffer.slice(separatorIndex + 2);
+            separatorIndex = buffer.indexOf('\n\n');
+
+            let event = 'message';
+            let data = '';
+            rawEvent.split('\n').forEach(line => {
+                if (line.startsWith('event:')) event = line.slice(6).trim();
+                if (line.startsWith('data:')) data += line.slice(5).trim();
+            });
+
+            if (data) {
+                onEvent({ event, data: JSON.parse(data) });
+            }
+        }
     }
 }
 
 export async function generateAndAddNode(
     sourceNode: ArgumentNode,
-    action: Action
-): Promise<{ newNode: ArgumentNode; newEdge: any }> {
-    debug.startTimer('generate_and_add_node');
+    action: Action,
+    context?: GraphContext,
+    handlers: GenerateStreamHandlers = {},
+    templateSetId?: string
+): Promise<GeneratedElements> {
+    const requestId = debug.createRequestId();
+    const timerId = debug.startTimer('generate_and_add_node', undefined, { requestId });
 
     try {
-        debug.info('api_service', 'generate_request_start', 'Starting generate request', {
+        debug.info('api_service', 'generate_request_start', 'Starting streamed generate request', {
             action,
             sourceNodeId: sourceNode.id,
             sourceNodeLabel: sourceNode.data.label,
-            sessionId
-        });
+            ancestorCount: context?.ancestors.length || 0,
+            siblingCount: context?.siblings.length || 0
+        }, { requestId });
 
         const requestBody = {
             sourceNode,
             action,
-            sessionId,
+            context,
+            templateSetId,
         };
 
-        debug.trackAPIRequest('POST', `${API_BASE_URL}/api/generate`, requestBody);
+        debug.trackAPIRequest('POST', `${API_BASE_URL}/api/generate/stream`, requestBody, { requestId });
 
-        const response = await fetch(`${API_BASE_URL}/api/generate`, {
+        const response = await fetch(`${API_BASE_URL}/api/generate/stream`, {
             method: 'POST',
-            headers: {
+            credentials: 'include',
+            headers: traceHeaders(requestId, {
                 'Content-Type': 'application/json',
-            },
+            }),
             body: JSON.stringify(requestBody),
+            signal: handlers.signal,
         });
 
         if (!response.ok) {
@@ -112,30 +485,142 @@ export async function generateAndAddNode(
                 status: response.status,
                 error: errorData,
                 action,
-                sourceNodeId: sourceNode.id,
-                sessionId
-            });
-            throw new Error(errorData.message || 'Failed to generate argument');
+                sourceNodeId: sourceNode.id
+            }, { requestId });
+            throw new APIError(errorData.message || errorData.error || 'Failed to generate argument', errorData.code, response.status);
         }
 
-        const data = await response.json();
+        debug.trackAPIResponse(requestId, response.status);
+
+        // Assigned inside the event callback, so TypeScript can't narrow these
+        let result = null as GeneratedElements | null;
+        let streamError = null as APIError | null;
+        let text = '';
+
+        await readEventStream(response, ({ event, data }) => {
+            switch (event) {
+                case 'start':
+                    handlers.onStart?.(data.newNode, data.newEdge);
+                    break;
+                case 'token':
+                    text += data.token;
+                    handlers.onToken?.(data.token, text);
+                    break;
+                case 'retry':
+                    text = '';
+                    handlers.onRetry?.(data);
+                    break;
+                case 'fallback':
+                    text = '';
+                    handlers.onFallback?.(data);
+                    break;
+                case 'done':
+                    result = data;
+                    break;
+                case 'error':
+                    streamError = new APIError(data.message || data.error || 'Failed to generate argument', data.code);
+                    break;
+            }
+        });
 
-        debug.trackAPIResponse('POST', `${API_BASE_URL}/api/generate`, response.status);
+        if (streamError) {
+            throw streamError;
+        }
+        if (!result) {
+            throw new Error('Generation stream ended unexpectedly');
+        }
+
+        const { newNode, newEdge } = result;
 
         debug.info('api_service', 'generate_request_success', 'Generate request completed successfully', {
             action,
             sourceNodeId: sourceNode.id,
-            newNodeId: data.newNode?.id,
-            newEdgeId: data.newEdge?.id,
-            sessionId
+            newNodeId: newNode.id,
+            newEdgeId: newEdge.id
+        }, { requestId });
+
+        return result;
+    } catch (error) {
+        if (handlers.signal?.aborted) {
+            debug.info('api_service', 'generate_request_cancelled', 'Generate request cancelled by user', {
+                action,
+                sourceNodeId: sourceNode.id
+            }, { requestId });
+        } else {
+            debug.trackError(error as Error, 'api_service', 'generate_request_failed', { requestId });
+            console.error('API Error:', error);
+        }
+        throw error;
+    } finally {
+        debug.endTimer(timerId);
+    }
+}
+
+// Non-streaming generation of several alternative claims for the user to choose from
+export async function generateCandidates(
+    sourceNode: ArgumentNode,
+    action: Action,
+    count: number,
+    context?: GraphContext,
+    templateSetId?: string
+): Promise<GeneratedElements[]> {
+    const requestId = debug.createRequestId();
+    const timerId = debug.startTimer('generate_candidates', undefined, { requestId });
+
+    try {
+        debug.info('api_service', 'candidates_request_start', 'Requesting candidate claims', {
+            action,
+            count,
+            sourceNodeId: sourceNode.id
+        }, { requestId });
+
+        const requestBody = {
+            sourceNode,
+            action,
+            context,
+            count,
+            templateSetId,
+        };
+
+        debug.trackAPIRequest('POST', `${API_BASE_URL}/api/generate`, requestBody, { requestId });
+
+        const response = await fetch(`${API_BASE_URL}/api/generate`, {
+            method: 'POST',
+            credentials: 'include',
+            headers: traceHeaders(requestId, {
+                'Content-Type': 'application/json',
+            }),
+            body: JSON.stringify(requestBody),
         });
 
-        return data;
+        debug.trackAPIResponse(requestId, response.status);
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            debug.error('api_service', 'candidates_request_error', 'Candidate request failed', {
+                status: response.status,
+                error: errorData,
+                action,
+                sourceNodeId: sourceNode.id
+            }, { requestId });
+            throw new APIError(errorData.message || errorData.error || 'Failed to generate candidates', errorData.code, response.status);
+        }
+
+        const data = await response.json();
+        const candidates: GeneratedElements[] = data.candidates || [{ newNode: data.newNode, newEdge: data.newEdge }];
+
+        debug.info('api_service', 'candidates_request_success', 'Candidate request completed successfully', {
+            action,
+            requested: count,
+            received: candidates.length
+        }, { requestId });
+
+        return candidates;
     } catch (error) {
-        debug.trackError(error as Error, 'api_service', 'generate_request_failed');
+        debug.trackError(error as Error, 'api_service', 'candidates_request_failed', { requestId });
         console.error('API Error:', error);
         throw error;
     } finally {
-        debug.endTimer('generate_and_add_node');
+        debug.endTimer(timerId);
     }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { debug, LogEntry } from '../shared/debug';
+import { shipLogs } from './api';
+
+// Sends the frontend's log entries to the backend (POST /api/logs), which logs them along
+// with its own, so the log files hold both sides of every request. Entries are batched;
+// debug and trace entries stay in the browser. While the backend can't be reached entries
+// are kept for the next try, up to a limit, oldest dropped first.
+
+const SHIP_INTERVAL_MS = 5000;
+const MAX_BATCH = 100;
+const MAX_PENDING = 500;
+const SHIPPED_LEVELS = ['error', 'warn', 'info'];
+const TRANSPORT_NAME = 'backend';
+
+// Starts shipping; returns a function that ships what is left and stops
+export function startLogShipping(): () => void {
+    let pending: LogEntry[] = [];
+    let shipping = false;
+
+    const ship = (keepalive = false) => {
+        if (shipping || pending.length === 0) return;
+
+        const batch = pending.slice(0, MAX_BATCH);
+        pending = pending.slice(batch.length);
+        shipping = true;
+
+        shipLogs(batch, keepalive).then(
+            () => {
+                shipping = false;
+            },
+            () => {
+                shipping = false;
+                pending = batch.concat(pending).slice(-MAX_PENDING);
+            }
+        );
+    };
+
+    debug.addTransport({
+        name: TRANSPORT_NAME,
+        write: (entry: LogEntry) => {
+            if (SHIPPED_LEVELS.indexOf(entry.level) === -1) return;
+            pending.push(entry);
+            if (pending.length > MAX_PENDING) pending.shift();
+            if (pending.length >= MAX_BATCH) ship();
+        }
+    });
+
+    const interval = setInterval(() => ship(), SHIP_INTERVAL_MS);
+
+    // The page may be closed after it is hidden, without another chance to ship
+    const handleVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') ship(true);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    debug.info('log_shipping', 'start', 'Shipping logs to the backend', { intervalMs: SHIP_INTERVAL_MS });
+
+    return () => {
+        debug.removeTransport(TRANSPORT_NAME);
+        clearInterval(interval);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+        ship(true);
+    };
+}
@@ -0,0 +1,277 @@
+import { nanoid } from 'nanoid';
+import { useStore } from './useStore';
+import { readGraphCache } from './graphCache';
+import { ArgumentNode, ArgumentEdge } from '../types';
+import {
+    CollabDoc,
+    CollabOp,
+    SEED_COUNTER,
+    ServerMessage,
+    applyOps,
+    createDoc,
+    diffToOps,
+    docOps,
+    docToGraph
+} from '../shared/collab';
+import { collabUrl } from '../services/api';
+import { debug } from '../shared/debug';
+
+// Live collaboration on the open graph. Local edits are diffed into a CRDT doc (see
+// shared/collab) and sent as ops; ops from others are merged into the doc and the result
+// replaces the graph in the store. The doc outlives dropped connections, so edits made
+// while disconnected are sent again on reconnect and merge like any others. While live the
+// backend room saves the graph, so graphSync leaves nodes and edges alone.
+
+const FLUSH_DELAY_MS = 50;
+const RECONNECT_MIN_MS = 1000;
+const RECONNECT_MAX_MS = 15000;
+const NAME_KEY = 'dianoia-collab-name';
+
+// Close codes the backend uses for rooms that can't be (re)joined
+const CLOSE_UNKNOWN_GRAPH = 4404;
+const CLOSE_GRAPH_DELETED = 4410;
+
+let socket: WebSocket | null = null;
+let socketGraphId: string | null = null;
+let doc: CollabDoc = createDoc();
+let docGraphId: string | null = null; // Graph the doc belongs to, set on its first welcome
+let clientId = nanoid(); // Per tab; the backend may hand out another one
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let reconnectDelay = RECONNECT_MIN_MS;
+let applyingRemote = false;
+
+export function getCollabName(): string {
+    return localStorage.getItem(NAME_KEY) || 'Guest';
+}
+
+// Rejoins under the new name so everyone else sees it
+export function setCollabName(name: string): void {
+    localStorage.setItem(NAME_KEY, name.trim() || 'Guest');
+    const graphId = socketGraphId;
+    disconnect();
+    if (graphId) connect(graphId);
+}
+
+function send(ops: CollabOp[]): void {
+    if (ops.length > 0 && socket && socket.readyState === WebSocket.OPEN && useStore.getState().collabStatus === 'live') {
+        socket.send(JSON.stringify({ type: 'ops', ops }));
+    }
+}
+
+function sendPresence(): void {
+    if (socket && socket.readyState === WebSocket.OPEN && useStore.getState().collabStatus === 'live') {
+        const selectedNode = useStore.getState().selectedNode;
+        socket.send(JSON.stringify({ type: 'presence', selectedNodeId: selectedNode ? selectedNode.id : null }));
+    }
+}
+
+// Local edits since the last flush become ops; sent when live, kept in the doc otherwise.
+// Takes the state to diff so edits to a graph being closed still go out.
+function flushLocal(state: Pick<ReturnType<typeof useStore.getState>, 'graphId' | 'nodes' | 'edges'> = useStore.getState()): void {
+    if (flushTimer) {
+        clearTimeout(flushTimer);
+        flushTimer = null;
+    }
+
+    const { graphId, nodes, edges } = state;
+    if (!graphId || graphId !== docGraphId) return;
+
+    const ops = diffToOps(doc, nodes, edges, clientId);
+    if (ops.length === 0) return;
+
+    applyOps(doc, ops);
+    send(ops);
+}
+
+function scheduleFlush(): void {
+    if (!flushTimer) flushTimer = setTimeout(flushLocal, FLUSH_DELAY_MS);
+}
+
+function sameNode(a: ArgumentNode, b: ArgumentNode): boolean {
+    return a.position.x === b.position.x &&
+        a.position.y === b.position.y &&
+        a.data.label === b.data.label &&
+        a.data.title === b.data.title &&
+        a.data.author === b.data.author &&
+        a.data.rationale === b.data.rationale &&
+        !!a.data.pinned === !!b.data.pinned;
+}
+
+// Puts the doc's graph in the store, keeping unchanged objects (and the streaming flag of
+// claims still being generated here) so the canvas only redraws what changed
+function applyDocToStore(): void {
+    const store = useStore.getState();
+    const merged = docToGraph(doc);
+    const localNodes = new Map(store.nodes.map(node => [node.id, node] as [string, ArgumentNode]));
+    const localEdges = new Map(store.edges.map(edge => [edge.id, edge] as [string, ArgumentEdge]));
+
+    const nodes = merged.nodes.map(node => {
+        const local = localNodes.get(node.id);
+        if (!local) return node;
+        if (sameNode(local, node)) return local;
+        return local.data.pending ? { ...node, data: { ...node.data, pending: true } } : node;
+    });
+    const edges = merged.edges.map(edge => {
+        const local = localEdges.get(edge.id);
+        return local && local.source === edge.source && local.target === edge.target && local.data.relation === edge.data.relation
+            ? local
+            : edge;
+    });
+
+    applyingRemote = true;
+    try {
+        store.applyCollabGraph(nodes, edges);
+    } finally {
+        applyingRemote = false;
+    }
+}
+
+function handleWelcome(graphId: string, message: Extract<ServerMessage, { type: 'welcome' }>): void {
+    clientId = message.clientId;
+
+    let ownOps: CollabOp[];
+    if (docGraphId === graphId) {
+        // Back after a dropped connection: everything edited here goes again, and only what
+        // the room hasn't seen wins there
+        flushLocal();
+        ownOps = docOps(doc).filter(op => op.stamp.counter > SEED_COUNTER);
+        applyOps(doc, message.ops);
+    } else {
+        // First join: the room's graph is the starting point, except for edits cached here
+        // that never reached the backend, which win as graphSync's do
+        doc = createDoc();
+        docGraphId = graphId;
+        applyOps(doc, message.ops);
+        const { nodes, edges } = useStore.getState();
+        ownOps = readGraphCache()?.dirty ? diffToOps(doc, nodes, edges, clientId) : [];
+        applyOps(doc, ownOps);
+    }
+
+    useStore.getState().setCollabStatus('live');
+    useStore.getState().setPeers(message.peers.filter(peer => peer.clientId !== clientId));
+    applyDocToStore();
+    send(ownOps);
+    sendPresence();
+    reconnectDelay = RECONNECT_MIN_MS;
+
+    debug.info('collab', 'joined', 'Joined collaboration room', {
+        graphId,
+        clientId,
+        peers: message.peers.length - 1,
+        resentOps: ownOps.length
+    });
+}
+
+function handleMessage(graphId: string, event: MessageEvent): void {
+    let message: ServerMessage;
+    try {
+        message = JSON.parse(event.data);
+    } catch (error) {
+        debug.trackError(error as Error, 'collab', 'message_parse_error');
+        return;
+    }
+
+    if (message.type === 'welcome') {
+        handleWelcome(graphId, message);
+    } else if (message.type === 'ops') {
+        // Local edits go into the doc first so the merged graph doesn't drop them
+        flushLocal();
+        if (applyOps(doc, message.ops).length > 0) applyDocToStore();
+    } else if (message.type === 'presence') {
+        useStore.getState().setPeers(message.peers.filter(peer => peer.clientId !== clientId));
+    } else if (message.type === 'error') {
+        debug.warn('collab', 'server_error', message.message, { graphId });
+    }
+}
+
+function scheduleReconnect(graphId: string): void {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (useStore.getState().graphId === graphId) connect(graphId);
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_MS);
+}
+
+function connect(graphId: string): void {
+    const store = useStore.getState();
+    store.setCollabStatus('connecting');
+    socketGraphId = graphId;
+
+    let opened: WebSocket;
+    try {
+        opened = new WebSocket(collabUrl(graphId, clientId, getCollabName()));
+    } catch (error) {
+        debug.trackError(error as Error, 'collab', 'connect_error');
+        store.setCollabStatus('offline');
+        scheduleReconnect(graphId);
+        return;
+    }
+    socket = opened;
+
+    opened.onmessage = event => {
+        if (socket === opened) handleMessage(graphId, event);
+    };
+    opened.onclose = event => {
+        if (socket !== opened) return;
+        socket = null;
+        useStore.getState().setPeers([]);
+
+        // The graph is gone from the backend; graphSync takes it from here
+        if (event.code === CLOSE_UNKNOWN_GRAPH || event.code === CLOSE_GRAPH_DELETED) {
+            debug.warn('collab', 'room_unavailable', event.reason || 'Collaboration room unavailable', { graphId, code: event.code });
+            useStore.getState().setCollabStatus('off');
+            socketGraphId = null;
+            return;
+        }
+
+        debug.info('collab', 'disconnected', 'Collaboration connection lost', { graphId, code: event.code });
+        useStore.getState().setCollabStatus('offline');
+        scheduleReconnect(graphId);
+    };
+}
+
+function disconnect(): void {
+    if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+    }
+    flushLocal();
+
+    const closing = socket;
+    socket = null;
+    socketGraphId = null;
+    if (closing) closing.close(1000, 'Left the graph');
+
+    reconnectDelay = RECONNECT_MIN_MS;
+    useStore.getState().setPeers([]);
+    useStore.getState().setCollabStatus('off');
+}
+
+// Follows the open graph: joins its room once it has a backend id and leaves it when
+// another graph is opened. Returns a function that stops collaborating.
+export function startCollab(): () => void {
+    debug.info('collab', 'start', 'Starting live collaboration');
+
+    const unsubscribe = useStore.subscribe((state, previous) => {
+        if (state.graphId !== previous.graphId) {
+            flushLocal(previous);
+            disconnect();
+            if (state.graphId) connect(state.graphId);
+            return;
+        }
+        if (applyingRemote) return;
+
+        if (state.nodes !== previous.nodes || state.edges !== previous.edges) scheduleFlush();
+        if (state.selectedNode?.id !== previous.selectedNode?.id) sendPresence();
+    });
+
+    const graphId = useStore.getState().graphId;
+    if (graphId) connect(graphId);
+
+    return () => {
+        unsubscribe();
+        disconnect();
+    };
+}
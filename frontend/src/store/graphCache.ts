@@ -0,0 +1,31 @@
+import { ArgumentNode, ArgumentEdge } from '../types';
+import { GraphHistory } from './history';
+
+// localStorage copy of the open graph. The backend is the source of truth; this cache lets
+// the app start instantly and keep working offline until the next successful sync.
+
+export const GRAPH_CACHE_KEY = 'dianoia-graph';
+
+export interface GraphCache {
+    graphId?: string | null; // Backend id, null until the graph has been created there
+    name?: string;
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    templateSetId?: string | null;
+    dirty?: boolean; // Has changes the backend has not acknowledged yet
+    history?: GraphHistory; // Undo/redo stack, kept locally only
+}
+
+export function readGraphCache(): GraphCache | null {
+    const saved = localStorage.getItem(GRAPH_CACHE_KEY);
+    if (!saved) return null;
+
+    const parsed = JSON.parse(saved);
+    return { ...parsed, nodes: parsed.nodes || [], edges: parsed.edges || [] };
+}
+
+// Merges the given fields into the cached graph
+export function writeGraphCache(update: Partial<GraphCache>): void {
+    const current = readGraphCache() || { nodes: [], edges: [] };
+    localStorage.setItem(GRAPH_CACHE_KEY, JSON.stringify({ ...current, ...update }));
+}
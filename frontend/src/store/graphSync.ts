@@ -0,0 +1,258 @@
+import { useStore } from './useStore';
+import { readGraphCache, writeGraphCache } from './graphCache';
+import { GraphRecord } from '../types';
+import { APIError, GraphInput, createGraph, fetchGraph, updateGraph } from '../services/api';
+import { debug } from '../shared/debug';
+
+// Keeps the open graph in step with the backend. Every change lands in the localStorage
+// cache immediately (see useStore) and is marked dirty; saves to /api/graphs are debounced
+// and retried until the backend acknowledges them, so the app keeps working offline.
+
+const SAVE_DEBOUNCE_MS = 1000;
+const RETRY_INTERVAL_MS = 15000;
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let revision = 0; // Bumped on every local change so a save knows whether it is still current
+let currentSave: Promise<void> | null = null;
+let saveAgain = false;
+let applyingRemote = false;
+
+// While collaborating live the backend room saves claims and relations (see store/collab),
+// and a save from here could undo what others just did
+function toInput(): GraphInput {
+    const { graphName, nodes, edges, templateSetId, collabStatus } = useStore.getState();
+    return collabStatus === 'live'
+        ? { name: graphName, templateSetId }
+        : { name: graphName, nodes, edges, templateSetId };
+}
+
+// APIErrors carry an HTTP status; anything else means the request never reached the backend
+function failureStatus(error: unknown): 'offline' | 'error' {
+    return (error as APIError).status ? 'error' : 'offline';
+}
+
+function cancelScheduledSave(): void {
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+}
+
+function scheduleSave(delayMs: number): void {
+    cancelScheduledSave();
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        saveGraph();
+    }, delayMs);
+}
+
+function saveGraph(): Promise<void> {
+    if (currentSave) {
+        saveAgain = true;
+        return currentSave;
+    }
+
+    currentSave = runSave().finally(() => {
+        currentSave = null;
+    });
+    return currentSave;
+}
+
+async function runSave(): Promise<void> {
+    const store = useStore.getState();
+
+    // Streaming placeholders change on every token; save once they have settled
+    if (store.nodes.some(node => node.data.pending)) {
+        scheduleSave(SAVE_DEBOUNCE_MS);
+        return;
+    }
+
+    const savingRevision = revision;
+    store.setSyncStatus('saving');
+
+    try {
+        if (store.graphId) {
+            try {
+                await updateGraph(store.graphId, toInput());
+            } catch (error) {
+                // Deleted on the backend; keep the local copy by saving it as a new graph
+                if ((error as APIError).status !== 404) throw error;
+                debug.warn('graph_sync', 'graph_missing', 'Graph no longer exists on backend, recreating it', {
+                    graphId: store.graphId
+                });
+                const record = await createGraph(toInput());
+                store.setGraphId(record.id);
+            }
+        } else {
+            const record = await createGraph(toInput());
+            store.setGraphId(record.id);
+        }
+
+        if (revision === savingRevision) {
+            writeGraphCache({ dirty: false });
+            store.setSyncStatus('saved');
+        } else {
+            saveAgain = true;
+        }
+
+        debug.trace('graph_sync', 'graph_saved', 'Graph saved to backend', {
+            graphId: useStore.getState().graphId,
+            revision: savingRevision
+        });
+    } catch (error) {
+        debug.trackError(error as Error, 'graph_sync', 'save_error');
+        store.setSyncStatus(failureStatus(error));
+        scheduleSave(RETRY_INTERVAL_MS);
+        return;
+    }
+
+    if (saveAgain) {
+        saveAgain = false;
+        scheduleSave(SAVE_DEBOUNCE_MS);
+    }
+}
+
+function markDirty(): void {
+    revision++;
+    try {
+        writeGraphCache({ dirty: true });
+    } catch (error) {
+        debug.trackError(error as Error, 'graph_sync', 'cache_write_error');
+    }
+    scheduleSave(SAVE_DEBOUNCE_MS);
+}
+
+// Replaces the open graph without treating it as a local edit; null starts a blank graph
+function applyRemote(record: GraphRecord | null): void {
+    const store = useStore.getState();
+    applyingRemote = true;
+    try {
+        if (record) {
+            store.applyGraphRecord(record);
+        } else {
+            store.resetGraph();
+        }
+    } finally {
+        applyingRemote = false;
+    }
+    store.setSyncStatus(record ? 'saved' : 'idle');
+}
+
+// Saves outstanding edits before the open graph is replaced, so switching never drops work,
+// or before the backend reads it for an export
+export async function flushGraph(): Promise<void> {
+    if (useStore.getState().nodes.some(node => node.data.pending)) {
+        throw new Error('Wait for the claim being generated to finish first');
+    }
+
+    cancelScheduledSave();
+    if (currentSave) await currentSave;
+    if (readGraphCache()?.dirty) await saveGraph();
+
+    if (readGraphCache()?.dirty) {
+        throw new Error('The open graph could not be saved to the backend. Its changes are kept locally; try again once it is reachable');
+    }
+}
+
+export async function openGraph(graphId: string): Promise<void> {
+    if (graphId === useStore.getState().graphId) return;
+
+    await flushGraph();
+    const record = await fetchGraph(graphId);
+    applyRemote(record);
+
+    debug.info('graph_sync', 'graph_opened', 'Opened graph', {
+        graphId,
+        nodesCount: record.nodes.length
+    });
+}
+
+export async function openNewGraph(input: GraphInput): Promise<void> {
+    await flushGraph();
+    applyRemote(await createGraph(input));
+}
+
+// Starts a blank graph once the open one has been deleted; the backend record is created
+// with its first claim
+export function closeGraph(): void {
+    cancelScheduledSave();
+    revision++;
+    applyRemote(null);
+}
+
+// Brings the backend and the cache together once loadFromLocalStorage has run. A graph id
+// from the URL takes precedence over the cached graph.
+async function initialSync(requestedGraphId: string | null): Promise<void> {
+    const store = useStore.getState();
+
+    if (requestedGraphId && requestedGraphId !== store.graphId) {
+        try {
+            await openGraph(requestedGraphId);
+            return;
+        } catch (error) {
+            debug.trackError(error as Error, 'graph_sync', 'open_requested_error');
+            store.setSyncStatus(failureStatus(error));
+        }
+    }
+
+    if (!store.graphId) {
+        // Nothing worth creating a backend record for until the first claim exists
+        if (store.nodes.length > 0) await saveGraph();
+        return;
+    }
+
+    // Unsynced local edits win over whatever the backend has
+    if (readGraphCache()?.dirty) {
+        await saveGraph();
+        return;
+    }
+
+    try {
+        const record = await fetchGraph(store.graphId);
+        // Joining the live room may have been quicker, and its graph is the newer one
+        if (useStore.getState().collabStatus === 'live') return;
+        applyRemote(record);
+
+        debug.info('graph_sync', 'graph_loaded', 'Graph loaded from backend', {
+            graphId: record.id,
+            nodesCount: record.nodes.length
+        });
+    } catch (error) {
+        if ((error as APIError).status === 404) {
+            await saveGraph();
+            return;
+        }
+        debug.trackError(error as Error, 'graph_sync', 'load_error');
+        store.setSyncStatus(failureStatus(error));
+    }
+}
+
+// Starts syncing the open graph; returns a function that stops it
+export function startGraphSync(requestedGraphId: string | null = null): () => void {
+    debug.info('graph_sync', 'start', 'Starting graph sync', { requestedGraphId });
+
+    const unsubscribe = useStore.subscribe((state, previous) => {
+        if (applyingRemote) return;
+        if (
+            state.nodes !== previous.nodes ||
+            state.edges !== previous.edges ||
+            state.graphName !== previous.graphName ||
+            state.templateSetId !== previous.templateSetId
+        ) {
+            markDirty();
+        }
+    });
+
+    const handleOnline = () => {
+        if (readGraphCache()?.dirty) saveGraph();
+    };
+    window.addEventListener('online', handleOnline);
+
+    initialSync(requestedGraphId);
+
+    return () => {
+        unsubscribe();
+        window.removeEventListener('online', handleOnline);
+        cancelScheduledSave();
+    };
+}
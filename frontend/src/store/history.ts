@@ -0,0 +1,87 @@
+import { ArgumentNode, ArgumentEdge } from '../types';
+
+// Undo history as patches: each step keeps only the nodes and edges it changed, with their
+// value before and after (null when the item didn't exist on that side).
+
+export interface Patch<T> {
+    id: string;
+    before: T | null;
+    after: T | null;
+}
+
+export interface HistoryStep {
+    label: string; // e.g. 'Move claims', shown in the undo/redo tooltips
+    nodes: Patch<ArgumentNode>[];
+    edges: Patch<ArgumentEdge>[];
+}
+
+export interface GraphHistory {
+    past: HistoryStep[]; // Oldest first; the last step is the next to undo
+    future: HistoryStep[]; // The first step is the next to redo
+}
+
+export const MAX_HISTORY_STEPS = 100;
+
+export const EMPTY_HISTORY: GraphHistory = { past: [], future: [] };
+
+function diffItems<T extends { id: string }>(before: T[], after: T[]): Patch<T>[] {
+    const beforeById = new Map(before.map(item => [item.id, item] as [string, T]));
+    const afterById = new Map(after.map(item => [item.id, item] as [string, T]));
+    const patches: Patch<T>[] = [];
+
+    before.forEach(item => {
+        const next = afterById.get(item.id) || null;
+        if (next !== item && JSON.stringify(next) !== JSON.stringify(item)) {
+            patches.push({ id: item.id, before: item, after: next });
+        }
+    });
+    after.forEach(item => {
+        if (!beforeById.has(item.id)) {
+            patches.push({ id: item.id, before: null, after: item });
+        }
+    });
+
+    return patches;
+}
+
+// Null when nothing changed
+export function diffGraph(
+    label: string,
+    before: { nodes: ArgumentNode[]; edges: ArgumentEdge[] },
+    after: { nodes: ArgumentNode[]; edges: ArgumentEdge[] }
+): HistoryStep | null {
+    const nodes = diffItems(before.nodes, after.nodes);
+    const edges = diffItems(before.edges, after.edges);
+    return nodes.length || edges.length ? { label, nodes, edges } : null;
+}
+
+export function pushStep(history: GraphHistory, step: HistoryStep): GraphHistory {
+    return {
+        past: [...history.past, step].slice(-MAX_HISTORY_STEPS),
+        future: []
+    };
+}
+
+function applyPatches<T extends { id: string }>(items: T[], patches: Patch<T>[], side: 'before' | 'after'): T[] {
+    return patches.reduce((result, patch) => {
+        const value = patch[side];
+        if (value === null) {
+            return result.filter(item => item.id !== patch.id);
+        }
+        return result.some(item => item.id === patch.id)
+            ? result.map(item => item.id === patch.id ? value : item)
+            : [...result, value];
+    }, items);
+}
+
+// Rolls a step back ('before') or forward ('after')
+export function applyStep(
+    graph: { nodes: ArgumentNode[]; edges: ArgumentEdge[] },
+    step: HistoryStep,
+    side: 'before' | 'after'
+): { nodes: ArgumentNode[]; edges: ArgumentEdge[] } {
+    return {
+        nodes: applyPatches(graph.nodes, step.nodes, side),
+        edges: applyPatches(graph.edges, step.edges, side)
+    };
+}
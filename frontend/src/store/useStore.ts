@@ -1,21 +1,100 @@
 import { create } from 'zustand';
-import { ArgumentNode, ArgumentEdge } from '../types';
-import { debug } from '../utils/debug';
+import { ArgumentNode, ArgumentEdge, Action, GraphRecord, RelationInfo } from '../types';
+import { readGraphCache, writeGraphCache } from './graphCache';
+import { RemoveMode, connectionError, createEdge, removeNodesFromGraph } from '../utils/graphEdit';
+import { layoutNodes } from '../utils/layout';
+import { EMPTY_HISTORY, GraphHistory, HistoryStep, applyStep, diffGraph, pushStep } from './history';
+import { ComparisonSource } from '../utils/graphDiff';
+import { CollabPeer } from '../shared/collab';
+import { debug } from '../shared/debug';
+
+const DEFAULT_GRAPH_NAME = 'Untitled argument';
+const AUTO_LAYOUT_KEY = 'dianoia-auto-layout';
+
+export type SyncStatus = 'idle' | 'saving' | 'saved' | 'offline' | 'error';
+export type CollabStatus = 'off' | 'connecting' | 'live' | 'offline';
+
+// Changes made between beginHistoryGroup and endHistoryGroup become one undo step
+let historyGroup: { label: string; depth: number; nodes: ArgumentNode[]; edges: ArgumentEdge[] } | null = null;
+
+// Insertions of claims that are still streaming in, by claim id. Each is recorded as one step
+// with the final text when its stream finishes, see addPendingResponse.
+const pendingSteps = new Map<string, HistoryStep>();
+
+// History after a mutation; unchanged while a group is still collecting changes
+function recordStep(
+    history: GraphHistory,
+    label: string,
+    before: { nodes: ArgumentNode[]; edges: ArgumentEdge[] },
+    after: { nodes: ArgumentNode[]; edges: ArgumentEdge[] }
+): GraphHistory {
+    if (historyGroup) return history;
+    const step = diffGraph(label, before, after);
+    return step ? pushStep(history, step) : history;
+}
+
+// Re-lays out the graph after an insertion when auto-layout is on
+function arrange(state: { autoLayout: boolean; relations: RelationInfo[] }, nodes: ArgumentNode[], edges: ArgumentEdge[]): ArgumentNode[] {
+    return state.autoLayout ? layoutNodes(nodes, edges, state.relations) : nodes;
+}
 
 interface ArgumentStore {
     nodes: ArgumentNode[];
     edges: ArgumentEdge[];
     selectedNode: ArgumentNode | null;
+    selectedEdgeId: string | null; // Relation shown in the edge inspector
     isLoading: boolean;
+    relations: RelationInfo[]; // Relation registry loaded from the backend
+    templateSetId: string | null; // Prompt template set pinned to this graph, null for the default
+    graphId: string | null; // Backend id of the open graph, null until first synced
+    graphName: string;
+    syncStatus: SyncStatus;
+    history: GraphHistory; // Undo/redo stack for the open graph
+    autoLayout: boolean; // Lay the graph out again whenever a claim or relation is added
+    comparison: ComparisonSource | null; // Snapshots shown in the compare view instead of the graph
+    collabStatus: CollabStatus; // Live collaboration connection for the open graph (see store/collab)
+    peers: CollabPeer[]; // Other people editing the open graph right now
+    keySetupReason: string | null; // Why the API key dialog is open over the canvas, null while closed
 
     // Actions
     addNode: (node: ArgumentNode) => void;
     addEdge: (edge: ArgumentEdge) => void;
+    addResponse: (node: ArgumentNode, edge: ArgumentEdge) => void;
+    addPendingResponse: (node: ArgumentNode, edge: ArgumentEdge) => void;
+    finishPendingResponse: (nodeId: string, data: Partial<ArgumentNode['data']>) => void;
+    discardPendingResponse: (nodeId: string) => void;
     updateNodeLabel: (nodeId: string, label: string) => void;
+    updateNodeData: (nodeId: string, data: Partial<ArgumentNode['data']>) => void;
     setNodes: (nodes: ArgumentNode[]) => void;
     setEdges: (edges: ArgumentEdge[]) => void;
+    removeNodes: (nodeIds: string[], mode: RemoveMode) => void;
+    removeEdges: (edgeIds: string[]) => void;
+    connectNodes: (sourceId: string, targetId: string, relation: Action) => ArgumentEdge | null;
+    tidyLayout: () => void;
+    replaceGraph: (nodes: ArgumentNode[], edges: ArgumentEdge[], label: string) => void;
+    setAutoLayout: (enabled: boolean) => void;
     setSelectedNode: (node: ArgumentNode | null) => void;
+    setSelectedEdgeId: (edgeId: string | null) => void;
+    updateEdgeRelation: (edgeId: string, relation: Action) => void;
     setLoading: (loading: boolean) => void;
+    setRelations: (relations: RelationInfo[]) => void;
+    setTemplateSetId: (templateSetId: string | null) => void;
+    setGraphId: (graphId: string | null) => void;
+    setGraphName: (name: string) => void;
+    setSyncStatus: (status: SyncStatus) => void;
+    setComparison: (comparison: ComparisonSource | null) => void;
+    setCollabStatus: (status: CollabStatus) => void;
+    setPeers: (peers: CollabPeer[]) => void;
+    setKeySetupReason: (reason: string | null) => void;
+    applyCollabGraph: (nodes: ArgumentNode[], edges: ArgumentEdge[]) => void;
+    applyGraphRecord: (record: GraphRecord) => void;
+    resetGraph: () => void;
+
+    // History
+    undo: () => void;
+    redo: () => void;
+    beginHistoryGroup: (label: string) => void;
+    endHistoryGroup: () => void;
 
     // Persistence
     saveToLocalStorage: () => void;
@@ -26,7 +105,19 @@ export const useStore = create<ArgumentStore>((set, get) => ({
     nodes: [],
     edges: [],
     selectedNode: null,
+    selectedEdgeId: null,
     isLoading: false,
+    relations: [],
+    templateSetId: null,
+    graphId: null,
+    graphName: DEFAULT_GRAPH_NAME,
+    syncStatus: 'idle',
+    history: EMPTY_HISTORY,
+    autoLayout: localStorage.getItem(AUTO_LAYOUT_KEY) === 'true',
+    comparison: null,
+    collabStatus: 'off',
+    peers: [],
+    keySetupReason: null,
 
     addNode: (node: ArgumentNode) => {
         debug.info('store', 'add_node', 'Adding new node to store', {
@@ -37,8 +128,9 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
 
         set((state) => {
-            const newNodes = [...state.nodes, node];
-            const newState = { ...state, nodes: newNodes };
+            const newNodes = arrange(state, [...state.nodes, node], state.edges);
+            const history = recordStep(state.history, 'Add claim', state, { nodes: newNodes, edges: state.edges });
+            const newState = { ...state, nodes: newNodes, history };
 
             debug.info('store', 'state_change', 'State changed after adding node', {
                 nodeId: node.id,
@@ -47,12 +139,13 @@ export const useStore = create<ArgumentStore>((set, get) => ({
                 newNodesCount: newNodes.length
             });
 
-            // Save to localStorage
+            // Save to the localStorage cache
             try {
-                localStorage.setItem('dianoia-graph', JSON.stringify({
+                writeGraphCache({
                     nodes: newNodes,
-                    edges: state.edges
-                }));
+                    edges: state.edges,
+                    history
+                });
                 debug.trace('store', 'localStorage_save', 'Saved to localStorage after adding node', {
                     nodeId: node.id,
                     totalNodes: newNodes.length
@@ -76,7 +169,9 @@ export const useStore = create<ArgumentStore>((set, get) => ({
 
         set((state) => {
             const newEdges = [...state.edges, edge];
-            const newState = { ...state, edges: newEdges };
+            const newNodes = arrange(state, state.nodes, newEdges);
+            const history = recordStep(state.history, 'Add relation', state, { nodes: newNodes, edges: newEdges });
+            const newState = { ...state, nodes: newNodes, edges: newEdges, history };
 
             debug.info('store', 'state_change', 'State changed after adding edge', {
                 edgeId: edge.id,
@@ -85,12 +180,13 @@ export const useStore = create<ArgumentStore>((set, get) => ({
                 newEdgesCount: newEdges.length
             });
 
-            // Save to localStorage
+            // Save to the localStorage cache
             try {
-                localStorage.setItem('dianoia-graph', JSON.stringify({
-                    nodes: state.nodes,
-                    edges: newEdges
-                }));
+                writeGraphCache({
+                    nodes: newNodes,
+                    edges: newEdges,
+                    history
+                });
                 debug.trace('store', 'localStorage_save', 'Saved to localStorage after adding edge', {
                     edgeId: edge.id,
                     totalEdges: newEdges.length
@@ -103,6 +199,110 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
     },
 
+    // A claim together with the edge linking it to the claim it responds to, as one step
+    addResponse: (node: ArgumentNode, edge: ArgumentEdge) => {
+        debug.info('store', 'add_response', 'Adding response node and edge to store', {
+            nodeId: node.id,
+            edgeId: edge.id,
+            sourceId: edge.source,
+            relation: edge.data.relation
+        });
+
+        set((state) => {
+            const newEdges = [...state.edges, edge];
+            const newNodes = arrange(state, [...state.nodes, node], newEdges);
+            const history = recordStep(state.history, 'Add claim', state, { nodes: newNodes, edges: newEdges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes: newNodes, edges: newEdges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes: newNodes, edges: newEdges, history };
+        });
+    },
+
+    // A streamed claim and its edge, shown while the text arrives. Nothing is recorded until
+    // finishPendingResponse, so undo keeps working during the stream and edits made meanwhile
+    // stay steps of their own.
+    addPendingResponse: (node: ArgumentNode, edge: ArgumentEdge) => {
+        debug.info('store', 'add_pending_response', 'Adding streamed response node and edge to store', {
+            nodeId: node.id,
+            edgeId: edge.id,
+            sourceId: edge.source,
+            relation: edge.data.relation
+        });
+
+        set((state) => {
+            const newEdges = [...state.edges, edge];
+            const newNodes = arrange(state, [...state.nodes, node], newEdges);
+            const step = diffGraph('Generate claim', state, { nodes: newNodes, edges: newEdges });
+            if (step) pendingSteps.set(node.id, step);
+
+            try {
+                writeGraphCache({ nodes: newNodes, edges: newEdges });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes: newNodes, edges: newEdges };
+        });
+    },
+
+    // Applies the final text and records the insertion, with that text, as one step
+    finishPendingResponse: (nodeId: string, data: Partial<ArgumentNode['data']>) => {
+        const step = pendingSteps.get(nodeId);
+        pendingSteps.delete(nodeId);
+
+        set((state) => {
+            const newNodes = state.nodes.map(node =>
+                node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
+            );
+            const finished = newNodes.find(node => node.id === nodeId);
+
+            // Deleted while streaming: there is nothing left to undo
+            let history = state.history;
+            if (step && finished) {
+                history = pushStep(history, {
+                    ...step,
+                    nodes: step.nodes.map(patch => patch.id === nodeId ? { ...patch, after: finished } : patch),
+                    edges: step.edges.map(patch => ({
+                        ...patch,
+                        after: state.edges.find(edge => edge.id === patch.id) || patch.after
+                    }))
+                });
+            }
+
+            try {
+                writeGraphCache({ nodes: newNodes, edges: state.edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes: newNodes, history };
+        });
+    },
+
+    // Drops a streamed claim that never completed, leaving no trace in the history
+    discardPendingResponse: (nodeId: string) => {
+        pendingSteps.delete(nodeId);
+
+        set((state) => {
+            const graph = removeNodesFromGraph(state.nodes, state.edges, [nodeId], 'cascade');
+            const selectedNode = state.selectedNode?.id === nodeId ? null : state.selectedNode;
+
+            try {
+                writeGraphCache(graph);
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, ...graph, selectedNode };
+        });
+    },
+
     updateNodeLabel: (nodeId: string, label: string) => {
         debug.info('store', 'update_node_label', 'Updating node label', {
             nodeId,
@@ -115,7 +315,8 @@ export const useStore = create<ArgumentStore>((set, get) => ({
             const newNodes = state.nodes.map(node =>
                 node.id === nodeId ? { ...node, data: { ...node.data, label } } : node
             );
-            const newState = { ...state, nodes: newNodes };
+            const history = recordStep(state.history, 'Edit claim', state, { nodes: newNodes, edges: state.edges });
+            const newState = { ...state, nodes: newNodes, history };
 
             debug.info('store', 'state_change', 'State changed after updating node label', {
                 nodeId,
@@ -124,12 +325,13 @@ export const useStore = create<ArgumentStore>((set, get) => ({
                 action: 'updateNodeLabel'
             });
 
-            // Save to localStorage
+            // Save to the localStorage cache
             try {
-                localStorage.setItem('dianoia-graph', JSON.stringify({
+                writeGraphCache({
                     nodes: newNodes,
-                    edges: state.edges
-                }));
+                    edges: state.edges,
+                    history
+                });
                 debug.trace('store', 'localStorage_save', 'Saved to localStorage after updating node label', {
                     nodeId,
                     newLabel: label
@@ -142,6 +344,36 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
     },
 
+    updateNodeData: (nodeId: string, data: Partial<ArgumentNode['data']>) => {
+        debug.trace('store', 'update_node_data', 'Updating node data', {
+            nodeId,
+            fields: Object.keys(data)
+        });
+
+        set((state) => {
+            const newNodes = state.nodes.map(node =>
+                node.id === nodeId ? { ...node, data: { ...node.data, ...data } } : node
+            );
+            // Text streaming into a pending claim is part of its insertion step
+            const history = pendingSteps.has(nodeId)
+                ? state.history
+                : recordStep(state.history, 'Edit claim', state, { nodes: newNodes, edges: state.edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({
+                    nodes: newNodes,
+                    edges: state.edges,
+                    history
+                });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes: newNodes, history };
+        });
+    },
+
     setNodes: (nodes: ArgumentNode[]) => {
         debug.info('store', 'set_nodes', 'Setting nodes array', {
             nodesCount: nodes.length,
@@ -149,7 +381,8 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
 
         set((state) => {
-            const newState = { ...state, nodes };
+            const history = recordStep(state.history, 'Update claims', state, { nodes, edges: state.edges });
+            const newState = { ...state, nodes, history };
 
             debug.info('store', 'state_change', 'State changed after setting nodes', {
                 oldNodesCount: state.nodes.length,
@@ -157,12 +390,13 @@ export const useStore = create<ArgumentStore>((set, get) => ({
                 action: 'setNodes'
             });
 
-            // Save to localStorage
+            // Save to the localStorage cache
             try {
-                localStorage.setItem('dianoia-graph', JSON.stringify({
+                writeGraphCache({
                     nodes,
-                    edges: state.edges
-                }));
+                    edges: state.edges,
+                    history
+                });
                 debug.trace('store', 'localStorage_save', 'Saved to localStorage after setting nodes', {
                     nodesCount: nodes.length
                 });
@@ -181,7 +415,8 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
 
         set((state) => {
-            const newState = { ...state, edges };
+            const history = recordStep(state.history, 'Update relations', state, { nodes: state.nodes, edges });
+            const newState = { ...state, edges, history };
 
             debug.info('store', 'state_change', 'State changed after setting edges', {
                 oldEdgesCount: state.edges.length,
@@ -189,12 +424,13 @@ export const useStore = create<ArgumentStore>((set, get) => ({
                 action: 'setEdges'
             });
 
-            // Save to localStorage
+            // Save to the localStorage cache
             try {
-                localStorage.setItem('dianoia-graph', JSON.stringify({
+                writeGraphCache({
                     nodes: state.nodes,
-                    edges
-                }));
+                    edges,
+                    history
+                });
                 debug.trace('store', 'localStorage_save', 'Saved to localStorage after setting edges', {
                     edgesCount: edges.length
                 });
@@ -206,6 +442,151 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
     },
 
+    removeNodes: (nodeIds: string[], mode: RemoveMode) => {
+        debug.info('store', 'remove_nodes', 'Removing nodes', { nodeIds, mode });
+
+        set((state) => {
+            const graph = removeNodesFromGraph(state.nodes, state.edges, nodeIds, mode);
+            const history = recordStep(state.history, nodeIds.length > 1 ? 'Delete claims' : 'Delete claim', state, graph);
+            const selectedNode = state.selectedNode && nodeIds.indexOf(state.selectedNode.id) !== -1 ? null : state.selectedNode;
+
+            debug.info('store', 'state_change', 'State changed after removing nodes', {
+                action: 'removeNodes',
+                oldNodesCount: state.nodes.length,
+                newNodesCount: graph.nodes.length,
+                oldEdgesCount: state.edges.length,
+                newEdgesCount: graph.edges.length
+            });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ ...graph, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, ...graph, history, selectedNode };
+        });
+    },
+
+    removeEdges: (edgeIds: string[]) => {
+        debug.info('store', 'remove_edges', 'Removing edges', { edgeIds });
+
+        set((state) => {
+            const edges = state.edges.filter(edge => edgeIds.indexOf(edge.id) === -1);
+            const history = recordStep(state.history, edgeIds.length > 1 ? 'Delete relations' : 'Delete relation', state, { nodes: state.nodes, edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes: state.nodes, edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            const selectedEdgeId = state.selectedEdgeId && edgeIds.indexOf(state.selectedEdgeId) !== -1 ? null : state.selectedEdgeId;
+
+            return { ...state, edges, history, selectedEdgeId };
+        });
+    },
+
+    updateEdgeRelation: (edgeId: string, relation: Action) => {
+        debug.info('store', 'update_edge_relation', 'Changing edge relation', { edgeId, relation });
+
+        set((state) => {
+            const edges = state.edges.map(edge =>
+                edge.id === edgeId ? { ...edge, data: { ...edge.data, relation } } : edge
+            );
+            const nodes = arrange(state, state.nodes, edges);
+            const history = recordStep(state.history, 'Change relation', state, { nodes, edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes, edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes, edges, history };
+        });
+    },
+
+    // Adds a manual edge; returns null (and changes nothing) when the connection isn't allowed
+    connectNodes: (sourceId: string, targetId: string, relation: Action) => {
+        const error = connectionError(get().edges, sourceId, targetId);
+        if (error) {
+            debug.warn('store', 'connect_rejected', error, { sourceId, targetId, relation });
+            return null;
+        }
+
+        const edge = createEdge(sourceId, targetId, relation);
+        debug.info('store', 'connect_nodes', 'Connecting nodes manually', { edgeId: edge.id, sourceId, targetId, relation });
+
+        set((state) => {
+            const edges = [...state.edges, edge];
+            const nodes = arrange(state, state.nodes, edges);
+            const history = recordStep(state.history, 'Connect claims', state, { nodes, edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes, edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes, edges, history };
+        });
+
+        return edge;
+    },
+
+    tidyLayout: () => {
+        debug.info('store', 'tidy_layout', 'Laying out graph', { nodesCount: get().nodes.length });
+
+        set((state) => {
+            const nodes = layoutNodes(state.nodes, state.edges, state.relations);
+            const history = recordStep(state.history, 'Tidy up', state, { nodes, edges: state.edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes, edges: state.edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes, history };
+        });
+    },
+
+    // Swaps in a whole graph, e.g. a restored snapshot, as one undoable step
+    replaceGraph: (nodes: ArgumentNode[], edges: ArgumentEdge[], label: string) => {
+        debug.info('store', 'replace_graph', 'Replacing graph contents', {
+            label,
+            nodesCount: nodes.length,
+            edgesCount: edges.length
+        });
+
+        set((state) => {
+            const history = recordStep(state.history, label, state, { nodes, edges });
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes, edges, history });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes, edges, history, selectedNode: null, selectedEdgeId: null };
+        });
+    },
+
+    setAutoLayout: (autoLayout: boolean) => {
+        debug.info('store', 'set_auto_layout', 'Toggling auto-layout', { autoLayout });
+
+        set({ autoLayout });
+        localStorage.setItem(AUTO_LAYOUT_KEY, String(autoLayout));
+        if (autoLayout) get().tidyLayout();
+    },
+
     setSelectedNode: (node: ArgumentNode | null) => {
         debug.info('store', 'set_selected_node', 'Setting selected node', {
             nodeId: node?.id || null,
@@ -225,6 +606,12 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
     },
 
+    setSelectedEdgeId: (selectedEdgeId: string | null) => {
+        debug.info('store', 'set_selected_edge', 'Setting selected edge', { edgeId: selectedEdgeId });
+
+        set({ selectedEdgeId });
+    },
+
     setLoading: (loading: boolean) => {
         debug.info('store', 'set_loading', 'Setting loading state', { loading });
 
@@ -241,6 +628,251 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
     },
 
+    setRelations: (relations: RelationInfo[]) => {
+        debug.info('store', 'set_relations', 'Setting relation registry', {
+            relationIds: relations.map(r => r.id)
+        });
+
+        set({ relations });
+    },
+
+    setTemplateSetId: (templateSetId: string | null) => {
+        debug.info('store', 'set_template_set', 'Pinning prompt template set to graph', {
+            oldTemplateSetId: get().templateSetId,
+            newTemplateSetId: templateSetId
+        });
+
+        set({ templateSetId });
+
+        // Kept with the graph, so it is restored along with it
+        try {
+            writeGraphCache({ templateSetId });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    setGraphId: (graphId: string | null) => {
+        debug.info('store', 'set_graph_id', 'Graph linked to backend record', { graphId });
+
+        set({ graphId });
+
+        try {
+            writeGraphCache({ graphId });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    setGraphName: (graphName: string) => {
+        debug.info('store', 'set_graph_name', 'Renaming graph', {
+            oldName: get().graphName,
+            newName: graphName
+        });
+
+        set({ graphName });
+
+        try {
+            writeGraphCache({ name: graphName });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    setSyncStatus: (syncStatus: SyncStatus) => {
+        debug.trace('store', 'set_sync_status', 'Sync status changed', {
+            oldStatus: get().syncStatus,
+            newStatus: syncStatus
+        });
+
+        set({ syncStatus });
+    },
+
+    setComparison: (comparison: ComparisonSource | null) => {
+        debug.info('store', 'set_comparison', comparison ? 'Comparing graph versions' : 'Closed compare view', {
+            from: comparison?.from.name,
+            to: comparison ? comparison.to?.name || 'current' : undefined
+        });
+
+        set({ comparison, selectedNode: null, selectedEdgeId: null });
+    },
+
+    setCollabStatus: (collabStatus: CollabStatus) => {
+        debug.trace('store', 'set_collab_status', 'Collaboration status changed', {
+            oldStatus: get().collabStatus,
+            newStatus: collabStatus
+        });
+
+        set({ collabStatus });
+    },
+
+    setPeers: (peers: CollabPeer[]) => {
+        set({ peers });
+    },
+
+    setKeySetupReason: (keySetupReason: string | null) => {
+        debug.info('store', 'set_key_setup_reason', keySetupReason === null ? 'Closed API key dialog' : 'Opened API key dialog', {
+            reason: keySetupReason
+        });
+
+        set({ keySetupReason });
+    },
+
+    // Takes in the merged graph from collaborators. Not an undo step: undo only reverts
+    // your own changes.
+    applyCollabGraph: (nodes: ArgumentNode[], edges: ArgumentEdge[]) => {
+        debug.trace('store', 'apply_collab_graph', 'Applying changes from collaborators', {
+            nodesCount: nodes.length,
+            edgesCount: edges.length
+        });
+
+        set((state) => {
+            const selectedNode = state.selectedNode ? nodes.find(node => node.id === state.selectedNode?.id) || null : null;
+            const selectedEdgeId = state.selectedEdgeId && edges.some(edge => edge.id === state.selectedEdgeId) ? state.selectedEdgeId : null;
+
+            // Save to the localStorage cache
+            try {
+                writeGraphCache({ nodes, edges });
+            } catch (error) {
+                debug.trackError(error as Error, 'store', 'localStorage_save_error');
+            }
+
+            return { ...state, nodes, edges, selectedNode, selectedEdgeId };
+        });
+    },
+
+    // Replaces the open graph with a record loaded from the backend
+    applyGraphRecord: (record: GraphRecord) => {
+        debug.info('store', 'apply_graph_record', 'Loading graph from backend record', {
+            graphId: record.id,
+            nodesCount: record.nodes.length,
+            edgesCount: record.edges.length
+        });
+
+        // Reloading the open graph keeps its history; patches are matched by id so they still apply
+        const state = {
+            graphId: record.id,
+            graphName: record.name,
+            nodes: record.nodes,
+            edges: record.edges,
+            templateSetId: record.templateSetId || null,
+            history: record.id === get().graphId ? get().history : EMPTY_HISTORY
+        };
+
+        set({ ...state, selectedNode: null, selectedEdgeId: null, comparison: null });
+
+        try {
+            writeGraphCache({ ...state, name: record.name, dirty: false });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    // Starts a blank graph that is not yet linked to a backend record
+    resetGraph: () => {
+        debug.info('store', 'reset_graph', 'Starting a blank graph', { oldGraphId: get().graphId });
+
+        const state = {
+            graphId: null,
+            graphName: DEFAULT_GRAPH_NAME,
+            nodes: [],
+            edges: [],
+            templateSetId: null,
+            history: EMPTY_HISTORY
+        };
+
+        set({ ...state, selectedNode: null, selectedEdgeId: null, comparison: null });
+
+        try {
+            writeGraphCache({ ...state, name: state.graphName, dirty: false });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    undo: () => {
+        const { history, nodes, edges, selectedNode } = get();
+        const step = history.past[history.past.length - 1];
+        if (!step || historyGroup) return;
+
+        debug.info('store', 'undo', 'Undoing step', { label: step.label });
+
+        const restored = applyStep({ nodes, edges }, step, 'before');
+        const newHistory = { past: history.past.slice(0, -1), future: [step, ...history.future] };
+
+        set({
+            ...restored,
+            history: newHistory,
+            selectedNode: selectedNode ? restored.nodes.find(node => node.id === selectedNode.id) || null : null
+        });
+
+        try {
+            writeGraphCache({ ...restored, history: newHistory });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    redo: () => {
+        const { history, nodes, edges, selectedNode } = get();
+        const step = history.future[0];
+        if (!step || historyGroup) return;
+
+        debug.info('store', 'redo', 'Redoing step', { label: step.label });
+
+        const restored = applyStep({ nodes, edges }, step, 'after');
+        const newHistory = { past: [...history.past, step], future: history.future.slice(1) };
+
+        set({
+            ...restored,
+            history: newHistory,
+            selectedNode: selectedNode ? restored.nodes.find(node => node.id === selectedNode.id) || null : null
+        });
+
+        try {
+            writeGraphCache({ ...restored, history: newHistory });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
+    // Groups nest; only the outermost label is kept
+    beginHistoryGroup: (label: string) => {
+        if (historyGroup) {
+            historyGroup.depth++;
+            return;
+        }
+
+        const { nodes, edges } = get();
+        historyGroup = { label, depth: 1, nodes, edges };
+        debug.trace('store', 'history_group_start', 'Started history group', { label });
+    },
+
+    endHistoryGroup: () => {
+        if (!historyGroup) return;
+        if (--historyGroup.depth > 0) return;
+
+        const group = historyGroup;
+        historyGroup = null;
+
+        const { nodes, edges, history } = get();
+        const step = diffGraph(group.label, group, { nodes, edges });
+        debug.trace('store', 'history_group_end', 'Finished history group', {
+            label: group.label,
+            changed: !!step
+        });
+        if (!step) return;
+
+        const newHistory = pushStep(history, step);
+        set({ history: newHistory });
+
+        try {
+            writeGraphCache({ history: newHistory });
+        } catch (error) {
+            debug.trackError(error as Error, 'store', 'localStorage_save_error');
+        }
+    },
+
     saveToLocalStorage: () => {
         const { nodes, edges } = get();
         debug.info('store', 'manual_save', 'Manually saving to localStorage', {
@@ -249,7 +881,7 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         });
 
         try {
-            localStorage.setItem('dianoia-graph', JSON.stringify({ nodes, edges }));
+            writeGraphCache({ nodes, edges });
             debug.info('store', 'manual_save_success', 'Manual save to localStorage successful');
         } catch (error) {
             debug.trackError(error as Error, 'store', 'manual_save_error');
@@ -260,18 +892,31 @@ export const useStore = create<ArgumentStore>((set, get) => ({
         debug.info('store', 'load_from_storage', 'Loading state from localStorage');
 
         try {
-            const saved = localStorage.getItem('dianoia-graph');
+            const saved = readGraphCache();
             if (saved) {
-                const { nodes, edges } = JSON.parse(saved);
-                const newNodes = nodes || [];
-                const newEdges = edges || [];
+                // A reload interrupts any stream. Claims still streaming in may be cut short and
+                // their insertion never reached the history, so they go with their relations.
+                const interrupted = saved.nodes.filter(node => node.data.pending).map(node => node.id);
+                const { nodes: newNodes, edges: newEdges } = removeNodesFromGraph(saved.nodes, saved.edges, interrupted, 'cascade');
+                if (interrupted.length > 0) {
+                    writeGraphCache({ nodes: newNodes, edges: newEdges });
+                }
 
                 debug.info('store', 'load_success', 'Successfully loaded from localStorage', {
                     nodesCount: newNodes.length,
-                    edgesCount: newEdges.length
+                    edgesCount: newEdges.length,
+                    droppedPendingCount: interrupted.length,
+                    graphId: saved.graphId
                 });
 
-                set({ nodes: newNodes, edges: newEdges });
+                set({
+                    nodes: newNodes,
+                    edges: newEdges,
+                    graphId: saved.graphId || null,
+                    graphName: saved.name || get().graphName,
+                    templateSetId: saved.templateSetId || null,
+                    history: saved.history || EMPTY_HISTORY
+                });
             } else {
                 debug.info('store', 'load_no_data', 'No saved data found in localStorage');
             }
@@ -0,0 +1,128 @@
+import { ArgumentNode, ArgumentEdge, Action, RelationInfo } from '../types';
+import { parseArgdown, toArgdown } from './argdown';
+
+const RELATIONS: RelationInfo[] = [
+    ['supports', 'pro'],
+    ['refutes', 'con'],
+    ['unpacks', 'neutral'],
+    ['example', 'pro'],
+    ['rebuts', 'con'],
+    ['undercuts', 'con'],
+    ['qualifies', 'neutral'],
+    ['clarifies', 'neutral']
+].map(([id, polarity]) => ({
+    id,
+    label: id,
+    verb: id,
+    color: '#000000',
+    icon: '',
+    polarity: polarity as RelationInfo['polarity'],
+    dashed: false
+}));
+
+function claim(id: string, label: string, x: number, title?: string): ArgumentNode {
+    return {
+        id,
+        type: 'argumentNode',
+        position: { x, y: 0 },
+        data: title ? { label, author: 'user', title } : { label, author: 'user' }
+    };
+}
+
+function relation(source: string, target: string, kind: Action): ArgumentEdge {
+    return { id: `${source}-${target}`, source, target, type: 'argumentEdge', data: { relation: kind }, animated: true };
+}
+
+// Edges as "source label -> target label: relation", independent of generated ids
+function describeEdges(nodes: ArgumentNode[], edges: ArgumentEdge[]): string[] {
+    const label = (id: string) => nodes.find(node => node.id === id)?.data.label;
+    return edges.map(edge => `${label(edge.source)} -> ${label(edge.target)}: ${edge.data.relation}`).sort();
+}
+
+describe('Argdown round trip', () => {
+    it('keeps claims and every relation type', () => {
+        const nodes = [claim('root', 'Remote work makes teams more productive.', 0)];
+        const edges: ArgumentEdge[] = [];
+        RELATIONS.forEach((info, index) => {
+            const id = `c${index}`;
+            nodes.push(claim(id, `A response that ${info.id} the thesis.`, index * 100));
+            edges.push(relation('root', id, info.id));
+        });
+
+        const result = parseArgdown(toArgdown('Remote work', nodes, edges, RELATIONS), RELATIONS);
+
+        expect(result.title).toBe('Remote work');
+        expect(result.diagnostics).toEqual([]);
+        expect(result.nodes.map(node => node.data.label).sort()).toEqual(nodes.map(node => node.data.label).sort());
+        expect(describeEdges(result.nodes, result.edges)).toEqual(describeEdges(nodes, edges));
+    });
+
+    it('keeps a claim with several parents as one claim', () => {
+        const nodes = [
+            claim('a', 'Cities should ban cars.', 0),
+            claim('b', 'Cars pollute.', -100),
+            claim('c', 'Public transport is cheaper.', 100),
+            claim('shared', 'Air quality improves without cars.', 0, 'Air')
+        ];
+        const edges = [
+            relation('a', 'b', 'supports'),
+            relation('a', 'c', 'supports'),
+            relation('b', 'shared', 'example'),
+            relation('c', 'shared', 'qualifies')
+        ];
+
+        const result = parseArgdown(toArgdown('Cars', nodes, edges, RELATIONS), RELATIONS);
+
+        expect(result.nodes).toHaveLength(4);
+        expect(result.nodes.find(node => node.data.label === 'Air quality improves without cars.')?.data.title).toBe('Air');
+        expect(describeEdges(result.nodes, result.edges)).toEqual(describeEdges(nodes, edges));
+    });
+});
+
+describe('parseArgdown', () => {
+    it('reads outgoing relations and multi-line statements', () => {
+        const result = parseArgdown([
+            '[Thesis]: Remote work makes teams',
+            '    more productive.',
+            '    <- Collaboration suffers.',
+            '    +> [Goal]: Teams should work remotely.'
+        ].join('\n'), RELATIONS);
+
+        expect(result.diagnostics).toEqual([]);
+        // Edges run from the claim being responded to, so +> points back at the thesis
+        expect(describeEdges(result.nodes, result.edges)).toEqual([
+            'Teams should work remotely. -> Remote work makes teams more productive.: supports',
+            'Remote work makes teams more productive. -> Collaboration suffers.: refutes'
+        ].sort());
+    });
+
+    it('warns about unsupported syntax instead of merging it into a statement', () => {
+        const result = parseArgdown([
+            'Remote work makes teams more productive.',
+            '    * a list item',
+            '    + Fewer interruptions.'
+        ].join('\n'), RELATIONS);
+
+        expect(result.nodes.map(node => node.data.label)).toEqual([
+            'Remote work makes teams more productive.',
+            'Fewer interruptions.'
+        ]);
+        expect(result.diagnostics).toEqual([
+            { line: 2, severity: 'warning', message: 'Unsupported syntax "* a list item" was skipped' }
+        ]);
+    });
+
+    it('reports skipped headings, unknown relations and missing statements by line', () => {
+        const result = parseArgdown([
+            '# Heading',
+            'A claim.',
+            '    + A response. {relation: nonsense}'
+        ].join('\n'), RELATIONS);
+
+        expect(result.diagnostics.map(d => d.line)).toEqual([1, 3]);
+        expect(result.edges[0].data.relation).toBe('supports');
+        expect(parseArgdown('// only a comment', RELATIONS).diagnostics).toEqual([
+            { line: 1, severity: 'error', message: 'No statements found' }
+        ]);
+    });
+});
@@ -0,0 +1,377 @@
+import { nanoid } from 'nanoid';
+import { ArgumentNode, ArgumentEdge, Action, RelationInfo } from '../types';
+import { createEdge } from './graphEdit';
+
+// Conversion between Argdown (https://argdown.org) and our nodes and edges. We cover the
+// part of the syntax that maps onto a claim graph:
+//
+//   ===
+//   title: Remote work
+//   ===
+//
+//   [Productivity]: Remote work makes teams more productive.
+//       + Fewer interruptions mean longer stretches of focus.
+//       - [Isolation]: Collaboration suffers without a shared office.
+//           <- Video calls cover most of what teams need.
+//       + An example from our own team. {relation: example}
+//
+// `+`/`<+` support, `-`/`<-` attack and `_`/`<_` undercut the statement above; `+>`, `->`
+// and `_>` point the other way. `[Title]` on its own refers to a statement defined
+// elsewhere. Relations Argdown has no symbol for are written with the closest sign and a
+// `{relation: <id>}` data block so they survive a round trip.
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ArgdownDiagnostic {
+    line: number; // 1-based
+    severity: DiagnosticSeverity;
+    message: string;
+}
+
+export interface ArgdownImport {
+    title?: string; // From the front matter
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    diagnostics: ArgdownDiagnostic[];
+}
+
+const INDENT = '    ';
+
+// Longest operators first so '+>' isn't read as '+'
+const RELATION_LINE = /^(<\+|<-|<_|\+>|->|_>|><|\+|-|_)\s+(.*)$/;
+const OUTGOING_OPERATORS = ['+>', '->', '_>'];
+
+// Lists, quotes and other markup that isn't a statement
+const UNSUPPORTED_LINE = /^(?:[*>|=@~!&^%$]|\d+[.)]\s)/;
+
+const OPERATOR_RELATIONS: Record<string, Action> = {
+    '+': 'supports',
+    '-': 'refutes',
+    '_': 'undercuts',
+    '><': 'refutes'
+};
+
+const RELATION_OPERATORS: Record<string, string> = {
+    supports: '+',
+    refutes: '-',
+    undercuts: '_'
+};
+
+interface ParsedStatement {
+    title?: string;
+    text: string; // Empty for a bare reference
+    data: Record<string, string>;
+    isArgument: boolean;
+}
+
+function parseData(block: string): Record<string, string> {
+    const data: Record<string, string> = {};
+    block.split(',').forEach(pair => {
+        const separator = pair.indexOf(':');
+        if (separator === -1) return;
+        const key = pair.slice(0, separator).trim();
+        const value = pair.slice(separator + 1).trim().replace(/^["']|["']$/g, '');
+        if (key) data[key] = value;
+    });
+    return data;
+}
+
+function parseStatement(source: string): ParsedStatement {
+    let text = source.trim();
+    let data: Record<string, string> = {};
+
+    const dataMatch = text.match(/\s*\{([^{}]*)\}\s*$/);
+    if (dataMatch) {
+        data = parseData(dataMatch[1]);
+        text = text.slice(0, dataMatch.index).trim();
+    }
+
+    const titled = text.match(/^([[<])([^\]>]+)[\]>](?::\s*(.*))?$/);
+    if (titled) {
+        return {
+            title: titled[2].trim(),
+            text: (titled[3] || '').trim(),
+            data,
+            isArgument: titled[1] === '<'
+        };
+    }
+
+    return { text, data, isArgument: false };
+}
+
+// Strips // and /* */ comments; `state.inBlock` carries an open block comment across lines
+function stripComments(line: string, state: { inBlock: boolean }): string {
+    let result = '';
+    let rest = line;
+
+    while (rest) {
+        if (state.inBlock) {
+            const end = rest.indexOf('*/');
+            if (end === -1) return result;
+            state.inBlock = false;
+            rest = rest.slice(end + 2);
+            continue;
+        }
+
+        const start = rest.indexOf('/*');
+        const lineComment = rest.search(/(^|\s)\/\//);
+        if (lineComment !== -1 && (start === -1 || lineComment < start)) {
+            return result + rest.slice(0, lineComment);
+        }
+        if (start === -1) return result + rest;
+
+        result += rest.slice(0, start);
+        state.inBlock = true;
+        rest = rest.slice(start + 2);
+    }
+
+    return result;
+}
+
+export function parseArgdown(source: string, relations: RelationInfo[]): ArgdownImport {
+    const lines = source.replace(/\r\n?/g, '\n').split('\n');
+    const nodes: ArgumentNode[] = [];
+    const edges: ArgumentEdge[] = [];
+    const diagnostics: ArgdownDiagnostic[] = [];
+    const nodesByTitle = new Map<string, ArgumentNode>();
+    const firstReference = new Map<string, number>();
+    const commentState = { inBlock: false };
+    let title: string | undefined;
+
+    const warn = (line: number, message: string) => diagnostics.push({ line, severity: 'warning', message });
+
+    // Statements above the current line, innermost last
+    let stack: { indent: number; node: ArgumentNode }[] = [];
+
+    const statementNode = (statement: ParsedStatement, line: number): ArgumentNode => {
+        if (statement.isArgument) {
+            warn(line, `<${statement.title}> is an argument; it was imported as a claim`);
+        }
+
+        const existing = statement.title ? nodesByTitle.get(statement.title) : undefined;
+        if (existing) {
+            if (statement.text && !existing.data.label) {
+                existing.data.label = statement.text;
+            } else if (statement.text && statement.text !== existing.data.label) {
+                warn(line, `[${statement.title}] is defined twice; the first text was kept`);
+            }
+            return existing;
+        }
+
+        const node: ArgumentNode = {
+            id: nanoid(),
+            type: 'argumentNode',
+            position: { x: 0, y: 0 },
+            data: { label: statement.text, author: 'user' }
+        };
+        if (statement.title) {
+            node.data.title = statement.title;
+            nodesByTitle.set(statement.title, node);
+            if (!statement.text) firstReference.set(statement.title, line);
+        }
+        nodes.push(node);
+        return node;
+    };
+
+    const relationFor = (operator: string, statement: ParsedStatement, line: number): Action => {
+        let relation = OPERATOR_RELATIONS[operator] || OPERATOR_RELATIONS[operator.replace(/[<>]/g, '')];
+        if (operator === '><') {
+            warn(line, 'Contradictions (><) were imported as refutes');
+        }
+
+        const requested = statement.data.relation;
+        if (requested) {
+            if (relations.some(r => r.id === requested)) {
+                relation = requested;
+            } else {
+                warn(line, `Unknown relation "${requested}"; used ${relation} instead`);
+            }
+        }
+        return relation;
+    };
+
+    let lineIndex = 0;
+
+    // Front matter between === fences; only the title is used
+    const firstContent = lines.findIndex(line => line.trim() !== '');
+    if (firstContent !== -1 && lines[firstContent].trim() === '===') {
+        const end = lines.findIndex((line, index) => index > firstContent && line.trim() === '===');
+        if (end === -1) {
+            diagnostics.push({ line: firstContent + 1, severity: 'error', message: 'Front matter is never closed with ===' });
+            return { nodes, edges, diagnostics };
+        }
+        lines.slice(firstContent + 1, end).forEach(line => {
+            const match = line.match(/^\s*title:\s*(.+)$/);
+            if (match) title = match[1].trim().replace(/^["']|["']$/g, '');
+        });
+        lineIndex = end + 1;
+    }
+
+    for (; lineIndex < lines.length; lineIndex++) {
+        const lineNumber = lineIndex + 1;
+        const raw = stripComments(lines[lineIndex].replace(/\t/g, INDENT), commentState);
+        if (!raw.trim()) continue;
+
+        const indent = raw.length - raw.replace(/^ +/, '').length;
+        const content = raw.trim();
+
+        if (/^#+\s/.test(content)) {
+            warn(lineNumber, 'Headings are not supported and were skipped');
+            continue;
+        }
+        if (/^\(\d+\)/.test(content) || /^-{2,}/.test(content)) {
+            warn(lineNumber, 'Premise-conclusion structures are not supported and were skipped');
+            continue;
+        }
+
+        const relationMatch = content.match(RELATION_LINE);
+        if (relationMatch) {
+            const [, operator, rest] = relationMatch;
+            const parents = stack.filter(entry => entry.indent < indent);
+            if (parents.length === 0) {
+                warn(lineNumber, `Relation "${operator}" has no statement above it and was skipped`);
+                continue;
+            }
+
+            const parent = parents[parents.length - 1].node;
+            const statement = parseStatement(rest);
+            if (!statement.text && !statement.title) {
+                warn(lineNumber, `Relation "${operator}" has no statement and was skipped`);
+                continue;
+            }
+
+            const node = statementNode(statement, lineNumber);
+            const relation = relationFor(operator, statement, lineNumber);
+
+            // Edges run from the claim being responded to, to the response
+            const outgoing = OUTGOING_OPERATORS.indexOf(operator) !== -1;
+            const [claim, response] = outgoing ? [node, parent] : [parent, node];
+            if (claim.id === response.id) {
+                warn(lineNumber, 'A statement cannot respond to itself; relation skipped');
+            } else if (!edges.some(edge => edge.source === claim.id && edge.target === response.id)) {
+                edges.push(createEdge(claim.id, response.id, relation));
+            }
+
+            stack = [...parents, { indent, node }];
+            continue;
+        }
+
+        // Reported rather than read as text, which would change the statement unnoticed
+        if (UNSUPPORTED_LINE.test(content)) {
+            const excerpt = content.length > 40 ? `${content.slice(0, 40)}…` : content;
+            warn(lineNumber, `Unsupported syntax "${excerpt}" was skipped`);
+            continue;
+        }
+
+        // An indented line that isn't a relation continues the statement above it
+        if (indent > 0 && stack.length > 0) {
+            const previous = stack[stack.length - 1].node;
+            previous.data.label = previous.data.label ? `${previous.data.label} ${content}` : content;
+            continue;
+        }
+
+        const statement = parseStatement(content);
+        if (Object.keys(statement.data).length > 0) {
+            warn(lineNumber, 'Data on top-level statements is ignored');
+        }
+        stack = [{ indent, node: statementNode(statement, lineNumber) }];
+    }
+
+    if (commentState.inBlock) {
+        warn(lines.length, 'Block comment is never closed');
+    }
+
+    nodes.forEach(node => {
+        if (!node.data.label && node.data.title) {
+            warn(firstReference.get(node.data.title) || 1, `[${node.data.title}] is referenced but never defined; its title was used as the text`);
+            node.data.label = node.data.title;
+        }
+    });
+
+    if (nodes.length === 0) {
+        diagnostics.push({ line: 1, severity: 'error', message: 'No statements found' });
+    }
+
+    return { title, nodes, edges, diagnostics };
+}
+
+// Short title for a claim that has to be referenced from more than one place
+function deriveTitle(label: string): string {
+    const words = label.replace(/[[\]<>{}]/g, '').split(/\s+/).filter(Boolean).slice(0, 5);
+    return words.join(' ') || 'Claim';
+}
+
+export function toArgdown(name: string, nodes: ArgumentNode[], edges: ArgumentEdge[], relations: RelationInfo[]): string {
+    const nodesById = new Map(nodes.map(node => [node.id, node] as [string, ArgumentNode]));
+    const validEdges = edges.filter(edge => nodesById.has(edge.source) && nodesById.has(edge.target));
+    const byX = (a: ArgumentNode, b: ArgumentNode) => a.position.x - b.position.x;
+    const hasIncoming = new Set(validEdges.map(edge => edge.target));
+
+    // Depth-first from each root, reporting every line; a claim reached a second time (several
+    // parents, or a cycle) is reported as a reference
+    const walk = (onLine: (node: ArgumentNode, depth: number, prefix: string, suffix: string, reference: boolean) => void) => {
+        const seen = new Set<string>();
+        const visit = (node: ArgumentNode, depth: number, prefix: string, suffix: string) => {
+            if (seen.has(node.id)) {
+                onLine(node, depth, prefix, suffix, true);
+                return;
+            }
+            seen.add(node.id);
+            onLine(node, depth, prefix, suffix, false);
+
+            validEdges
+                .filter(edge => edge.source === node.id)
+                .map(edge => ({ edge, child: nodesById.get(edge.target) as ArgumentNode }))
+                .sort((a, b) => byX(a.child, b.child))
+                .forEach(({ edge, child }) => {
+                    const symbol = RELATION_OPERATORS[edge.data.relation];
+                    const relation = relations.find(r => r.id === edge.data.relation);
+                    const operator = symbol || (relation?.polarity === 'con' ? '-' : '+');
+                    visit(child, depth + 1, `${operator} `, symbol ? '' : ` {relation: ${edge.data.relation}}`);
+                });
+        };
+
+        nodes.filter(node => !hasIncoming.has(node.id)).sort(byX).forEach(root => visit(root, 0, '', ''));
+        // Claims only reachable through a cycle
+        nodes.forEach(node => {
+            if (!seen.has(node.id)) visit(node, 0, '', '');
+        });
+    };
+
+    // First pass finds the claims that need a title because they are referenced
+    const referenced = new Set<string>();
+    walk((node, depth, prefix, suffix, reference) => {
+        if (reference) referenced.add(node.id);
+    });
+
+    const titles = new Map<string, string>();
+    const usedTitles = new Set<string>();
+    const titleFor = (node: ArgumentNode): string => {
+        const existing = titles.get(node.id);
+        if (existing) return existing;
+
+        const base = node.data.title || deriveTitle(node.data.label);
+        let candidate = base;
+        for (let suffix = 2; usedTitles.has(candidate); suffix++) {
+            candidate = `${base} ${suffix}`;
+        }
+        titles.set(node.id, candidate);
+        usedTitles.add(candidate);
+        return candidate;
+    };
+    // Explicit titles claim their names before derived ones
+    nodes.filter(node => node.data.title).forEach(titleFor);
+
+    const output: string[] = ['===', `title: ${name}`, '===', ''];
+    walk((node, depth, prefix, suffix, reference) => {
+        if (depth === 0 && output[output.length - 1] !== '') output.push('');
+
+        const label = node.data.label.replace(/\s+/g, ' ').trim();
+        const statement = reference ? `[${titleFor(node)}]`
+            : node.data.title || referenced.has(node.id) ? `[${titleFor(node)}]: ${label}`
+            : label;
+        output.push(`${INDENT.repeat(depth)}${prefix}${statement}${suffix}`);
+    });
+
+    return output.join('\n') + '\n';
+}
@@ -0,0 +1,279 @@
+import { getBezierPath, Position as HandlePosition } from 'reactflow';
+import { ArgumentNode, ArgumentEdge, RelationInfo } from '../types';
+import { findRelation } from './relations';
+import { NODE_WIDTH } from './layout';
+
+// Diagram formats for pasting argument maps elsewhere. Every format draws the arrow the way
+// the canvas does, from the response to the claim it responds to, and keeps the relation
+// and each claim's author as attributes or styles.
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+const AUTHOR_FILL: Record<'user' | 'llm', string> = { user: '#eff6ff', llm: '#f0fdf4' };
+const AUTHOR_LABEL: Record<'user' | 'llm', string> = { user: '👤 You', llm: '🤖 AI' };
+const NODE_BORDER = '#d1d5db';
+
+// Graphviz DOT; custom `relation` and `author` attributes ride along with the styling
+export function toDot(name: string, nodes: ArgumentNode[], edges: ArgumentEdge[], relations: RelationInfo[]): string {
+    const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+    const lines = [
+        `digraph ${quote(name)} {`,
+        '    rankdir=BT;',
+        '    node [shape=box, style="rounded,filled", fontname="Helvetica", color="#9ca3af"];',
+        '    edge [fontname="Helvetica", fontsize=10];',
+        ''
+    ];
+
+    nodes.forEach(node => {
+        const attributes = [
+            `label=${quote(node.data.title ? `[${node.data.title}]\n${node.data.label}` : node.data.label)}`,
+            `fillcolor=${quote(AUTHOR_FILL[node.data.author])}`,
+            `author=${quote(node.data.author)}`
+        ];
+        lines.push(`    ${quote(node.id)} [${attributes.join(', ')}];`);
+    });
+    lines.push('');
+
+    edges.forEach(edge => {
+        const relation = findRelation(relations, edge.data.relation);
+        const attributes = [
+            `label=${quote(relation.label)}`,
+            `color=${quote(relation.color)}`,
+            `fontcolor=${quote(relation.color)}`,
+            `style=${relation.dashed ? 'dashed' : 'solid'}`,
+            `relation=${quote(relation.id)}`
+        ];
+        lines.push(`    ${quote(edge.target)} -> ${quote(edge.source)} [${attributes.join(', ')}];`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+// Mermaid flowchart; node ids are renumbered because Mermaid only accepts simple ids
+export function toMermaid(nodes: ArgumentNode[], edges: ArgumentEdge[], relations: RelationInfo[]): string {
+    const escape = (text: string) => text
+        .replace(/&/g, '#amp;')
+        .replace(/"/g, '#quot;')
+        .replace(/</g, '#lt;')
+        .replace(/>/g, '#gt;')
+        .replace(/\r?\n/g, '<br/>');
+    const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`] as [string, string]));
+    const lines = ['flowchart BT'];
+
+    nodes.forEach(node => {
+        const label = node.data.title ? `<b>[${escape(node.data.title)}]</b><br/>${escape(node.data.label)}` : escape(node.data.label);
+        lines.push(`    ${ids.get(node.id)}["${label}"]:::${node.data.author}`);
+    });
+
+    const linkStyles: string[] = [];
+    edges
+        .filter(edge => ids.has(edge.source) && ids.has(edge.target))
+        .forEach((edge, index) => {
+            const relation = findRelation(relations, edge.data.relation);
+            const arrow = relation.dashed ? '-.->' : '-->';
+            lines.push(`    ${ids.get(edge.target)} ${arrow}|${escape(relation.label)}| ${ids.get(edge.source)}`);
+            linkStyles.push(`    linkStyle ${index} stroke:${relation.color},color:${relation.color}`);
+        });
+
+    lines.push(...linkStyles);
+    lines.push(`    classDef user fill:${AUTHOR_FILL.user},stroke:${NODE_BORDER}`);
+    lines.push(`    classDef llm fill:${AUTHOR_FILL.llm},stroke:${NODE_BORDER}`);
+    return lines.join('\n') + '\n';
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+// GraphML with typed keys, so tools such as yEd and Gephi pick the attributes up
+export function toGraphML(name: string, nodes: ArgumentNode[], edges: ArgumentEdge[], relations: RelationInfo[]): string {
+    const data = (key: string, value: string | undefined) =>
+        value === undefined ? '' : `\n      <data key="${key}">${escapeXml(value)}</data>`;
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+        '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+        '  <key id="author" for="node" attr.name="author" attr.type="string"/>',
+        '  <key id="x" for="node" attr.name="x" attr.type="double"/>',
+        '  <key id="y" for="node" attr.name="y" attr.type="double"/>',
+        '  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>',
+        '  <key id="relationLabel" for="edge" attr.name="relationLabel" attr.type="string"/>',
+        '  <key id="polarity" for="edge" attr.name="polarity" attr.type="string"/>',
+        '  <key id="color" for="edge" attr.name="color" attr.type="string"/>',
+        `  <graph id="${escapeXml(name)}" edgedefault="directed">`
+    ];
+
+    nodes.forEach(node => {
+        lines.push(`    <node id="${escapeXml(node.id)}">` +
+            data('label', node.data.label) +
+            data('title', node.data.title) +
+            data('author', node.data.author) +
+            data('x', String(node.position.x)) +
+            data('y', String(node.position.y)) +
+            '\n    </node>');
+    });
+
+    edges.forEach(edge => {
+        const relation = findRelation(relations, edge.data.relation);
+        lines.push(`    <edge id="${escapeXml(edge.id)}" source="${escapeXml(edge.target)}" target="${escapeXml(edge.source)}">` +
+            data('relation', relation.id) +
+            data('relationLabel', relation.label) +
+            data('polarity', relation.polarity) +
+            data('color', relation.color) +
+            '\n    </edge>');
+    });
+
+    lines.push('  </graph>', '</graphml>');
+    return lines.join('\n') + '\n';
+}
+
+// SVG drawing approximates ArgumentNode: 14px text wrapped inside the node's padding
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 19;
+const CHAR_WIDTH = 7.2;
+const PADDING = 16;
+const FOOTER_HEIGHT = 24;
+
+function wrapText(text: string, width: number): string[] {
+    const maxChars = Math.max(10, Math.floor((width - 2 * PADDING) / CHAR_WIDTH));
+    const lines: string[] = [];
+    text.split(/\r?\n/).forEach(paragraph => {
+        let line = '';
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            if (line && line.length + 1 + word.length > maxChars) {
+                lines.push(line);
+                line = word;
+            } else {
+                line = line ? `${line} ${word}` : word;
+            }
+        });
+        lines.push(line);
+    });
+    return lines;
+}
+
+interface NodeBox extends Rect {
+    node: ArgumentNode;
+    lines: string[];
+}
+
+// Node sizes as rendered where React Flow has measured them, otherwise estimated from the text
+export function nodeBoxes(nodes: (ArgumentNode & { width?: number | null; height?: number | null })[]): NodeBox[] {
+    return nodes.map(node => {
+        const width = node.width || NODE_WIDTH;
+        const lines = (node.data.title ? [`[${node.data.title}]`] : []).concat(wrapText(node.data.label, width));
+        const height = Math.max(node.height || 0, 2 * PADDING + lines.length * LINE_HEIGHT + FOOTER_HEIGHT);
+        return { node, lines, x: node.position.x, y: node.position.y, width, height };
+    });
+}
+
+export function boundsOf(boxes: Rect[], padding: number): Rect {
+    if (boxes.length === 0) return { x: 0, y: 0, width: 2 * padding, height: 2 * padding };
+    const left = Math.min(...boxes.map(box => box.x));
+    const top = Math.min(...boxes.map(box => box.y));
+    const right = Math.max(...boxes.map(box => box.x + box.width));
+    const bottom = Math.max(...boxes.map(box => box.y + box.height));
+    return { x: left - padding, y: top - padding, width: right - left + 2 * padding, height: bottom - top + 2 * padding };
+}
+
+// A standalone SVG of `area` (in flow coordinates), e.g. the visible viewport or the
+// bounds of the whole graph
+export function toSvg(boxes: NodeBox[], edges: ArgumentEdge[], relations: RelationInfo[], area: Rect): string {
+    const boxesById = new Map(boxes.map(box => [box.node.id, box] as [string, NodeBox]));
+    const colors: string[] = [];
+    const markerId = (color: string) => {
+        if (colors.indexOf(color) === -1) colors.push(color);
+        return `arrow-${colors.indexOf(color)}`;
+    };
+
+    const edgeParts: string[] = [];
+    edges.forEach(edge => {
+        const claim = boxesById.get(edge.source);
+        const response = boxesById.get(edge.target);
+        if (!claim || !response) return;
+
+        const relation = findRelation(relations, edge.data.relation);
+        const [path, labelX, labelY] = getBezierPath({
+            sourceX: claim.x + claim.width / 2,
+            sourceY: claim.y + claim.height,
+            sourcePosition: HandlePosition.Bottom,
+            targetX: response.x + response.width / 2,
+            targetY: response.y,
+            targetPosition: HandlePosition.Top
+        });
+        const badgeWidth = relation.label.length * 6.5 + 16;
+
+        edgeParts.push(
+            `<g class="edge" data-relation="${escapeXml(relation.id)}">` +
+            `<path d="${path}" fill="none" stroke="${relation.color}" stroke-width="2"` +
+            `${relation.dashed ? ' stroke-dasharray="6 4"' : ''} marker-start="url(#${markerId(relation.color)})"/>` +
+            `<rect x="${labelX - badgeWidth / 2}" y="${labelY - 10}" width="${badgeWidth}" height="20" rx="10" fill="#ffffff" stroke="${relation.color}"/>` +
+            `<text x="${labelX}" y="${labelY + 4}" text-anchor="middle" font-size="12" fill="${relation.color}">${escapeXml(relation.label)}</text>` +
+            '</g>'
+        );
+    });
+
+    const nodeParts = boxes.map(box => {
+        const { node } = box;
+        const text = box.lines.map((line, index) => {
+            const isTitle = index === 0 && !!node.data.title;
+            return `<tspan x="${box.x + PADDING}" y="${box.y + PADDING + (index + 1) * LINE_HEIGHT - 5}"` +
+                `${isTitle ? ' font-size="12" font-weight="600" fill="#6b7280"' : ''}>${escapeXml(line)}</tspan>`;
+        }).join('');
+
+        return `<g class="node" data-author="${node.data.author}">` +
+            `<rect x="${box.x}" y="${box.y}" width="${box.width}" height="${box.height}" rx="8" fill="${AUTHOR_FILL[node.data.author]}" stroke="${NODE_BORDER}" stroke-width="2"/>` +
+            `<text font-size="${FONT_SIZE}" fill="#1f2937">${text}</text>` +
+            `<text x="${box.x + PADDING}" y="${box.y + box.height - PADDING + 2}" font-size="12" fill="#6b7280">${AUTHOR_LABEL[node.data.author]}</text>` +
+            '</g>';
+    });
+
+    const markers = colors.map((color, index) =>
+        `<marker id="arrow-${index}" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">` +
+        `<path d="M 0 0 L 10 5 L 0 10 z" fill="${color}"/></marker>`
+    );
+
+    const width = Math.round(area.width);
+    const height = Math.round(area.height);
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${area.x} ${area.y} ${area.width} ${area.height}" font-family="Helvetica, Arial, sans-serif">`,
+        `<defs>${markers.join('')}</defs>`,
+        `<rect x="${area.x}" y="${area.y}" width="${area.width}" height="${area.height}" fill="#ffffff"/>`,
+        ...edgeParts,
+        ...nodeParts,
+        '</svg>'
+    ].join('\n') + '\n';
+}
+
+// Rasterises an SVG from toSvg; `scale` > 1 gives a sharper image for documents
+export function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.round(width * scale);
+            canvas.height = Math.round(height * scale);
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error('This browser cannot draw images'));
+                return;
+            }
+            context.scale(scale, scale);
+            context.drawImage(image, 0, 0, width, height);
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not create the PNG')), 'image/png');
+        };
+        image.onerror = () => reject(new Error('Could not render the diagram'));
+        image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    });
+}
@@ -0,0 +1,21 @@
+// Saves a blob as a file through a temporary object URL
+export function downloadBlob(filename: string, blob: Blob): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+}
+
+export function downloadText(filename: string, text: string, mimeType = 'text/plain'): void {
+    downloadBlob(filename, new Blob([text], { type: `${mimeType};charset=utf-8` }));
+}
+
+// A file name made from a graph name, without characters file systems reject
+export function fileNameFor(name: string, extension: string): string {
+    const base = name.replace(/[\\/:*?"<>|]+/g, ' ').replace(/\s+/g, ' ').trim() || 'argument';
+    return `${base}.${extension}`;
+}
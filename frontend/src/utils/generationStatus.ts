@@ -0,0 +1,40 @@
+import { APIError, FallbackInfo, RetryInfo } from '../services/api';
+
+const CODE_DESCRIPTIONS: Record<string, string> = {
+    rate_limited: 'Rate limited',
+    timeout: 'Timed out',
+    provider_unavailable: 'Provider unavailable',
+    auth_failed: 'API key rejected',
+    malformed_output: 'Unusable reply',
+    provider_error: 'Provider error',
+    not_configured: 'No provider configured',
+    fixture_missing: 'No recorded response'
+};
+
+function describeCode(code: string | undefined): string {
+    return (code && CODE_DESCRIPTIONS[code]) || 'Request failed';
+}
+
+// e.g. "Rate limited, retrying in 4s (attempt 2 of 3)"
+export function formatRetry(info: RetryInfo, remainingMs: number): string {
+    const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+    const waiting = seconds > 0 ? `retrying in ${seconds}s` : 'retrying now';
+    return `${describeCode(info.code)}, ${waiting} (attempt ${info.retry + 1} of ${info.maxRetries + 1})`;
+}
+
+export function formatFallback(info: FallbackInfo): string {
+    return `${describeCode(info.code)} on ${info.from.provider}, switching to ${info.to.provider} (${info.to.model})`;
+}
+
+// User-facing description of a failed generation
+export function describeGenerationError(error: unknown): string {
+    const { code, message } = error as APIError;
+    if (!code) return message || 'Failed to generate argument. Please try again.';
+    return `${describeCode(code)}: ${message}`;
+}
+
+// Failures only a (new) API key fixes
+export function needsKeySetup(error: unknown): boolean {
+    const { code } = error as APIError;
+    return code === 'not_configured' || code === 'auth_failed';
+}
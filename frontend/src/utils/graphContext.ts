@@ -0,0 +1,52 @@
+import { ArgumentNode, ArgumentEdge, Action, ContextClaim, GraphContext } from '../types';
+
+// Guards against very deep chains and accidental cycles
+const MAX_ANCESTOR_DEPTH = 12;
+
+// Collects the ancestor chain back to the root and the existing siblings for `action`,
+// so the backend can prompt with more than the single selected claim.
+export function buildGraphContext(
+    nodes: ArgumentNode[],
+    edges: ArgumentEdge[],
+    sourceNodeId: string,
+    action: Action
+): GraphContext {
+    const nodesById = new Map(nodes.map(node => [node.id, node] as [string, ArgumentNode]));
+    const chain: ContextClaim[] = [];
+    const visited = new Set<string>([sourceNodeId]);
+
+    // Edges point from a claim to the claim that responds to it
+    const parentEdgeOf = (nodeId: string) => edges.find(edge => edge.target === nodeId);
+
+    const sourceParentEdge = parentEdgeOf(sourceNodeId);
+    let edge = sourceParentEdge;
+    while (edge && chain.length < MAX_ANCESTOR_DEPTH && !visited.has(edge.source)) {
+        const parent = nodesById.get(edge.source);
+        if (!parent) break;
+
+        visited.add(parent.id);
+        const grandparentEdge = parentEdgeOf(parent.id);
+        chain.unshift({
+            label: parent.data.label,
+            relation: grandparentEdge?.data.relation
+        });
+        edge = grandparentEdge;
+    }
+
+    // The topmost claim we reached is treated as the root, whatever relation it had
+    if (chain.length > 0) {
+        chain[0] = { label: chain[0].label };
+    }
+
+    const siblings = edges
+        .filter(e => e.source === sourceNodeId && e.data.relation === action)
+        .map(e => nodesById.get(e.target))
+        .filter((node): node is ArgumentNode => !!node && !node.data.pending && !!node.data.label)
+        .map(node => node.data.label);
+
+    return {
+        ancestors: chain,
+        sourceRelation: sourceParentEdge?.data.relation,
+        siblings
+    };
+}
@@ -0,0 +1,104 @@
+import { ArgumentNode, ArgumentEdge } from '../types';
+
+// Differences between two versions of a graph, for the snapshot compare view. Claims and
+// relations are matched by id, which edits, undo and snapshots all preserve.
+
+export type NodeDiff = NonNullable<ArgumentNode['data']['diff']>;
+export type EdgeDiff = NonNullable<ArgumentEdge['data']['diff']>;
+
+export interface GraphVersion {
+    name: string;
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+}
+
+// What the canvas compares: a snapshot against another snapshot, or against the open graph
+export interface ComparisonSource {
+    from: GraphVersion;
+    to: GraphVersion | null; // null for the open graph, which keeps changing while compared
+}
+
+export interface GraphComparison {
+    nodes: ArgumentNode[]; // Every claim of both versions, marked with data.diff
+    edges: ArgumentEdge[]; // Every relation of both versions, marked with data.diff
+    counts: { added: number; removed: number; relabelled: number; edgesChanged: number };
+}
+
+export function compareGraphs(from: Pick<GraphVersion, 'nodes' | 'edges'>, to: Pick<GraphVersion, 'nodes' | 'edges'>): GraphComparison {
+    const fromNodes = new Map(from.nodes.map(node => [node.id, node] as [string, ArgumentNode]));
+    const toNodeIds = new Set(to.nodes.map(node => node.id));
+    const fromEdges = new Map(from.edges.map(edge => [edge.id, edge] as [string, ArgumentEdge]));
+    const toEdgeIds = new Set(to.edges.map(edge => edge.id));
+    const counts = { added: 0, removed: 0, relabelled: 0, edgesChanged: 0 };
+
+    const nodes: ArgumentNode[] = to.nodes.map(node => {
+        const previous = fromNodes.get(node.id);
+        let diff: NodeDiff = 'unchanged';
+        if (!previous) {
+            diff = 'added';
+            counts.added++;
+        } else if (previous.data.label !== node.data.label || previous.data.title !== node.data.title) {
+            diff = 'relabelled';
+            counts.relabelled++;
+        }
+        return {
+            ...node,
+            data: { ...node.data, diff, previousLabel: diff === 'relabelled' ? previous?.data.label : undefined }
+        };
+    });
+    from.nodes.filter(node => !toNodeIds.has(node.id)).forEach(node => {
+        counts.removed++;
+        nodes.push({ ...node, data: { ...node.data, diff: 'removed' } });
+    });
+
+    const edges: ArgumentEdge[] = to.edges.map(edge => {
+        const previous = fromEdges.get(edge.id);
+        let diff: EdgeDiff = 'unchanged';
+        if (!previous) {
+            diff = 'added';
+        } else if (previous.data.relation !== edge.data.relation || previous.source !== edge.source || previous.target !== edge.target) {
+            diff = 'changed';
+        }
+        if (diff !== 'unchanged') counts.edgesChanged++;
+        return {
+            ...edge,
+            data: { ...edge.data, diff, previousRelation: diff === 'changed' ? previous?.data.relation : undefined }
+        };
+    });
+    from.edges.filter(edge => !toEdgeIds.has(edge.id)).forEach(edge => {
+        counts.edgesChanged++;
+        edges.push({ ...edge, data: { ...edge.data, diff: 'removed' } });
+    });
+
+    return { nodes, edges, counts };
+}
+
+// The open graph with the given claims taken from an older version: a claim that still
+// exists gets its old text back, a deleted one returns with its relations to claims that
+// are (or are coming back) in the graph
+export function cherryPickNodes(
+    current: Pick<GraphVersion, 'nodes' | 'edges'>,
+    source: Pick<GraphVersion, 'nodes' | 'edges'>,
+    nodeIds: string[]
+): { nodes: ArgumentNode[]; edges: ArgumentEdge[] } {
+    const picked = source.nodes.filter(node => nodeIds.indexOf(node.id) !== -1);
+    const currentIds = new Set(current.nodes.map(node => node.id));
+
+    const nodes = current.nodes.map(node => {
+        const old = picked.find(candidate => candidate.id === node.id);
+        return old ? { ...node, data: { ...node.data, label: old.data.label, title: old.data.title } } : node;
+    });
+    picked.filter(node => !currentIds.has(node.id)).forEach(node => nodes.push(node));
+
+    const nodeIdsAfter = new Set(nodes.map(node => node.id));
+    const edgeIds = new Set(current.edges.map(edge => edge.id));
+    const pairs = new Set(current.edges.map(edge => `${edge.source}->${edge.target}`));
+    const edges = current.edges.slice();
+    source.edges
+        .filter(edge => nodeIds.indexOf(edge.source) !== -1 || nodeIds.indexOf(edge.target) !== -1)
+        .filter(edge => nodeIdsAfter.has(edge.source) && nodeIdsAfter.has(edge.target))
+        .filter(edge => !edgeIds.has(edge.id) && !pairs.has(`${edge.source}->${edge.target}`))
+        .forEach(edge => edges.push(edge));
+
+    return { nodes, edges };
+}
@@ -0,0 +1,93 @@
+import { nanoid } from 'nanoid';
+import { ArgumentNode, ArgumentEdge, Action } from '../types';
+
+// Structural edits that must leave the graph consistent: no edge may point at a missing
+// node, and manual connections may not create duplicates or cycles.
+
+// 'cascade' drops every edge touching a removed claim; 'reparent' additionally links the
+// claim's responses to its parent, keeping the relation each response had
+export type RemoveMode = 'cascade' | 'reparent';
+
+export function createEdge(sourceId: string, targetId: string, relation: Action): ArgumentEdge {
+    return {
+        id: nanoid(),
+        source: sourceId,
+        target: targetId,
+        type: 'argumentEdge',
+        data: { relation },
+        animated: true
+    };
+}
+
+export function removeNodesFromGraph(
+    nodes: ArgumentNode[],
+    edges: ArgumentEdge[],
+    nodeIds: string[],
+    mode: RemoveMode
+): { nodes: ArgumentNode[]; edges: ArgumentEdge[] } {
+    const removed = new Set(nodeIds);
+    const keptEdges = edges.filter(edge => !removed.has(edge.source) && !removed.has(edge.target));
+
+    if (mode === 'cascade') {
+        return { nodes: nodes.filter(node => !removed.has(node.id)), edges: keptEdges };
+    }
+
+    // Walk up past removed claims so deleting a parent and child together still reparents
+    const survivingParentOf = (nodeId: string): string | null => {
+        const visited = new Set<string>();
+        let parentEdge = edges.find(edge => edge.target === nodeId);
+        while (parentEdge && removed.has(parentEdge.source) && !visited.has(parentEdge.source)) {
+            visited.add(parentEdge.source);
+            const source: string = parentEdge.source;
+            parentEdge = edges.find(edge => edge.target === source);
+        }
+        return parentEdge && !removed.has(parentEdge.source) ? parentEdge.source : null;
+    };
+
+    const reparented: ArgumentEdge[] = [];
+    edges
+        .filter(edge => removed.has(edge.source) && !removed.has(edge.target))
+        .forEach(edge => {
+            const parentId = survivingParentOf(edge.source);
+            if (!parentId) return;
+
+            const all = [...keptEdges, ...reparented];
+            if (!all.some(e => e.source === parentId && e.target === edge.target)) {
+                reparented.push(createEdge(parentId, edge.target, edge.data.relation));
+            }
+        });
+
+    return {
+        nodes: nodes.filter(node => !removed.has(node.id)),
+        edges: [...keptEdges, ...reparented]
+    };
+}
+
+// True when `descendantId` can be reached from `ancestorId` by following edges
+function reaches(edges: ArgumentEdge[], ancestorId: string, descendantId: string): boolean {
+    const visited = new Set<string>();
+    const queue = [ancestorId];
+    while (queue.length > 0) {
+        const current = queue.shift() as string;
+        if (current === descendantId) return true;
+        if (visited.has(current)) continue;
+        visited.add(current);
+        edges.filter(edge => edge.source === current).forEach(edge => queue.push(edge.target));
+    }
+    return false;
+}
+
+// Reason a manual connection from `sourceId` (the claim responded to) to `targetId` (the
+// response) is not allowed, or null when it is
+export function connectionError(edges: ArgumentEdge[], sourceId: string, targetId: string): string | null {
+    if (sourceId === targetId) {
+        return 'A claim cannot respond to itself';
+    }
+    if (edges.some(edge => edge.source === sourceId && edge.target === targetId)) {
+        return 'These claims are already connected';
+    }
+    if (reaches(edges, targetId, sourceId)) {
+        return 'This connection would create a cycle';
+    }
+    return null;
+}
@@ -0,0 +1,18 @@
+// The open graph is addressed in the URL hash as #/graphs/<id>, which works with any static
+// host since the server never sees it
+
+const GRAPH_HASH_PATTERN = /^#\/graphs\/([A-Za-z0-9_-]{1,64})$/;
+
+export function readGraphIdFromUrl(): string | null {
+    const match = window.location.hash.match(GRAPH_HASH_PATTERN);
+    return match ? match[1] : null;
+}
+
+// Replaces rather than pushes, so switching graphs doesn't fill the back button history
+export function writeGraphIdToUrl(graphId: string | null): void {
+    const hash = graphId ? `#/graphs/${graphId}` : '';
+    if (window.location.hash === hash) return;
+
+    const { pathname, search } = window.location;
+    window.history.replaceState(null, '', `${pathname}${search}${hash}`);
+}
@@ -0,0 +1,173 @@
+import { ArgumentNode, ArgumentEdge, Action, Position, RelationInfo, RelationPolarity } from '../types';
+
+// Layered tree layout: each claim sits one level below the claim it responds to, with pro
+// responses to the left, neutral ones in the middle and con responses to the right. Pinned
+// claims keep their position and carry their unpinned responses along with them.
+
+export const NODE_WIDTH = 300; // ArgumentNode's max width
+const HORIZONTAL_GAP = 40;
+const LEVEL_HEIGHT = 180;
+const ROOT_GAP = 150;
+
+const SIDE_ORDER: Record<RelationPolarity, number> = { pro: 0, neutral: 1, con: 2 };
+
+function polarityOf(relations: RelationInfo[], relationId: Action): RelationPolarity {
+    return relations.find(relation => relation.id === relationId)?.polarity || 'neutral';
+}
+
+interface Tree {
+    roots: string[];
+    children: Map<string, { id: string; relation: Action }[]>;
+}
+
+// Each claim hangs under the first claim it responds to; any further edges are cross links
+// that don't affect placement. Claims only reachable through a cycle become roots.
+function buildTree(nodes: ArgumentNode[], edges: ArgumentEdge[]): Tree {
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const parentOf = new Map<string, ArgumentEdge>();
+    edges.forEach(edge => {
+        if (nodeIds.has(edge.source) && nodeIds.has(edge.target) && !parentOf.has(edge.target)) {
+            parentOf.set(edge.target, edge);
+        }
+    });
+
+    const children = new Map<string, { id: string; relation: Action }[]>();
+    nodes.forEach(node => children.set(node.id, []));
+    parentOf.forEach((edge, target) => {
+        (children.get(edge.source) as { id: string; relation: Action }[]).push({ id: target, relation: edge.data.relation });
+    });
+
+    const roots = nodes.filter(node => !parentOf.has(node.id)).map(node => node.id);
+
+    const reached = new Set<string>();
+    const visit = (id: string) => {
+        if (reached.has(id)) return;
+        reached.add(id);
+        (children.get(id) || []).forEach(child => visit(child.id));
+    };
+    roots.forEach(visit);
+    nodes.forEach(node => {
+        if (!reached.has(node.id)) {
+            roots.push(node.id);
+            visit(node.id);
+        }
+    });
+
+    return { roots, children };
+}
+
+// New positions for every claim, keyed by node id
+export function computeLayout(
+    nodes: ArgumentNode[],
+    edges: ArgumentEdge[],
+    relations: RelationInfo[]
+): Map<string, Position> {
+    const nodesById = new Map(nodes.map(node => [node.id, node] as [string, ArgumentNode]));
+    const { roots, children } = buildTree(nodes, edges);
+    const byCurrentX = (a: string, b: string) =>
+        (nodesById.get(a) as ArgumentNode).position.x - (nodesById.get(b) as ArgumentNode).position.x;
+
+    // Sides first, then keep the order the user already sees
+    children.forEach(list => list.sort((a, b) =>
+        SIDE_ORDER[polarityOf(relations, a.relation)] - SIDE_ORDER[polarityOf(relations, b.relation)] ||
+        byCurrentX(a.id, b.id)
+    ));
+    roots.sort(byCurrentX);
+
+    // Both passes walk the trees in the same order and skip claims already seen, so a claim
+    // on a cycle is measured and placed exactly once
+    const placed = new Set<string>();
+    const widths = new Map<string, number>();
+
+    const measure = (id: string): number => {
+        placed.add(id);
+        const childWidths = (children.get(id) || [])
+            .filter(child => !placed.has(child.id))
+            .map(child => measure(child.id));
+        const total = childWidths.reduce((sum, width) => sum + width, 0) + HORIZONTAL_GAP * Math.max(0, childWidths.length - 1);
+        const width = Math.max(NODE_WIDTH, total);
+        widths.set(id, width);
+        return width;
+    };
+
+    const positions = new Map<string, Position>();
+
+    const place = (id: string, left: number, depth: number, offset: Position) => {
+        placed.add(id);
+        const node = nodesById.get(id) as ArgumentNode;
+        const width = widths.get(id) as number;
+        const computed = { x: left + (width - NODE_WIDTH) / 2, y: depth * LEVEL_HEIGHT };
+
+        // A pinned claim stays put and shifts its subtree by however far it was moved
+        const nodeOffset = node.data.pinned
+            ? { x: node.position.x - computed.x, y: node.position.y - computed.y }
+            : offset;
+        positions.set(id, node.data.pinned ? node.position : { x: computed.x + nodeOffset.x, y: computed.y + nodeOffset.y });
+
+        const list = (children.get(id) || []).filter(child => !placed.has(child.id));
+        const total = list.reduce((sum, child) => sum + (widths.get(child.id) as number), 0) + HORIZONTAL_GAP * Math.max(0, list.length - 1);
+        let childLeft = left + (width - total) / 2;
+        list.forEach(child => {
+            place(child.id, childLeft, depth + 1, nodeOffset);
+            childLeft += (widths.get(child.id) as number) + HORIZONTAL_GAP;
+        });
+    };
+
+    const measuredRoots = roots.map(root => ({ id: root, width: measure(root) }));
+    placed.clear();
+
+    // Keep the first tree where it is so tidying doesn't throw the view around
+    const anchor = measuredRoots.length > 0 ? nodesById.get(measuredRoots[0].id) as ArgumentNode : null;
+    const origin = anchor ? {
+        x: anchor.position.x - (measuredRoots[0].width - NODE_WIDTH) / 2,
+        y: anchor.position.y
+    } : { x: 0, y: 0 };
+
+    let left = origin.x;
+    measuredRoots.forEach(root => {
+        place(root.id, left, 0, { x: 0, y: origin.y });
+        left += root.width + ROOT_GAP;
+    });
+
+    return positions;
+}
+
+// Nodes with their laid-out positions; unmoved nodes keep their identity
+export function layoutNodes(nodes: ArgumentNode[], edges: ArgumentEdge[], relations: RelationInfo[]): ArgumentNode[] {
+    const positions = computeLayout(nodes, edges, relations);
+    return nodes.map(node => {
+        const position = positions.get(node.id);
+        if (!position || (position.x === node.position.x && position.y === node.position.y)) return node;
+        return { ...node, position };
+    });
+}
+
+// A free spot for a new response to `sourceId` when auto-layout is off: one level below,
+// on the relation's side, skipping any spot already taken
+export function placeNewNode(
+    nodes: ArgumentNode[],
+    sourceId: string,
+    relation: Action,
+    relations: RelationInfo[]
+): Position {
+    const source = nodes.find(node => node.id === sourceId);
+    if (!source) return { x: 0, y: 0 };
+
+    const step = NODE_WIDTH + HORIZONTAL_GAP;
+    const y = source.position.y + LEVEL_HEIGHT;
+    const polarity = polarityOf(relations, relation);
+    const taken = (x: number) => nodes.some(node =>
+        Math.abs(node.position.x - x) < step * 0.9 && Math.abs(node.position.y - y) < LEVEL_HEIGHT * 0.6
+    );
+
+    // Offsets are in half-node steps: pro -1, -2, ...; con 1, 2, ...; neutral 0, -1, 1, -2, 2, ...
+    for (let slot = 0; slot < 50; slot++) {
+        const offset = polarity === 'pro' ? -(slot + 1)
+            : polarity === 'con' ? slot + 1
+            : (slot % 2 === 0 ? slot / 2 : -(slot + 1) / 2);
+        const x = source.position.x + offset * step / 2;
+        if (!taken(x)) return { x, y };
+    }
+
+    return { x: source.position.x, y };
+}
@@ -0,0 +1,15 @@
+import { Action, RelationInfo } from '../types';
+
+// Used for edges whose relation the backend registry doesn't (or no longer) know about
+const UNKNOWN_RELATION: Omit<RelationInfo, 'id'> = {
+    label: 'Related',
+    verb: 'relates to',
+    color: '#9ca3af',
+    icon: '🔗',
+    polarity: 'neutral',
+    dashed: true
+};
+
+export function findRelation(relations: RelationInfo[], id: Action): RelationInfo {
+    return relations.find(relation => relation.id === id) || { id, ...UNKNOWN_RELATION };
+}
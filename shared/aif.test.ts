@@ -0,0 +1,103 @@
+import { ArgumentNode, ArgumentEdge } from './types';
+import { RELATIONS, RelationId } from './relations';
+import { fromAif, toAif, validateAifDocument } from './aif';
+
+function claim(id: string, label: string, rationale?: string): ArgumentNode {
+    return {
+        id,
+        type: 'argumentNode',
+        position: { x: 0, y: 0 },
+        data: rationale ? { label, author: 'llm', rationale } : { label, author: 'user' }
+    };
+}
+
+function relation(source: string, target: string, kind: RelationId): ArgumentEdge {
+    return { id: `${source}-${target}`, source, target, type: 'argumentEdge', data: { relation: kind }, animated: false };
+}
+
+// Through JSON, as the document travels between tools
+function roundTrip(nodes: ArgumentNode[], edges: ArgumentEdge[]) {
+    const document = JSON.parse(JSON.stringify(toAif(nodes, edges)));
+    expect(validateAifDocument(document)).toBeNull();
+    return fromAif(document);
+}
+
+describe('AIF round trip', () => {
+    it('keeps claims, their text and rationales', () => {
+        const nodes = [
+            claim('thesis', 'Cities should ban cars.'),
+            claim('response', 'Cars are the main source of urban air pollution.', 'Pollution is the strongest reason for a ban.')
+        ];
+
+        const result = roundTrip(nodes, [relation('thesis', 'response', 'supports')]);
+
+        expect(result.warnings).toEqual([]);
+        expect(result.nodes.map(node => ({ id: node.id, label: node.data.label, rationale: node.data.rationale }))).toEqual([
+            { id: 'thesis', label: 'Cities should ban cars.', rationale: undefined },
+            {
+                id: 'response',
+                label: 'Cars are the main source of urban air pollution.',
+                rationale: 'Pollution is the strongest reason for a ban.'
+            }
+        ]);
+    });
+
+    it('keeps every relation type and its direction', () => {
+        const nodes = [claim('thesis', 'Remote work makes teams more productive.')];
+        const edges: ArgumentEdge[] = [];
+        RELATIONS.forEach(info => {
+            nodes.push(claim(info.id, `A claim that ${info.verb} the thesis.`));
+            edges.push(relation('thesis', info.id, info.id));
+        });
+
+        const result = roundTrip(nodes, edges);
+
+        expect(result.warnings).toEqual([]);
+        expect(result.nodes).toHaveLength(RELATIONS.length + 1);
+        expect(result.edges.map(edge => [edge.source, edge.target, edge.data.relation]).sort()).toEqual(
+            edges.map(edge => [edge.source, edge.target, edge.data.relation]).sort()
+        );
+    });
+
+    it('writes conflicts as CA-nodes and everything else as RA-nodes', () => {
+        const nodes = [claim('a', 'A.'), claim('b', 'B.'), claim('c', 'C.')];
+        const document = toAif(nodes, [relation('a', 'b', 'refutes'), relation('a', 'c', 'example')]);
+
+        expect(document.nodes.filter(node => node.type !== 'I').map(node => [node.type, node.text])).toEqual([
+            ['CA', 'Default Conflict'],
+            ['RA', 'Argument From Example']
+        ]);
+    });
+});
+
+describe('fromAif', () => {
+    it('reads an undercutter of an inference as undercuts on its conclusion', () => {
+        const result = fromAif({
+            nodes: [
+                { nodeID: 1, text: 'Conclusion', type: 'I' },
+                { nodeID: 2, text: 'Premise', type: 'I' },
+                { nodeID: 3, text: 'Default Inference', type: 'RA' },
+                { nodeID: 4, text: 'Undercutter', type: 'I' },
+                { nodeID: 5, text: 'Default Conflict', type: 'CA' },
+                { nodeID: 6, text: 'Speaker: Premise', type: 'L' }
+            ],
+            edges: [
+                { edgeID: 1, fromID: 2, toID: 3 },
+                { edgeID: 2, fromID: 3, toID: 1 },
+                { edgeID: 3, fromID: 4, toID: 5 },
+                { edgeID: 4, fromID: 5, toID: 3 }
+            ]
+        });
+
+        expect(result.edges.map(edge => [edge.source, edge.target, edge.data.relation])).toEqual([
+            ['1', '2', 'supports'],
+            ['1', '4', 'undercuts']
+        ]);
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('rejects documents that are not AIF', () => {
+        expect(validateAifDocument([])).toBe('AIF document must have nodes and edges arrays');
+        expect(validateAifDocument({ nodes: [{ nodeID: 1, type: 'I' }], edges: [] })).toBe('nodes[0] is an I-node without text');
+    });
+});
@@ -0,0 +1,225 @@
+import { ArgumentNode, ArgumentEdge } from './types';
+import { RelationId, isRelationId } from './relations';
+
+// Conversion between our graphs and AIF JSON, the Argument Interchange Format used by
+// AIFdb and most argument-mining corpora. Claims become I-nodes (information); each edge
+// becomes a scheme node between the response and the claim it responds to: an RA-node
+// (inference) for relations that argue for the claim or neither, a CA-node (conflict) for
+// relations that argue against it. The scheme node's text names the relation so a round
+// trip keeps it. A generated claim's rationale rides along as an extra `rationale` field on
+// its I-node, which other AIF tools ignore; positions, authors and titles are lost.
+//
+//   I(response) --> RA/CA --> I(claim)
+
+export type AifNodeType = 'I' | 'RA' | 'CA' | 'MA' | 'PA' | 'L' | 'TA' | 'YA' | string;
+
+export interface AifNode {
+    nodeID: string | number; // AIFdb dumps use numbers or numeric strings
+    text: string;
+    type: AifNodeType;
+    timestamp?: string;
+    rationale?: string; // Our extension, on I-nodes of generated claims
+}
+
+export interface AifEdge {
+    edgeID: string | number;
+    fromID: string | number;
+    toID: string | number;
+    formEdgeID?: string | number | null;
+}
+
+export interface AifDocument {
+    nodes: AifNode[];
+    edges: AifEdge[];
+    locutions?: unknown[];
+}
+
+export interface AifImport {
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    warnings: string[]; // Parts of the corpus that were skipped or simplified
+}
+
+// Scheme node written for each relation. Plain 'Default Inference'/'Default Conflict' are
+// what other tools produce, so they read back as supports and refutes.
+const RELATION_SCHEMES: Record<RelationId, { type: 'RA' | 'CA'; text: string }> = {
+    supports: { type: 'RA', text: 'Default Inference' },
+    refutes: { type: 'CA', text: 'Default Conflict' },
+    unpacks: { type: 'RA', text: 'Argument From Assumption' },
+    example: { type: 'RA', text: 'Argument From Example' },
+    rebuts: { type: 'CA', text: 'Rebutting Conflict' },
+    undercuts: { type: 'CA', text: 'Undercutting Conflict' },
+    qualifies: { type: 'RA', text: 'Qualification' },
+    clarifies: { type: 'RA', text: 'Clarification Request' }
+};
+
+// Node types that only carry dialogue structure; they are skipped silently
+const DIALOGUE_TYPES = ['L', 'TA', 'YA'];
+
+function schemeRelation(node: AifNode): RelationId {
+    const text = (node.text || '').trim().toLowerCase();
+    const match = (Object.keys(RELATION_SCHEMES) as RelationId[]).find(id =>
+        RELATION_SCHEMES[id].type === node.type && RELATION_SCHEMES[id].text.toLowerCase() === text
+    );
+    if (match) return match;
+    return node.type === 'CA' ? 'refutes' : 'supports';
+}
+
+export function toAif(nodes: ArgumentNode[], edges: ArgumentEdge[]): AifDocument {
+    const timestamp = new Date().toISOString().replace('T', ' ').slice(0, 19);
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const aifNodes: AifNode[] = nodes.map(node => {
+        const aifNode: AifNode = { nodeID: node.id, text: node.data.label, type: 'I', timestamp };
+        if (node.data.rationale) aifNode.rationale = node.data.rationale;
+        return aifNode;
+    });
+    const aifEdges: AifEdge[] = [];
+
+    edges.forEach(edge => {
+        if (!nodeIds.has(edge.source) || !nodeIds.has(edge.target)) return;
+
+        const scheme = isRelationId(edge.data.relation)
+            ? RELATION_SCHEMES[edge.data.relation]
+            : RELATION_SCHEMES.supports;
+        aifNodes.push({ nodeID: edge.id, text: scheme.text, type: scheme.type, timestamp });
+        aifEdges.push(
+            { edgeID: `${edge.id}-from`, fromID: edge.target, toID: edge.id, formEdgeID: null },
+            { edgeID: `${edge.id}-to`, fromID: edge.id, toID: edge.source, formEdgeID: null }
+        );
+    });
+
+    return { nodes: aifNodes, edges: aifEdges, locutions: [] };
+}
+
+function isId(value: unknown): value is string | number {
+    return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value));
+}
+
+// Error message for anything that isn't an AIF JSON document, or null if it looks like one
+export function validateAifDocument(value: unknown): string | null {
+    if (typeof value !== 'object' || value === null) {
+        return 'AIF document must be a JSON object';
+    }
+    const { nodes, edges } = value as Record<string, unknown>;
+    if (!Array.isArray(nodes) || !Array.isArray(edges)) {
+        return 'AIF document must have nodes and edges arrays';
+    }
+
+    for (let i = 0; i < nodes.length; i++) {
+        const node = nodes[i];
+        if (!node || !isId(node.nodeID) || typeof node.type !== 'string') {
+            return `nodes[${i}] must have a nodeID and a type`;
+        }
+        if (node.type === 'I' && typeof node.text !== 'string') {
+            return `nodes[${i}] is an I-node without text`;
+        }
+    }
+
+    for (let i = 0; i < edges.length; i++) {
+        const edge = edges[i];
+        if (!edge || !isId(edge.fromID) || !isId(edge.toID)) {
+            return `edges[${i}] must have a fromID and a toID`;
+        }
+    }
+
+    return null;
+}
+
+// Claims and relations from a validated AIF document. Positions are all zero; the caller
+// lays the graph out. A CA-node attacking an RA-node (an undercutter in AIF) becomes an
+// undercuts edge to the inference's conclusion.
+export function fromAif(document: AifDocument): AifImport {
+    const warnings: string[] = [];
+    const nodesById = new Map<string, AifNode>();
+    document.nodes.forEach(node => nodesById.set(String(node.nodeID), node));
+
+    const incoming = new Map<string, string[]>();
+    const outgoing = new Map<string, string[]>();
+    document.edges.forEach(edge => {
+        const from = String(edge.fromID);
+        const to = String(edge.toID);
+        if (!nodesById.has(from) || !nodesById.has(to)) {
+            warnings.push(`Edge ${edge.edgeID} refers to a node that doesn't exist and was skipped`);
+            return;
+        }
+        outgoing.set(from, (outgoing.get(from) || []).concat(to));
+        incoming.set(to, (incoming.get(to) || []).concat(from));
+    });
+
+    const isINode = (id: string) => nodesById.get(id)?.type === 'I';
+
+    const nodes: ArgumentNode[] = document.nodes
+        .filter(node => node.type === 'I')
+        .map(node => {
+            const claim: ArgumentNode = {
+                id: String(node.nodeID),
+                type: 'argumentNode',
+                position: { x: 0, y: 0 },
+                data: { label: String(node.text).trim() || '(empty)', author: 'user' }
+            };
+            if (typeof node.rationale === 'string' && node.rationale.trim()) {
+                claim.data.rationale = node.rationale;
+            }
+            return claim;
+        });
+
+    const edges: ArgumentEdge[] = [];
+    const seen = new Set<string>();
+    const addEdge = (id: string, claim: string, response: string, relation: RelationId) => {
+        const key = `${claim}->${response}`;
+        if (claim === response || seen.has(key)) return;
+        seen.add(key);
+        edges.push({
+            id,
+            source: claim,
+            target: response,
+            type: 'argumentEdge',
+            data: { relation },
+            animated: false
+        });
+    };
+
+    const skipped: Record<string, number> = {};
+    document.nodes.forEach(node => {
+        const id = String(node.nodeID);
+        if (node.type !== 'RA' && node.type !== 'CA') {
+            if (node.type !== 'I' && DIALOGUE_TYPES.indexOf(node.type) === -1) {
+                skipped[node.type] = (skipped[node.type] || 0) + 1;
+            }
+            return;
+        }
+
+        const relation = schemeRelation(node);
+        const premises = (incoming.get(id) || []).filter(isINode);
+        const targets = (outgoing.get(id) || []).map(to => ({ claim: to, relation }))
+            .filter(target => isINode(target.claim));
+
+        if (node.type === 'CA') {
+            (outgoing.get(id) || [])
+                .filter(to => nodesById.get(to)?.type === 'RA')
+                .forEach(ra => (outgoing.get(ra) || []).filter(isINode).forEach(claim => {
+                    targets.push({ claim, relation: 'undercuts' });
+                }));
+        }
+
+        if (premises.length === 0 || targets.length === 0) {
+            warnings.push(`${node.type}-node ${id} ("${node.text}") is missing a premise or a conclusion and was skipped`);
+            return;
+        }
+
+        const single = premises.length === 1 && targets.length === 1;
+        targets.forEach((target, t) => premises.forEach((response, p) => {
+            addEdge(single ? id : `${id}-${t}-${p}`, target.claim, response, target.relation);
+        }));
+    });
+
+    Object.keys(skipped).forEach(type => {
+        warnings.push(`${skipped[type]} ${type}-node${skipped[type] === 1 ? '' : 's'} skipped; only I-, RA- and CA-nodes are imported`);
+    });
+
+    if (nodes.length > 0 && edges.length === 0) {
+        warnings.push('No RA- or CA-nodes linked the claims, so they were imported without relations');
+    }
+
+    return { nodes, edges, warnings };
+}
@@ -0,0 +1,55 @@
+import { CollabOp, applyOps, createDoc, docToGraph, isValidOp } from './collab';
+
+const stamp = { counter: 1, clientId: 'a' };
+
+function nodeOp(field: string, value: unknown): unknown {
+    return { kind: 'node', id: 'n1', field, value, stamp };
+}
+
+describe('isValidOp', () => {
+    it('accepts well-formed values for every field', () => {
+        [
+            nodeOp('position', { x: 10, y: -5 }),
+            nodeOp('label', 'A claim'),
+            nodeOp('title', undefined),
+            nodeOp('rationale', 'Because'),
+            nodeOp('author', 'llm'),
+            nodeOp('pinned', true),
+            nodeOp('deleted', false),
+            { kind: 'edge', id: 'e1', field: 'relation', value: 'undercuts', stamp },
+            { kind: 'edge', id: 'e1', field: 'source', value: 'n1', stamp }
+        ].forEach(op => expect(isValidOp(op)).toBe(true));
+    });
+
+    it('rejects values of the wrong type', () => {
+        [
+            nodeOp('position', 'garbage'),
+            nodeOp('position', { x: 1 }),
+            nodeOp('position', { x: NaN, y: 0 }),
+            nodeOp('label', 42),
+            nodeOp('rationale', { text: 'x' }),
+            nodeOp('author', 'admin'),
+            nodeOp('deleted', 'yes'),
+            { kind: 'edge', id: 'e1', field: 'relation', value: 'nonsense', stamp },
+            { kind: 'edge', id: 'e1', field: 'target', value: null, stamp }
+        ].forEach(op => expect(isValidOp(op)).toBe(false));
+    });
+});
+
+describe('applyOps', () => {
+    it('converges whatever order ops arrive in', () => {
+        const ops = [
+            nodeOp('label', 'First'),
+            nodeOp('deleted', false),
+            { kind: 'node', id: 'n1', field: 'label', value: 'Second', stamp: { counter: 2, clientId: 'b' } }
+        ] as CollabOp[];
+
+        const forward = createDoc();
+        applyOps(forward, ops);
+        const backward = createDoc();
+        applyOps(backward, ops.slice().reverse());
+
+        expect(docToGraph(forward)).toEqual(docToGraph(backward));
+        expect(docToGraph(forward).nodes[0].data.label).toBe('Second');
+    });
+});
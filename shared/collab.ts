@@ -0,0 +1,260 @@
+import { ArgumentNode, ArgumentEdge } from './types';
+import { isRelationId } from './relations';
+
+// Conflict-free merging for live collaboration (/api/collab). Every field of every claim and
+// relation is a last-writer-wins register: an op sets one field and carries a Lamport stamp,
+// and the op with the highest stamp wins wherever it is applied, in whatever order ops
+// arrive. Deletions are a field too (a tombstone), so a concurrent edit can't resurrect a
+// claim half-way. Replicas that have seen the same ops hold the same graph.
+//
+// The frontend uses this module too, through the copy frontend/scripts/sync-shared.js makes.
+
+export interface Stamp {
+    counter: number; // Lamport clock: above every stamp the writer had seen
+    clientId: string; // Breaks ties between concurrent writes
+}
+
+export type NodeField = 'position' | 'label' | 'title' | 'author' | 'rationale' | 'pinned' | 'deleted';
+export type EdgeField = 'source' | 'target' | 'relation' | 'deleted';
+
+export type CollabOp =
+    | { kind: 'node'; id: string; field: NodeField; value: unknown; stamp: Stamp }
+    | { kind: 'edge'; id: string; field: EdgeField; value: unknown; stamp: Stamp };
+
+export const NODE_FIELDS: NodeField[] = ['position', 'label', 'title', 'author', 'rationale', 'pinned', 'deleted'];
+export const EDGE_FIELDS: EdgeField[] = ['source', 'target', 'relation', 'deleted'];
+
+// Stamp of a graph as the backend loaded it, before anyone edited it; every edit wins over it
+export const SEED_COUNTER = 0;
+export const SERVER_CLIENT_ID = 'server';
+
+export interface CollabDoc {
+    registers: Map<string, CollabOp>; // `${kind}:${id}:${field}` -> winning op
+    clock: number; // Highest counter seen
+}
+
+// Someone editing the same graph, as shown in presence indicators
+export interface CollabPeer {
+    clientId: string;
+    name: string;
+    color: string;
+    selectedNodeId: string | null;
+}
+
+// Messages on the socket. A client opens with its whole doc as "ops", so edits made while
+// disconnected merge in; the backend answers with a welcome holding the room's doc.
+export type ClientMessage =
+    | { type: 'ops'; ops: CollabOp[] }
+    | { type: 'presence'; selectedNodeId: string | null };
+
+export type ServerMessage =
+    | { type: 'welcome'; clientId: string; ops: CollabOp[]; peers: CollabPeer[] }
+    | { type: 'ops'; ops: CollabOp[] }
+    | { type: 'presence'; peers: CollabPeer[] }
+    | { type: 'error'; message: string };
+
+export function createDoc(): CollabDoc {
+    return { registers: new Map(), clock: 0 };
+}
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+    if (a.counter !== b.counter) return a.counter - b.counter;
+    return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+function registerKey(op: Pick<CollabOp, 'kind' | 'id' | 'field'>): string {
+    return `${op.kind}:${op.id}:${op.field}`;
+}
+
+// Applies ops in any order; returns the ones that won, i.e. changed the doc
+export function applyOps(doc: CollabDoc, ops: CollabOp[]): CollabOp[] {
+    return ops.filter(op => {
+        doc.clock = Math.max(doc.clock, op.stamp.counter);
+        const key = registerKey(op);
+        const current = doc.registers.get(key);
+        if (current && compareStamps(current.stamp, op.stamp) >= 0) return false;
+        doc.registers.set(key, op);
+        return true;
+    });
+}
+
+// Every register, e.g. to bring a new replica up to date
+export function docOps(doc: CollabDoc): CollabOp[] {
+    const ops: CollabOp[] = [];
+    doc.registers.forEach(op => ops.push(op));
+    return ops;
+}
+
+function nodeValues(node: ArgumentNode): Record<NodeField, unknown> {
+    return {
+        position: { x: node.position.x, y: node.position.y },
+        label: node.data.label,
+        title: node.data.title,
+        author: node.data.author,
+        rationale: node.data.rationale,
+        pinned: node.data.pinned,
+        deleted: false
+    };
+}
+
+// The frontend types relations as plain strings; isValidOp checks them wherever ops land
+type EdgeInput = Omit<ArgumentEdge, 'data'> & { data: { relation: string } };
+
+function edgeValues(edge: EdgeInput): Record<EdgeField, unknown> {
+    return { source: edge.source, target: edge.target, relation: edge.data.relation, deleted: false };
+}
+
+// The whole graph as ops with one stamp, e.g. the seed
+export function graphToOps(nodes: ArgumentNode[], edges: EdgeInput[], stamp: Stamp): CollabOp[] {
+    const ops: CollabOp[] = [];
+    nodes.forEach(node => {
+        const values = nodeValues(node);
+        NODE_FIELDS.forEach(field => ops.push({ kind: 'node', id: node.id, field, value: values[field], stamp }));
+    });
+    edges.forEach(edge => {
+        const values = edgeValues(edge);
+        EDGE_FIELDS.forEach(field => ops.push({ kind: 'edge', id: edge.id, field, value: values[field], stamp }));
+    });
+    return ops;
+}
+
+function collectFields(doc: CollabDoc, kind: CollabOp['kind']): Map<string, Record<string, unknown>> {
+    const entities = new Map<string, Record<string, unknown>>();
+    doc.registers.forEach(op => {
+        if (op.kind !== kind) return;
+        const fields = entities.get(op.id) || {};
+        fields[op.field] = op.value;
+        entities.set(op.id, fields);
+    });
+    return entities;
+}
+
+// The graph the doc describes. Relations whose claims are gone are left out, as the
+// canvas would drop them anyway.
+export function docToGraph(doc: CollabDoc): { nodes: ArgumentNode[]; edges: ArgumentEdge[] } {
+    const nodes: ArgumentNode[] = [];
+    collectFields(doc, 'node').forEach((fields, id) => {
+        if (fields.deleted !== false || typeof fields.label !== 'string') return;
+        const position = isPosition(fields.position) ? fields.position : undefined;
+        const data: ArgumentNode['data'] = {
+            label: fields.label,
+            author: fields.author === 'llm' ? 'llm' : 'user'
+        };
+        if (typeof fields.title === 'string') data.title = fields.title;
+        if (typeof fields.rationale === 'string') data.rationale = fields.rationale;
+        if (fields.pinned === true) data.pinned = true;
+        nodes.push({ id, type: 'argumentNode', position: position || { x: 0, y: 0 }, data });
+    });
+
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const edges: ArgumentEdge[] = [];
+    collectFields(doc, 'edge').forEach((fields, id) => {
+        if (fields.deleted !== false) return;
+        const { source, target, relation } = fields;
+        if (typeof source !== 'string' || typeof target !== 'string' || !isRelationId(relation)) return;
+        if (!nodeIds.has(source) || !nodeIds.has(target)) return;
+        edges.push({ id, source, target, type: 'argumentEdge', data: { relation }, animated: false });
+    });
+
+    return { nodes, edges };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Ops that turn the doc's graph into the given one, stamped above everything seen so far.
+// Only fields that differ are sent, so concurrent edits to different fields of a claim
+// (one moves it, another rewrites it) both survive.
+export function diffToOps(doc: CollabDoc, nodes: ArgumentNode[], edges: EdgeInput[], clientId: string): CollabOp[] {
+    const stamp: Stamp = { counter: doc.clock + 1, clientId };
+    const ops: CollabOp[] = [];
+
+    const known = collectFields(doc, 'node');
+    const seen = new Set<string>();
+    nodes.forEach(node => {
+        seen.add(node.id);
+        const previous = known.get(node.id) || {};
+        const values = nodeValues(node);
+        NODE_FIELDS.forEach(field => {
+            if (!sameValue(previous[field], values[field])) {
+                ops.push({ kind: 'node', id: node.id, field, value: values[field], stamp });
+            }
+        });
+    });
+    known.forEach((fields, id) => {
+        if (!seen.has(id) && fields.deleted === false) {
+            ops.push({ kind: 'node', id, field: 'deleted', value: true, stamp });
+        }
+    });
+
+    const knownEdges = collectFields(doc, 'edge');
+    const seenEdges = new Set<string>();
+    edges.forEach(edge => {
+        seenEdges.add(edge.id);
+        const previous = knownEdges.get(edge.id) || {};
+        const values = edgeValues(edge);
+        EDGE_FIELDS.forEach(field => {
+            if (!sameValue(previous[field], values[field])) {
+                ops.push({ kind: 'edge', id: edge.id, field, value: values[field], stamp });
+            }
+        });
+    });
+    knownEdges.forEach((fields, id) => {
+        if (!seenEdges.has(id) && fields.deleted === false) {
+            ops.push({ kind: 'edge', id, field: 'deleted', value: true, stamp });
+        }
+    });
+
+    return ops;
+}
+
+function isPosition(value: unknown): value is ArgumentNode['position'] {
+    const position = value as ArgumentNode['position'];
+    return !!position && typeof position === 'object' && Number.isFinite(position.x) && Number.isFinite(position.y);
+}
+
+// Optional fields are undefined when cleared
+function isValidNodeValue(field: NodeField, value: unknown): boolean {
+    switch (field) {
+        case 'position':
+            return isPosition(value);
+        case 'label':
+            return typeof value === 'string';
+        case 'title':
+        case 'rationale':
+            return value === undefined || typeof value === 'string';
+        case 'author':
+            return value === 'user' || value === 'llm';
+        case 'pinned':
+            return value === undefined || typeof value === 'boolean';
+        case 'deleted':
+            return typeof value === 'boolean';
+    }
+    return false;
+}
+
+function isValidEdgeValue(field: EdgeField, value: unknown): boolean {
+    switch (field) {
+        case 'source':
+        case 'target':
+            return typeof value === 'string';
+        case 'relation':
+            return isRelationId(value);
+        case 'deleted':
+            return typeof value === 'boolean';
+    }
+    return false;
+}
+
+// Ops arrive from the network, so their shape and value are checked before they reach a doc
+export function isValidOp(value: unknown): value is CollabOp {
+    const op = value as CollabOp;
+    if (!op || typeof op !== 'object' || typeof op.id !== 'string' || !op.id) return false;
+    if (!op.stamp || !Number.isInteger(op.stamp.counter) || op.stamp.counter < 0 || typeof op.stamp.clientId !== 'string') {
+        return false;
+    }
+    if (op.kind === 'node') return NODE_FIELDS.indexOf(op.field) !== -1 && isValidNodeValue(op.field, op.value);
+    if (op.kind === 'edge') return EDGE_FIELDS.indexOf(op.field) !== -1 && isValidEdgeValue(op.field, op.value);
+    return false;
+}
@@ -1,5 +1,9 @@
 // Clean debugging system for Dianoia
 // Provides structured logging without TypeScript compilation issues
+//
+// The backend and the frontend log through this same logger; the frontend builds it from the
+// copy frontend/scripts/sync-shared.js makes. Transports that need Node are in
+// logTransports.ts.
 
 export interface DebugConfig {
     enabled: boolean;
@@ -10,6 +14,18 @@ export interface DebugConfig {
     logToConsole: boolean;
     logToFile: boolean;
     logFilePath?: string;
+    logFileMaxBytes: number; // The file is rotated once it would grow past this
+    logFileRotation: LogRotation; // ...and when the day or hour changes
+    logFileMaxFiles: number; // Rotated files kept next to the live one
+    logFileMaxAgeDays: number; // Rotated files older than this are deleted
+    consoleFormat: 'pretty' | 'json'; // json writes one entry per line to stdout, for log shippers
+    collectorUrl?: string; // Entries are also POSTed here as JSON lines, in batches
+    redactKeys: string[]; // Fields whose values are never logged, matched case-insensitively ignoring - and _
+    redactPatterns: RegExp[]; // Secrets scrubbed from any logged string, e.g. API keys in error messages
+    hashKeys: string[]; // Fields logged as a short hash, matched like redactKeys: secret ids that traces still need to match
+    maxStringLength: number; // Longer strings are cut, so whole graphs or prompts don't flood the log
+    maxArrayLength: number;
+    maxDepth: number;
 }
 
 export interface LogEntry {
@@ -36,12 +52,55 @@ export interface LogEntry {
     };
 }
 
+export type LogRotation = 'daily' | 'hourly' | 'none';
+
+// Where log entries go besides the in-memory buffer. Entries reach transports already
+// filtered by level and redacted. write must not throw or log through debug itself.
+export interface LogTransport {
+    name: string;
+    write(entry: LogEntry): void;
+    flush?(): Promise<void>;
+    close?(): Promise<void>;
+}
+
+// Builds the transports for a config; the backend uses this to add files and collectors
+export type TransportFactory = (config: DebugConfig) => LogTransport[];
+
+export type ContextProvider = () => Record<string, any> | undefined;
+
+// Durations of one timed operation since startup. Quantiles are over the most recent
+// samples, buckets (cumulative, upper bounds in ms) over all of them.
+export interface OperationStats {
+    operation: string;
+    count: number;
+    totalMs: number;
+    minMs: number;
+    maxMs: number;
+    p50Ms: number;
+    p95Ms: number;
+    p99Ms: number;
+    buckets: { le: number; count: number }[];
+}
+
+export interface TimingSample {
+    operation: string;
+    startedAt: string;
+    durationMs: number;
+    context?: Record<string, any>;
+}
+
+export interface PerformanceSnapshot {
+    operations: OperationStats[];
+    recent: TimingSample[]; // Last completed timers, oldest first
+}
+
 export interface PerformanceMetric {
     operation: string;
     startTime: number;
     endTime?: number;
     duration?: number;
     metadata?: Record<string, any>;
+    context?: Record<string, any>;
 }
 
 const isNodeEnv = (): boolean => {
@@ -58,10 +117,133 @@ const isBrowserEnv = (): boolean => {
     }
 };
 
-const getTime = (): number => {
-    return Date.now();
+// Substrings of field names that hold credentials
+const DEFAULT_REDACT_KEYS = ['apikey', 'authorization', 'cookie', 'password', 'secret', 'accesstoken', 'admintoken'];
+
+// The session cookie is all it takes to generate with someone's key, but traces of one
+// browser's requests need to be found together
+const DEFAULT_HASH_KEYS = ['sessionid'];
+
+// Only shapes that are certainly credentials, so ids such as UUIDs and fixture keys stay readable
+const DEFAULT_REDACT_PATTERNS = [
+    /\bsk-[A-Za-z0-9_-]{16,}/g, // OpenAI, OpenRouter and Anthropic keys
+    /\bBearer\s+[A-Za-z0-9._~+/-]+=*/gi,
+    /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g // JWTs
+];
+
+const REDACTED = '[REDACTED]';
+
+// FNV-1a, as it is synchronous in the browser too. It only has to tell ids apart in a log.
+function hashValue(value: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return `hash:${('0000000' + hash.toString(16)).slice(-8)}`;
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, '');
+}
+
+// DIANOIA_REDACT_KEYS adds comma separated field names to the defaults
+const envRedactKeys = (): string[] => {
+    if (typeof process === 'undefined' || !process.env || !process.env.DIANOIA_REDACT_KEYS) return [];
+    return process.env.DIANOIA_REDACT_KEYS.split(',').map(key => normalizeKey(key.trim())).filter(Boolean);
 };
 
+// Human readable output on the console, with the structured parts grouped below
+export class ConsoleTransport implements LogTransport {
+    name = 'console';
+
+    constructor(private format: (entry: LogEntry) => string) {}
+
+    write(entry: LogEntry): void {
+        const consoleMethod = entry.level === 'error' ? 'error'
+            : entry.level === 'warn' ? 'warn'
+                : entry.level === 'info' ? 'info'
+                    : 'log';
+
+        console[consoleMethod](this.format(entry));
+
+        // Include structured data for debugging
+        if (entry.data || entry.error || entry.performance) {
+            console.group('📊 Debug Details');
+            if (entry.data) console.log('Data:', entry.data);
+            if (entry.error) console.log('Error:', entry.error);
+            if (entry.performance) console.log('Performance:', entry.performance);
+            if (entry.context) console.log('Context:', entry.context);
+            console.groupEnd();
+        }
+    }
+}
+
+// One JSON object per line on the console (stdout in Node), for log shippers
+export class JsonConsoleTransport implements LogTransport {
+    name = 'console';
+
+    write(entry: LogEntry): void {
+        console.log(JSON.stringify(entry));
+    }
+}
+
+// File, stdout and collector settings from the environment; the console stays pretty and
+// files off unless asked for
+const envLogConfig = (): Partial<DebugConfig> => {
+    if (!isNodeEnv() || !process.env) return {};
+    const env = process.env;
+    const config: Partial<DebugConfig> = {};
+    const number = (value: string | undefined): number | undefined => {
+        const parsed = Number(value);
+        return value && Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+    };
+
+    if (env.DIANOIA_LOG_FILE) {
+        config.logToFile = true;
+        config.logFilePath = env.DIANOIA_LOG_FILE;
+    }
+    const maxSizeMb = number(env.DIANOIA_LOG_MAX_SIZE_MB);
+    if (maxSizeMb) config.logFileMaxBytes = maxSizeMb * 1024 * 1024;
+    if (env.DIANOIA_LOG_ROTATION === 'daily' || env.DIANOIA_LOG_ROTATION === 'hourly' || env.DIANOIA_LOG_ROTATION === 'none') {
+        config.logFileRotation = env.DIANOIA_LOG_ROTATION;
+    }
+    const maxFiles = number(env.DIANOIA_LOG_MAX_FILES);
+    if (maxFiles) config.logFileMaxFiles = maxFiles;
+    const maxAgeDays = number(env.DIANOIA_LOG_MAX_AGE_DAYS);
+    if (maxAgeDays) config.logFileMaxAgeDays = maxAgeDays;
+    if (env.DIANOIA_LOG_FORMAT === 'json' || env.DIANOIA_LOG_FORMAT === 'pretty') {
+        config.consoleFormat = env.DIANOIA_LOG_FORMAT;
+    }
+    if (env.DIANOIA_LOG_COLLECTOR_URL) config.collectorUrl = env.DIANOIA_LOG_COLLECTOR_URL;
+
+    return config;
+};
+
+// High resolution where there is a clock for it (browsers, Node 16+); only differences
+// between two readings mean anything
+const getTime = (): number => (typeof performance !== 'undefined' ? performance.now() : Date.now());
+
+// Upper bounds of the duration histogram buckets, in ms
+const DURATION_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+const MAX_SAMPLES_PER_OPERATION = 1000;
+const MAX_RECENT_TIMINGS = 200;
+
+interface OperationAggregate {
+    count: number;
+    totalMs: number;
+    minMs: number;
+    maxMs: number;
+    bucketCounts: number[]; // Per bucket, not cumulative; one more for durations above the last bound
+    samples: number[]; // The latest durations, for quantiles
+}
+
+// Nearest-rank quantile of sorted values
+function quantile(sorted: number[], q: number): number {
+    if (sorted.length === 0) return 0;
+    return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(q * sorted.length) - 1))];
+}
+
 const getStorage = (): any => {
     if (isBrowserEnv()) {
         try {
@@ -79,8 +261,15 @@ const getStorage = (): any => {
 class DebugLogger {
     private config: DebugConfig;
     private performanceMetrics: Map<string, PerformanceMetric> = new Map();
+    private operationAggregates: Map<string, OperationAggregate> = new Map();
+    private recentTimings: TimingSample[] = [];
     private logBuffer: LogEntry[] = [];
     private maxBufferSize = 1000;
+    private builtinTransports: LogTransport[] = []; // Console, file and collector, from the config
+    private transportConfigKey = '';
+    private transportFactory: TransportFactory | null = null;
+    private extraTransports: LogTransport[] = [];
+    private contextProvider: ContextProvider | null = null;
 
     constructor(config: Partial<DebugConfig> = {}) {
         this.config = {
@@ -91,6 +280,19 @@ class DebugLogger {
             includeStackTraces: true,
             logToConsole: true,
             logToFile: false,
+            logFilePath: 'logs/dianoia.jsonl',
+            logFileMaxBytes: 10 * 1024 * 1024,
+            logFileRotation: 'daily',
+            logFileMaxFiles: 10,
+            logFileMaxAgeDays: 14,
+            consoleFormat: 'pretty',
+            redactKeys: [...DEFAULT_REDACT_KEYS, ...envRedactKeys()],
+            redactPatterns: DEFAULT_REDACT_PATTERNS,
+            hashKeys: DEFAULT_HASH_KEYS,
+            maxStringLength: 2000,
+            maxArrayLength: 50,
+            maxDepth: 6,
+            ...envLogConfig(),
             ...config
         };
 
@@ -119,11 +321,13 @@ class DebugLogger {
             }
 
             const debugLevel = storage.getItem('dianoia_debug_level');
-            if (debugLevel && ['error', 'warn', 'info', 'debug', 'trace'].includes(debugLevel)) {
+            if (debugLevel && ['error', 'warn', 'info', 'debug', 'trace'].indexOf(debugLevel) !== -1) {
                 this.config.level = debugLevel as any;
             }
         }
 
+        this.configureTransports();
+
         if (this.config.enabled) {
             this.log('system', 'debug_init', 'Debug system initialized', {
                 config: this.config,
@@ -133,6 +337,58 @@ class DebugLogger {
         }
     }
 
+    // Rebuilds the console, file and collector transports when their settings change
+    private configureTransports(): void {
+        const { logToConsole, consoleFormat, logToFile, logFilePath, logFileMaxBytes, logFileRotation,
+            logFileMaxFiles, logFileMaxAgeDays, collectorUrl } = this.config;
+        const key = JSON.stringify([logToConsole, consoleFormat, logToFile, logFilePath, logFileMaxBytes,
+            logFileRotation, logFileMaxFiles, logFileMaxAgeDays, collectorUrl]);
+        if (key === this.transportConfigKey) return;
+        this.transportConfigKey = key;
+
+        this.builtinTransports.forEach(transport => {
+            if (transport.close) transport.close().catch(() => undefined);
+        });
+
+        const transports: LogTransport[] = [];
+        if (logToConsole) {
+            transports.push(consoleFormat === 'json'
+                ? new JsonConsoleTransport()
+                : new ConsoleTransport(entry => this.formatLogEntry(entry)));
+        }
+        // Files and collectors need Node, see shared/logTransports.ts
+        if (this.transportFactory) {
+            transports.push(...this.transportFactory(this.config));
+        }
+        this.builtinTransports = transports;
+    }
+
+    public useTransportFactory(factory: TransportFactory): void {
+        this.transportFactory = factory;
+        this.transportConfigKey = '';
+        this.configureTransports();
+    }
+
+    // Context added to every entry, such as the id of the request being handled (backend)
+    public setContextProvider(provider: ContextProvider | null): void {
+        this.contextProvider = provider;
+    }
+
+    public addTransport(transport: LogTransport): void {
+        this.extraTransports.push(transport);
+    }
+
+    public removeTransport(name: string): void {
+        this.extraTransports = this.extraTransports.filter(transport => transport.name !== name);
+    }
+
+    // Waits until everything logged so far is written, e.g. before the process exits
+    public async flush(): Promise<void> {
+        await Promise.all([...this.builtinTransports, ...this.extraTransports].map(transport =>
+            transport.flush ? transport.flush().catch(() => undefined) : undefined
+        ));
+    }
+
     private shouldLog(level: string): boolean {
         if (!this.config.enabled) return false;
 
@@ -143,6 +399,60 @@ class DebugLogger {
         return messageLevelIndex <= currentLevelIndex;
     }
 
+    public scrubString(value: string): string {
+        let scrubbed = value;
+        this.config.redactPatterns.forEach(pattern => {
+            scrubbed = scrubbed.replace(pattern, REDACTED);
+        });
+        if (scrubbed.length > this.config.maxStringLength) {
+            scrubbed = `${scrubbed.slice(0, this.config.maxStringLength)}…[${scrubbed.length - this.config.maxStringLength} more chars]`;
+        }
+        return scrubbed;
+    }
+
+    private matchesKey(key: string, patterns: string[]): boolean {
+        const normalized = normalizeKey(key);
+        return patterns.some(pattern => normalized.includes(normalizeKey(pattern)));
+    }
+
+    // A copy that is safe to keep and show: credentials replaced, secrets scrubbed from
+    // strings, and large payloads cut down
+    public redact(value: any, depth = 0, seen: WeakSet<object> = new WeakSet()): any {
+        if (typeof value === 'string') return this.scrubString(value);
+        if (value === null || typeof value !== 'object') return value;
+        if (seen.has(value)) return '[Circular]';
+        if (depth >= this.config.maxDepth) return Array.isArray(value) ? `[Array(${value.length})]` : '[Object]';
+        seen.add(value);
+
+        if (Array.isArray(value)) {
+            const items = value.slice(0, this.config.maxArrayLength).map(item => this.redact(item, depth + 1, seen));
+            if (value.length > this.config.maxArrayLength) {
+                items.push(`…[${value.length - this.config.maxArrayLength} more items]`);
+            }
+            return items;
+        }
+
+        if (value instanceof Date) return value.toISOString();
+        if (value instanceof Error) {
+            return { name: value.name, message: this.scrubString(value.message) };
+        }
+
+        const copy: Record<string, any> = {};
+        Object.keys(value).forEach(key => {
+            // Flags like hasApiKey stay readable
+            const field = value[key];
+            const hasValue = field !== undefined && field !== null && typeof field !== 'boolean';
+            if (hasValue && this.matchesKey(key, this.config.redactKeys)) {
+                copy[key] = REDACTED;
+            } else if (this.matchesKey(key, this.config.hashKeys) && typeof field === 'string') {
+                copy[key] = hashValue(field);
+            } else {
+                copy[key] = this.redact(field, depth + 1, seen);
+            }
+        });
+        return copy;
+    }
+
     private formatLogEntry(entry: LogEntry): string {
         let formatted = '';
 
@@ -173,48 +483,34 @@ class DebugLogger {
         data?: any,
         context?: any
     ): LogEntry {
-        const entry: LogEntry = {
+        const ambient = this.contextProvider ? this.contextProvider() : undefined;
+        return {
             timestamp: new Date().toISOString(),
             level,
             component,
             action,
             message,
             data,
-            context
+            context: ambient ? { ...ambient, ...context } : context
         };
-
-        if (this.config.includePerformance) {
-            entry.performance = { duration: getTime() };
-        }
-
-        return entry;
     }
 
-    private outputLog(entry: LogEntry): void {
-        if (!this.shouldLog(entry.level)) return;
-
-        const formatted = this.formatLogEntry(entry);
-
-        if (this.config.logToConsole) {
-            const consoleMethod = entry.level === 'error' ? 'error'
-                : entry.level === 'warn' ? 'warn'
-                    : entry.level === 'info' ? 'info'
-                        : 'log';
+    private outputLog(rawEntry: LogEntry): void {
+        if (!this.shouldLog(rawEntry.level)) return;
 
-            console[consoleMethod](formatted);
+        // Nothing reaches the console or the buffer unredacted
+        const entry: LogEntry = {
+            ...rawEntry,
+            message: this.scrubString(rawEntry.message),
+            data: this.redact(rawEntry.data),
+            error: this.redact(rawEntry.error),
+            context: this.redact(rawEntry.context)
+        };
 
-            // Include structured data for debugging
-            if (entry.data || entry.error || entry.performance) {
-                console.group('📊 Debug Details');
-                if (entry.data) console.log('Data:', entry.data);
-                if (entry.error) console.log('Error:', entry.error);
-                if (entry.performance) console.log('Performance:', entry.performance);
-                if (entry.context) console.log('Context:', entry.context);
-                console.groupEnd();
-            }
-        }
+        this.builtinTransports.forEach(transport => transport.write(entry));
+        this.extraTransports.forEach(transport => transport.write(entry));
 
-        // Add to buffer for potential file logging
+        // Recent entries stay in memory for getLogs (/debug/logs, DebugPanel)
         this.logBuffer.push(entry);
         if (this.logBuffer.length > this.maxBufferSize) {
             this.logBuffer.shift();
@@ -253,7 +549,8 @@ class DebugLogger {
     }
 
     // Performance tracking
-    public startTimer(operation: string, metadata?: Record<string, any>): string {
+    // context goes on the timer's entries, e.g. the request the timed work belongs to
+    public startTimer(operation: string, metadata?: Record<string, any>, context?: Record<string, any>): string {
         if (!this.config.enabled || !this.config.includePerformance) return '';
 
         const timerId = `${operation}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -262,10 +559,11 @@ class DebugLogger {
         this.performanceMetrics.set(timerId, {
             operation,
             startTime,
-            metadata
+            metadata,
+            context
         });
 
-        this.trace('performance', 'timer_start', `Started timer for: ${operation}`, { timerId, metadata });
+        this.trace('performance', 'timer_start', `Started timer for: ${operation}`, { timerId, metadata }, context);
         return timerId;
     }
 
@@ -284,16 +582,80 @@ class DebugLogger {
         metric.endTime = endTime;
         metric.duration = duration;
 
-        this.info('performance', 'timer_end', `Completed: ${metric.operation}`, {
+        const entry = this.createLogEntry('info', 'performance', 'timer_end', `Completed: ${metric.operation}`, {
             duration: `${duration.toFixed(2)}ms`,
             operation: metric.operation,
             metadata: metric.metadata,
             ...additionalData
-        });
+        }, metric.context);
+        entry.performance = { duration };
+
+        this.recordDuration(metric.operation, duration, entry.context);
+        this.outputLog(entry);
 
         this.performanceMetrics.delete(timerId);
     }
 
+    private recordDuration(operation: string, durationMs: number, context?: Record<string, any>): void {
+        let aggregate = this.operationAggregates.get(operation);
+        if (!aggregate) {
+            aggregate = {
+                count: 0,
+                totalMs: 0,
+                minMs: durationMs,
+                maxMs: durationMs,
+                bucketCounts: DURATION_BUCKETS_MS.map(() => 0).concat([0]),
+                samples: []
+            };
+            this.operationAggregates.set(operation, aggregate);
+        }
+
+        aggregate.count++;
+        aggregate.totalMs += durationMs;
+        aggregate.minMs = Math.min(aggregate.minMs, durationMs);
+        aggregate.maxMs = Math.max(aggregate.maxMs, durationMs);
+
+        const bucket = DURATION_BUCKETS_MS.findIndex(bound => durationMs <= bound);
+        aggregate.bucketCounts[bucket === -1 ? DURATION_BUCKETS_MS.length : bucket]++;
+
+        aggregate.samples.push(durationMs);
+        if (aggregate.samples.length > MAX_SAMPLES_PER_OPERATION) aggregate.samples.shift();
+
+        this.recentTimings.push({
+            operation,
+            startedAt: new Date(Date.now() - durationMs).toISOString(),
+            durationMs,
+            context
+        });
+        if (this.recentTimings.length > MAX_RECENT_TIMINGS) this.recentTimings.shift();
+    }
+
+    // Timing statistics per operation and the latest timings, e.g. for /metrics
+    public getPerformance(): PerformanceSnapshot {
+        const operations: OperationStats[] = [];
+        this.operationAggregates.forEach((aggregate, operation) => {
+            const sorted = aggregate.samples.slice().sort((a, b) => a - b);
+            let cumulative = 0;
+            operations.push({
+                operation,
+                count: aggregate.count,
+                totalMs: aggregate.totalMs,
+                minMs: aggregate.minMs,
+                maxMs: aggregate.maxMs,
+                p50Ms: quantile(sorted, 0.5),
+                p95Ms: quantile(sorted, 0.95),
+                p99Ms: quantile(sorted, 0.99),
+                buckets: DURATION_BUCKETS_MS.map((le, index) => {
+                    cumulative += aggregate.bucketCounts[index];
+                    return { le, count: cumulative };
+                })
+            });
+        });
+
+        operations.sort((a, b) => (a.operation < b.operation ? -1 : a.operation > b.operation ? 1 : 0));
+        return { operations, recent: this.recentTimings.slice() };
+    }
+
     // Error tracking with stack traces
     public trackError(error: Error, component: string, action: string, context?: any): void {
         const errorData = {
@@ -306,8 +668,13 @@ class DebugLogger {
     }
 
     // API request/response tracking
+    public createRequestId(): string {
+        return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+
+    // Uses context.requestId when the caller already has one, e.g. to log before the request
     public trackAPIRequest(method: string, url: string, data?: any, context?: any): string {
-        const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const requestId = context?.requestId || this.createRequestId();
 
         this.info('api', 'request', `${method} ${url}`, {
             method,
@@ -327,6 +694,22 @@ class DebugLogger {
         }, { ...context, requestId });
     }
 
+    // Logs an entry made elsewhere, such as one shipped by the frontend, keeping its time and
+    // marking where it came from, in its context and as a prefix of its component
+    public ingest(entry: LogEntry, source: string): void {
+        this.outputLog({
+            timestamp: entry.timestamp,
+            level: entry.level,
+            component: `${source}:${entry.component}`,
+            action: entry.action,
+            message: entry.message,
+            data: entry.data,
+            error: entry.error,
+            performance: entry.performance,
+            context: { ...entry.context, source }
+        });
+    }
+
     // State change tracking
     public trackStateChange(component: string, action: string, oldState: any, newState: any, context?: any): void {
         this.debug('state', 'change', `${component} state changed via ${action}`, {
@@ -359,6 +742,7 @@ class DebugLogger {
     public updateConfig(newConfig: Partial<DebugConfig>): void {
         const oldConfig = { ...this.config };
         this.config = { ...this.config, ...newConfig };
+        this.configureTransports();
 
         this.info('system', 'config_update', 'Debug configuration updated', {
             oldConfig,
@@ -401,22 +785,31 @@ export const debug = {
         debugLogger.info(component, action, message, data, context),
     trace: (component: string, action: string, message: string, data?: any, context?: any) =>
         debugLogger.trace(component, action, message, data, context),
-    startTimer: (operation: string, metadata?: Record<string, any>) =>
-        debugLogger.startTimer(operation, metadata),
+    startTimer: (operation: string, metadata?: Record<string, any>, context?: Record<string, any>) =>
+        debugLogger.startTimer(operation, metadata, context),
     endTimer: (timerId: string, additionalData?: any) =>
         debugLogger.endTimer(timerId, additionalData),
     trackError: (error: Error, component: string, action: string, context?: any) =>
         debugLogger.trackError(error, component, action, context),
+    createRequestId: () => debugLogger.createRequestId(),
     trackAPIRequest: (method: string, url: string, data?: any, context?: any) =>
         debugLogger.trackAPIRequest(method, url, data, context),
     trackAPIResponse: (requestId: string, status: number, data?: any, duration?: number, context?: any) =>
         debugLogger.trackAPIResponse(requestId, status, data, duration, context),
     trackStateChange: (component: string, action: string, oldState: any, newState: any, context?: any) =>
         debugLogger.trackStateChange(component, action, oldState, newState, context),
+    redact: (value: any) => debugLogger.redact(value),
+    ingest: (entry: LogEntry, source: string) => debugLogger.ingest(entry, source),
+    useTransportFactory: (factory: TransportFactory) => debugLogger.useTransportFactory(factory),
+    setContextProvider: (provider: ContextProvider | null) => debugLogger.setContextProvider(provider),
+    addTransport: (transport: LogTransport) => debugLogger.addTransport(transport),
+    removeTransport: (name: string) => debugLogger.removeTransport(name),
+    flush: () => debugLogger.flush(),
     updateConfig: (newConfig: Partial<DebugConfig>) =>
         debugLogger.updateConfig(newConfig),
     getConfig: () => debugLogger.getConfig(),
     getLogs: () => debugLogger.getLogs(),
+    getPerformance: () => debugLogger.getPerformance(),
     clearLogs: () => debugLogger.clearLogs(),
     exportLogs: () => debugLogger.exportLogs()
 };
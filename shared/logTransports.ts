@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import * as path from 'path';
+import { DebugConfig, LogEntry, LogRotation, LogTransport } from './debug';
+
+// Log transports that need Node: JSON-lines files and an HTTP log collector. They are kept
+// out of debug.ts so the logger itself also runs in the browser, where the frontend builds
+// it too. The backend hands createNodeTransports to debug.useTransportFactory.
+
+export interface FileTransportOptions {
+    filePath: string;
+    maxBytes: number;
+    rotation: LogRotation;
+    maxFiles: number;
+    maxAgeDays: number;
+}
+
+// The period an entry falls in, for time based rotation; files are rotated when it changes
+function rotationPeriod(rotation: LogRotation, time: Date): string {
+    if (rotation === 'daily') return time.toISOString().slice(0, 10);
+    if (rotation === 'hourly') return time.toISOString().slice(0, 13);
+    return '';
+}
+
+// JSON lines appended to a file. When the file would grow past maxBytes, or the day/hour
+// changes, it is renamed to <name>.<timestamp><ext> and a new one started; rotated files
+// beyond maxFiles or older than maxAgeDays are deleted. A file left by the previous run is
+// appended to, unless its period is over.
+export class FileTransport implements LogTransport {
+    name = 'file';
+    private stream: fs.WriteStream | null = null;
+    private bytes = 0;
+    private period = '';
+    private failed = false;
+
+    constructor(private options: FileTransportOptions) {}
+
+    private open(): void {
+        const { filePath, rotation } = this.options;
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+
+        let stat: fs.Stats | null = null;
+        try {
+            stat = fs.statSync(filePath);
+        } catch {
+            // No file yet
+        }
+
+        this.period = rotationPeriod(rotation, new Date());
+        if (stat && stat.size > 0 && rotationPeriod(rotation, stat.mtime) !== this.period) {
+            this.rotate(stat.mtime);
+            stat = null;
+        }
+
+        this.bytes = stat ? stat.size : 0;
+        // Opened right away so the file exists, and can be rotated, before the first write lands
+        const fd = fs.openSync(filePath, 'a', 0o600);
+        this.stream = fs.createWriteStream(filePath, { fd, encoding: 'utf8' });
+        this.stream.on('error', error => this.fail(error));
+    }
+
+    // A broken log file must not take the server down with it
+    private fail(error: Error): void {
+        if (this.failed) return;
+        this.failed = true;
+        this.stream = null;
+        console.error(`Logging to ${this.options.filePath} stopped:`, error.message);
+    }
+
+    private rotate(closedAt: Date): void {
+        const { filePath } = this.options;
+        const ext = path.extname(filePath);
+        const stamp = closedAt.toISOString().replace(/[:.]/g, '-');
+        const rotatedPath = `${filePath.slice(0, filePath.length - ext.length)}.${stamp}${ext}`;
+
+        // The old stream keeps writing what it has buffered to the renamed file
+        if (this.stream) {
+            this.stream.end();
+            this.stream = null;
+        }
+        fs.renameSync(filePath, rotatedPath);
+        this.prune();
+    }
+
+    private prune(): void {
+        const { filePath, maxFiles, maxAgeDays } = this.options;
+        const dir = path.dirname(filePath);
+        const ext = path.extname(filePath);
+        const prefix = `${path.basename(filePath, ext)}.`;
+        const oldest = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+        // Rotated names sort by time, newest last
+        const rotated = fs.readdirSync(dir)
+            .filter(name => name !== path.basename(filePath) && name.startsWith(prefix) && name.endsWith(ext))
+            .sort();
+
+        rotated.forEach((name, index) => {
+            const file = path.join(dir, name);
+            const tooMany = index < rotated.length - maxFiles;
+            if (tooMany || fs.statSync(file).mtimeMs < oldest) {
+                fs.unlinkSync(file);
+            }
+        });
+    }
+
+    write(entry: LogEntry): void {
+        if (this.failed) return;
+
+        try {
+            if (!this.stream) this.open();
+
+            const line = `${JSON.stringify(entry)}\n`;
+            const size = Buffer.byteLength(line);
+            const now = new Date();
+            const period = rotationPeriod(this.options.rotation, now);
+
+            if (this.bytes > 0 && (period !== this.period || this.bytes + size > this.options.maxBytes)) {
+                this.rotate(now);
+                this.open();
+            }
+            this.period = period;
+
+            this.stream?.write(line);
+            this.bytes += size;
+        } catch (error) {
+            this.fail(error as Error);
+        }
+    }
+
+    flush(): Promise<void> {
+        return this.close();
+    }
+
+    close(): Promise<void> {
+        const stream = this.stream;
+        this.stream = null;
+        if (!stream) return Promise.resolve();
+        return new Promise(resolve => stream.end(() => resolve()));
+    }
+}
+
+const COLLECTOR_BATCH_MS = 1000;
+const COLLECTOR_MAX_PENDING = 1000;
+
+// Sends entries to a log collector (Vector, Fluent Bit, Logstash's http input...) as
+// JSON lines, batched once a second. Entries that can't be delivered are dropped: the
+// file transport is the one meant to survive outages.
+export class HttpTransport implements LogTransport {
+    name = 'collector';
+    private pending: string[] = [];
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private warned = false;
+
+    constructor(private url: string) {}
+
+    write(entry: LogEntry): void {
+        if (this.pending.length >= COLLECTOR_MAX_PENDING) this.pending.shift();
+        this.pending.push(JSON.stringify(entry));
+
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.flush().catch(() => undefined);
+            }, COLLECTOR_BATCH_MS);
+            // Waiting logs don't keep the process alive
+            this.timer.unref();
+        }
+    }
+
+    flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        if (this.pending.length === 0) return Promise.resolve();
+
+        const body = `${this.pending.join('\n')}\n`;
+        this.pending = [];
+
+        return new Promise(resolve => {
+            const target = new URL(this.url);
+            const request = (target.protocol === 'https:' ? https : http).request(target, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/x-ndjson', 'Content-Length': Buffer.byteLength(body) },
+                timeout: 5000
+            }, response => {
+                response.resume();
+                response.on('end', () => resolve());
+            });
+            request.on('timeout', () => request.destroy(new Error('Timed out')));
+            request.on('error', error => {
+                if (!this.warned) {
+                    this.warned = true;
+                    console.error(`Sending logs to ${this.url} failed:`, error.message);
+                }
+                resolve();
+            });
+            request.end(body);
+        });
+    }
+
+    close(): Promise<void> {
+        return this.flush();
+    }
+}
+
+// The file and collector transports the config asks for
+export function createNodeTransports(config: DebugConfig): LogTransport[] {
+    const transports: LogTransport[] = [];
+    if (config.logToFile && config.logFilePath) {
+        transports.push(new FileTransport({
+            filePath: path.resolve(config.logFilePath),
+            maxBytes: config.logFileMaxBytes,
+            rotation: config.logFileRotation,
+            maxFiles: config.logFileMaxFiles,
+            maxAgeDays: config.logFileMaxAgeDays
+        }));
+    }
+    if (config.collectorUrl) {
+        transports.push(new HttpTransport(config.collectorUrl));
+    }
+    return transports;
+}
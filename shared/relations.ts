@@ -0,0 +1,117 @@
+// Single registry of argument relations. Validation, prompts, edge styling and the
+// interaction panel are all driven from this list; add an entry here to add a relation.
+
+export type RelationPolarity = 'pro' | 'con' | 'neutral';
+
+export interface RelationDefinition {
+    id: string; // Stored on edges as data.relation
+    label: string; // Button and badge text
+    verb: string; // Third person phrase used in prompts, e.g. "X supports Y"
+    color: string; // Hex colour for buttons and edges
+    icon: string;
+    polarity: RelationPolarity; // Whether the relation argues for, against or neither
+    dashed: boolean; // Render edges dashed
+    prompt: string; // Task instruction; {{claim}} is replaced with the claim text
+}
+
+export const RELATIONS = [
+    {
+        id: 'supports',
+        label: 'Support',
+        verb: 'supports',
+        color: '#22c55e',
+        icon: '➕',
+        polarity: 'pro',
+        dashed: false,
+        prompt: 'Here is the claim to support:\n"{{claim}}"\n\nYour concise supporting claim:'
+    },
+    {
+        id: 'refutes',
+        label: 'Refute',
+        verb: 'refutes',
+        color: '#ef4444',
+        icon: '➖',
+        polarity: 'con',
+        dashed: false,
+        prompt: 'Here is the claim to refute:\n"{{claim}}"\n\nYour concise refuting claim:'
+    },
+    {
+        id: 'unpacks',
+        label: 'Unpack',
+        verb: 'states an assumption of',
+        color: '#3b82f6',
+        icon: '❓',
+        polarity: 'neutral',
+        dashed: true,
+        prompt: 'Here is the claim to analyze:\n"{{claim}}"\n\nIdentify and state a key underlying assumption of this claim:'
+    },
+    {
+        id: 'example',
+        label: 'Give Example',
+        verb: 'gives an example of',
+        color: '#14b8a6',
+        icon: '💡',
+        polarity: 'pro',
+        dashed: false,
+        prompt: 'Here is the claim to illustrate:\n"{{claim}}"\n\nState one concrete, real-world example that illustrates this claim:'
+    },
+    {
+        id: 'rebuts',
+        label: 'Rebut',
+        verb: 'rebuts',
+        color: '#be123c',
+        icon: '⚔️',
+        polarity: 'con',
+        dashed: false,
+        prompt: 'Here is the claim to rebut:\n"{{claim}}"\n\nState a claim that directly contradicts its conclusion (your concise rebuttal):'
+    },
+    {
+        id: 'undercuts',
+        label: 'Undercut',
+        verb: 'undercuts',
+        color: '#f97316',
+        icon: '✂️',
+        polarity: 'con',
+        dashed: true,
+        prompt: 'Here is the claim to undercut:\n"{{claim}}"\n\nWithout denying the claim itself, state why the reasoning behind it does not establish what it says (your concise undercutting claim):'
+    },
+    {
+        id: 'qualifies',
+        label: 'Qualify',
+        verb: 'qualifies',
+        color: '#a855f7',
+        icon: '⚖️',
+        polarity: 'neutral',
+        dashed: true,
+        prompt: 'Here is the claim to qualify:\n"{{claim}}"\n\nState a condition or limitation under which this claim holds (your concise qualifying claim):'
+    },
+    {
+        id: 'clarifies',
+        label: 'Ask Question',
+        verb: 'asks a clarifying question about',
+        color: '#eab308',
+        icon: '🤔',
+        polarity: 'neutral',
+        dashed: true,
+        prompt: 'Here is the claim to examine:\n"{{claim}}"\n\nAsk one short clarifying question that the author of this claim should answer:'
+    }
+] as const;
+
+export type RelationId = typeof RELATIONS[number]['id'];
+
+export const RELATION_IDS: RelationId[] = RELATIONS.map(relation => relation.id);
+
+export function isRelationId(value: unknown): value is RelationId {
+    return typeof value === 'string' && (RELATION_IDS as string[]).includes(value);
+}
+
+export function getRelation(id: RelationId): RelationDefinition {
+    return RELATIONS.find(relation => relation.id === id) as RelationDefinition;
+}
+
+// Everything except the prompt, for clients that only need to display relations
+export type RelationInfo = Omit<RelationDefinition, 'prompt'>;
+
+export function listRelationInfo(): RelationInfo[] {
+    return RELATIONS.map(({ prompt, ...info }) => ({ ...info }));
+}
@@ -1,10 +1,15 @@
+import { RelationId } from './relations';
+
 export interface ArgumentNode {
     id: string; // Unique ID, can be generated by a library like nanoid
     type: 'argumentNode'; // Custom node type for React Flow
     position: { x: number; y: number }; // Position on the canvas
     data: {
         label: string; // The text content of the claim
+        title?: string; // Short name, as in Argdown's [Title]: text
         author: 'user' | 'llm';
+        rationale?: string; // Why the model produced this claim, for generated nodes
+        pinned?: boolean; // Kept in place by the automatic layout
     };
 }
 
@@ -14,9 +19,91 @@ export interface ArgumentEdge {
     target: string; // ID of the target ArgumentNode
     type: 'argumentEdge'; // Custom edge type
     data: {
-        relation: 'supports' | 'refutes' | 'unpacks';
+        relation: RelationId; // See shared/relations.ts
     };
     animated: boolean; // Makes the edge "flow"
 }
 
-export type Action = 'supports' | 'refutes' | 'unpacks'; 
\ No newline at end of file
+export type Action = RelationId;
+
+// A claim on the path from the root thesis down to the claim being expanded
+export interface ContextClaim {
+    label: string;
+    relation?: Action; // How this claim relates to the previous one in the chain; absent for the root
+}
+
+// Surrounding graph sent along with a generate request so prompts can see beyond one claim
+export interface GraphContext {
+    ancestors: ContextClaim[]; // Root first, ending with the source node's parent
+    sourceRelation?: Action; // How the source node relates to its parent
+    siblings: string[]; // Existing claims with the requested relation to the source node
+} 
+
+// A named, editable set of prompts. Relations without an override use the registry default.
+export interface PromptTemplateSet {
+    id: string;
+    name: string;
+    description?: string;
+    baseInstruction: string; // Supports {{claim}}, {{context}}, {{relation}}, {{relationLabel}}, {{root}}
+    relations: Record<string, string>; // Relation id -> task template
+    builtIn?: boolean; // Shipped with Dianoia and read-only
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A graph as stored by the backend (/api/graphs)
+export interface GraphRecord {
+    id: string;
+    name: string;
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    templateSetId?: string | null; // Pinned prompt template set, null for the default
+    createdAt: string;
+    updatedAt: string;
+}
+
+// A saved version of a graph (/api/graphs/:id/snapshots). Manual ones are checkpoints
+// named by the user; automatic ones are taken periodically while the graph is edited.
+export interface GraphSnapshot {
+    id: string;
+    graphId: string;
+    name: string;
+    kind: 'manual' | 'auto';
+    nodes: ArgumentNode[];
+    edges: ArgumentEdge[];
+    createdAt: string;
+}
+
+export type SnapshotSummary = Omit<GraphSnapshot, 'nodes' | 'edges'> & {
+    nodeCount: number;
+    edgeCount: number;
+};
+
+// Outcome of checking a key against its provider; 'unknown' when the provider can't tell
+// without a generation, or couldn't be reached
+export interface KeyValidation {
+    status: 'valid' | 'invalid' | 'unknown';
+    message?: string;
+    checkedAt: string;
+}
+
+// Which provider generation requests from this browser will use (GET /api/session)
+export interface SessionStatus {
+    configured: boolean; // A provider is available, from the session or the backend's environment
+    source: 'session' | 'environment' | null;
+    provider: string | null;
+    model: string | null;
+    expiresAt: string | null; // When the session's key is forgotten unless used again; null without one
+    validation: KeyValidation | null;
+}
+
+// What the graph list returns; the full record is fetched separately
+export interface GraphSummary {
+    id: string;
+    name: string;
+    rootClaim: string | null; // Label of the first claim nothing responds to
+    nodeCount: number;
+    edgeCount: number;
+    createdAt: string;
+    updatedAt: string;
+}